@@ -19,6 +19,7 @@ async function generateOpenApiSpec() {
     .addTag('users', 'User management endpoints')
     .addTag('employees', 'Employee management endpoints')
     .addTag('departments', 'Department management endpoints')
+    .addTag('audit', 'Audit log endpoints')
     .addTag('app', 'Application endpoints')
     .addTag('auth', 'Authentication endpoints')
     .addCookieAuth('session-id')
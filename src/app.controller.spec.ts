@@ -10,6 +10,7 @@ describe('AppController', () => {
   beforeEach(async () => {
     const mockMysqlDatabaseService = {
       healthCheck: jest.fn(),
+      readReplicaStatus: jest.fn(() => []),
     };
 
     const app: TestingModule = await Test.createTestingModule({
@@ -35,7 +35,7 @@ export class AppController {
   @ApiOperation({
     summary: 'Health check with database status',
     description:
-      'Returns application and database health status. This endpoint verifies that both the API server and MySQL database are accessible. Returns HTTP 200 if healthy, HTTP 503 if the database is unavailable.',
+      'Returns application and database health status. This endpoint verifies that both the API server and MySQL database are accessible. Returns HTTP 200 if healthy, HTTP 503 if the database is unavailable. When DB_READ_HOSTS is set, the state of each read replica is included.',
   })
   @ApiResponse({
     status: 200,
@@ -75,6 +75,10 @@ export class AppController {
       timestamp: new Date().toISOString(),
       database: dbHealthy ? ('connected' as const) : ('disconnected' as const),
     };
+    const readReplicas = this.databaseService.readReplicaStatus();
+    if (readReplicas.length > 0) {
+      healthStatus.readReplicas = readReplicas;
+    }
 
     if (!dbHealthy) {
       throw new HttpException(healthStatus, HttpStatus.SERVICE_UNAVAILABLE);
@@ -16,6 +16,8 @@ import { RabbitMQSenderModule } from './rabbiMQ/sender/rabbitmq-sender.module';
 import { validateEnv } from './config/validate-env';
 import { RabbitMqClientModule } from './rabbitMqClient/rabbitMqClient.module';
 import { DepartmentsModule } from './departments/departments.module';
+import { AuditModule } from './audit/audit.module';
+import { SearchModule } from './search/search.module';
 
 @Module({
   imports: [
@@ -31,6 +33,8 @@ import { DepartmentsModule } from './departments/departments.module';
     DatabaseModule,
     EmployeesModule,
     DepartmentsModule,
+    AuditModule,
+    SearchModule,
     AuthModule,
     ThrottlerModule.forRoot([
       {
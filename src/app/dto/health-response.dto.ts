@@ -1,4 +1,22 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ReadReplicaHealthDto {
+  @ApiProperty({ description: 'Replica host', example: 'replica1' })
+  host: string;
+
+  @ApiProperty({ description: 'Replica port', example: 3306 })
+  port: number;
+
+  @ApiProperty({
+    description:
+      'false while the replica is evicted after failed health checks or connection errors (reads go to the other replicas or the writer)',
+    example: true,
+  })
+  healthy: boolean;
+
+  @ApiProperty({ description: 'Reads currently running on it', example: 0 })
+  inFlight: number;
+}
 
 export class HealthResponseDto {
   @ApiProperty({
@@ -22,4 +40,11 @@ export class HealthResponseDto {
     enum: ['connected', 'disconnected'],
   })
   database: 'connected' | 'disconnected';
+
+  @ApiPropertyOptional({
+    description:
+      'Read replicas configured with DB_READ_HOSTS (omitted when not configured). An evicted replica does not make the service unhealthy.',
+    type: [ReadReplicaHealthDto],
+  })
+  readReplicas?: ReadReplicaHealthDto[];
 }
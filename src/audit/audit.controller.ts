@@ -0,0 +1,242 @@
+import { Controller, Get, Param, Query, Res, UseGuards } from '@nestjs/common';
+import type { Response } from 'express';
+import {
+  ApiCookieAuth,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { SkipThrottle } from '@nestjs/throttler';
+import { SessionGuard } from 'src/auth/guards/session.guard';
+import { AllowedUserTypes } from 'src/auth/decorators/allowed-user-types.decorator';
+import { ErrorResponseDto } from 'src/common/dto/error-response.dto';
+import { PaginationResult } from 'src/common/result';
+import { parseDateParam } from 'src/common/tools';
+import { AuditService } from './audit.service';
+import { AuditLogResponseDto } from './dto/audit-log-response.dto';
+
+@ApiTags('audit')
+@SkipThrottle()
+@Controller('audit')
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  private setPaginationHeaders(
+    res: Response,
+    result: PaginationResult<unknown>,
+  ): void {
+    const hasNextPage = result.Page < result.TotalPages;
+    const hasPreviousPage = result.Page > 1;
+
+    res.setHeader('X-Total-Count', result.Total.toString());
+    res.setHeader('X-Page', result.Page.toString());
+    res.setHeader('X-Page-Size', result.PageSize.toString());
+    res.setHeader('X-Total-Pages', result.TotalPages.toString());
+    res.setHeader('X-Has-Next-Page', hasNextPage.toString());
+    res.setHeader('X-Has-Previous-Page', hasPreviousPage.toString());
+  }
+
+  @Get()
+  @UseGuards(SessionGuard)
+  @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
+  @AllowedUserTypes('admin')
+  @ApiOperation({
+    summary: 'Query the audit log',
+    description:
+      'Retrieve a paginated list of audit events, newest first by default. Supports filtering by event type, entity, actor and date range. Pagination metadata is returned via response headers.',
+  })
+  @ApiQuery({
+    name: 'eventType',
+    required: false,
+    type: String,
+    description: 'Filter by event type',
+    example: 'employee.updated',
+  })
+  @ApiQuery({
+    name: 'entityType',
+    required: false,
+    type: String,
+    description: 'Filter by entity type',
+    example: 'Employee',
+  })
+  @ApiQuery({
+    name: 'entityId',
+    required: false,
+    type: String,
+    description: 'Filter by entity ID',
+    example: '42',
+  })
+  @ApiQuery({
+    name: 'actorUserId',
+    required: false,
+    type: String,
+    description: 'Filter by the id of the user who triggered the event',
+  })
+  @ApiQuery({
+    name: 'from',
+    required: false,
+    type: String,
+    description: 'Only events recorded at or after this date (ISO 8601)',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  @ApiQuery({
+    name: 'to',
+    required: false,
+    type: String,
+    description: 'Only events recorded at or before this date (ISO 8601)',
+    example: '2024-12-31T23:59:59.999Z',
+  })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Page number (default: 1)',
+    example: 1,
+  })
+  @ApiQuery({
+    name: 'pageSize',
+    required: false,
+    type: Number,
+    description: 'Number of items per page (default: 10)',
+    example: 10,
+  })
+  @ApiQuery({
+    name: 'sortOrder',
+    required: false,
+    enum: ['ASC', 'DESC'],
+    description: 'Sort order by createdAt (default: DESC)',
+    example: 'DESC',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'List of audit events for the current page',
+    type: [AuditLogResponseDto],
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid query parameters',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden (insufficient permissions)',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'Service unavailable (e.g., database connection error)',
+    type: ErrorResponseDto,
+  })
+  async findAll(
+    @Res({ passthrough: true }) res: Response,
+    @Query('eventType') eventType?: string,
+    @Query('entityType') entityType?: string,
+    @Query('entityId') entityId?: string,
+    @Query('actorUserId') actorUserId?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('page') page?: number,
+    @Query('pageSize') pageSize?: number,
+    @Query('sortOrder') sortOrder?: 'ASC' | 'DESC',
+  ) {
+    const result = await this.auditService.findAll(
+      {
+        eventType,
+        entityType,
+        entityId,
+        actorUserId,
+        from: parseDateParam(from, 'from'),
+        to: parseDateParam(to, 'to'),
+      },
+      page,
+      pageSize,
+      sortOrder,
+    );
+
+    this.setPaginationHeaders(res, result);
+    return result.ReturnedObject;
+  }
+
+  @Get(':entityType/:entityId/timeline')
+  @UseGuards(SessionGuard)
+  @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
+  @AllowedUserTypes('admin')
+  @ApiOperation({
+    summary: 'Get the audit timeline of an entity',
+    description:
+      'Retrieve every audit event recorded for a single entity in chronological order (oldest first). Pagination metadata is returned via response headers.',
+  })
+  @ApiParam({
+    name: 'entityType',
+    type: String,
+    description: 'Entity type',
+    example: 'Employee',
+  })
+  @ApiParam({
+    name: 'entityId',
+    type: String,
+    description: 'Entity ID',
+    example: '42',
+  })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Page number (default: 1)',
+    example: 1,
+  })
+  @ApiQuery({
+    name: 'pageSize',
+    required: false,
+    type: Number,
+    description: 'Number of items per page (default: 10)',
+    example: 10,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Audit events of the entity for the current page',
+    type: [AuditLogResponseDto],
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden (insufficient permissions)',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'Service unavailable (e.g., database connection error)',
+    type: ErrorResponseDto,
+  })
+  async timeline(
+    @Res({ passthrough: true }) res: Response,
+    @Param('entityType') entityType: string,
+    @Param('entityId') entityId: string,
+    @Query('page') page?: number,
+    @Query('pageSize') pageSize?: number,
+  ) {
+    const result = await this.auditService.timeline(
+      entityType,
+      entityId,
+      page,
+      pageSize,
+    );
+
+    this.setPaginationHeaders(res, result);
+    return result.ReturnedObject;
+  }
+}
@@ -1,10 +1,13 @@
 import { Module } from '@nestjs/common';
 import { DatabaseModule } from 'src/database/database.module';
 import { AuditRepository } from './audit.repository';
+import { AuditService } from './audit.service';
+import { AuditController } from './audit.controller';
 
 @Module({
   imports: [DatabaseModule],
-  providers: [AuditRepository],
-  exports: [AuditRepository],
+  controllers: [AuditController],
+  providers: [AuditRepository, AuditService],
+  exports: [AuditRepository, AuditService],
 })
 export class AuditModule {}
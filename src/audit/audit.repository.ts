@@ -1,5 +1,8 @@
 import { Injectable } from '@nestjs/common';
 import { MysqlDatabaseService } from 'src/database/mysql-database.service';
+import { PaginationResult, ResultWithData } from 'src/common/result';
+import { handleDatabaseError } from 'src/common/error-handlers';
+import { AuditLog, AuditLogFilter } from './entities/auditLog';
 
 export interface AuditLogEvent {
   eventType: string;
@@ -39,4 +42,176 @@ export class AuditRepository {
       data,
     ]);
   }
+
+  async findOne(id: number): Promise<ResultWithData<AuditLog | null>> {
+    const result = new ResultWithData<AuditLog | null>();
+    try {
+      const auditLog = await this.db.queryOne<AuditLog>(
+        `SELECT id, eventType, entityType, entityId, actorUserId, actorType, ip, userAgent, data, createdAt
+         FROM AuditLog WHERE id = ?`,
+        [id],
+      );
+
+      if (auditLog) {
+        result.Success = true;
+        result.Message = 'Audit entry retrieved successfully';
+        result.ErrorCode = 0;
+        result.ReturnedObject = auditLog;
+        return result;
+      }
+
+      result.Success = false;
+      result.Message = `Audit entry with id ${id} not found`;
+      result.ErrorCode = 404;
+      result.ReturnedObject = null;
+      return result;
+    } catch (error) {
+      console.log('AuditRepository.findOne. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to retrieve audit entry',
+      );
+      return new ResultWithData<AuditLog | null>(
+        errorResult.Success,
+        errorResult.Message,
+        null,
+        errorResult.ErrorCode,
+      );
+    }
+  }
+
+  /**
+   * All events of a single entity in chronological order, optionally up to a point in time.
+   */
+  async findByEntity(
+    entityType: string,
+    entityId: string,
+    until?: Date,
+  ): Promise<ResultWithData<AuditLog[]>> {
+    const result = new ResultWithData<AuditLog[]>();
+    try {
+      const values: any[] = [entityType, entityId];
+      let sql = `SELECT id, eventType, entityType, entityId, actorUserId, actorType, ip, userAgent, data, createdAt
+                 FROM AuditLog
+                 WHERE entityType = ? AND entityId = ?`;
+      if (until) {
+        sql += ' AND createdAt <= ?';
+        values.push(until);
+      }
+      sql += ' ORDER BY createdAt ASC, id ASC';
+
+      const rows = await this.db.query<AuditLog>(sql, values);
+
+      result.Success = true;
+      result.Message = 'Audit log retrieved successfully';
+      result.ErrorCode = 0;
+      result.ReturnedObject = rows;
+      return result;
+    } catch (error) {
+      console.log('AuditRepository.findByEntity. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to retrieve audit log',
+      );
+      return new ResultWithData<AuditLog[]>(
+        errorResult.Success,
+        errorResult.Message,
+        [],
+        errorResult.ErrorCode,
+      );
+    }
+  }
+
+  async findAll(
+    filter: AuditLogFilter,
+    page?: number,
+    pageSize?: number,
+    sortOrder?: 'ASC' | 'DESC',
+  ): Promise<PaginationResult<AuditLog[]>> {
+    const result = new PaginationResult<AuditLog[]>();
+    try {
+      const currentPage = page && page > 0 ? Math.floor(page) : 1;
+      const currentPageSize =
+        pageSize && pageSize > 0 ? Math.floor(pageSize) : 10;
+      const offset = (currentPage - 1) * currentPageSize;
+      const direction = sortOrder === 'ASC' ? 'ASC' : 'DESC';
+
+      // Every filter is bound as a parameter; column order matches idx_entity_createdAt.
+      const conditions: string[] = [];
+      const values: any[] = [];
+
+      if (filter.entityType) {
+        conditions.push('entityType = ?');
+        values.push(filter.entityType);
+      }
+      if (filter.entityId) {
+        conditions.push('entityId = ?');
+        values.push(filter.entityId);
+      }
+      if (filter.eventType) {
+        conditions.push('eventType = ?');
+        values.push(filter.eventType);
+      }
+      if (filter.actorUserId) {
+        conditions.push('actorUserId = ?');
+        values.push(filter.actorUserId);
+      }
+      if (filter.from) {
+        conditions.push('createdAt >= ?');
+        values.push(filter.from);
+      }
+      if (filter.to) {
+        conditions.push('createdAt <= ?');
+        values.push(filter.to);
+      }
+
+      const where = conditions.length
+        ? `WHERE ${conditions.join(' AND ')}`
+        : '';
+
+      const countRow = await this.db.queryOne<{ count: number }>(
+        `SELECT COUNT(*) AS count FROM AuditLog ${where}`,
+        values,
+      );
+      const totalCount = Number(countRow?.count ?? 0);
+
+      // LIMIT/OFFSET are sanitized integers (prepared statements don't accept them as placeholders reliably)
+      const rows = await this.db.query<AuditLog>(
+        `SELECT id, eventType, entityType, entityId, actorUserId, actorType, ip, userAgent, data, createdAt
+         FROM AuditLog ${where}
+         ORDER BY createdAt ${direction}, id ${direction}
+         LIMIT ${currentPageSize} OFFSET ${offset}`,
+        values,
+      );
+
+      result.Success = true;
+      result.Message = 'Audit log retrieved successfully';
+      result.ErrorCode = 0;
+      result.Page = currentPage;
+      result.PageSize = currentPageSize;
+      result.Total = totalCount;
+      result.TotalPages = Math.ceil(totalCount / currentPageSize);
+      result.ReturnedObject = rows;
+      return result;
+    } catch (error) {
+      console.log('AuditRepository.findAll. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to retrieve audit log',
+      );
+      return new PaginationResult<AuditLog[]>(
+        errorResult.Success,
+        errorResult.Message,
+        page && page > 0 ? page : 1,
+        pageSize && pageSize > 0 ? pageSize : 10,
+        0,
+        0,
+        [],
+        errorResult.ErrorCode,
+      );
+    }
+  }
 }
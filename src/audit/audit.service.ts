@@ -0,0 +1,56 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { AuditRepository } from './audit.repository';
+import { AuditLogFilter } from './entities/auditLog';
+import { AuditLogResponseDto } from './dto/audit-log-response.dto';
+import { PaginationResult } from 'src/common/result';
+import { handleRepositoryError } from 'src/common/error-handlers';
+
+@Injectable()
+export class AuditService {
+  constructor(private readonly auditRepository: AuditRepository) {}
+
+  async findAll(
+    filter: AuditLogFilter,
+    page?: number,
+    pageSize?: number,
+    sortOrder?: 'ASC' | 'DESC',
+  ): Promise<PaginationResult<AuditLogResponseDto[]>> {
+    if (filter.from && filter.to && filter.from > filter.to) {
+      throw new BadRequestException('from must be before to');
+    }
+
+    const result = await this.auditRepository.findAll(
+      filter,
+      page,
+      pageSize,
+      sortOrder,
+    );
+
+    if (!result.Success) {
+      handleRepositoryError(result);
+    }
+
+    return new PaginationResult<AuditLogResponseDto[]>(
+      result.Success,
+      result.Message,
+      result.Page,
+      result.PageSize,
+      result.Total,
+      result.TotalPages,
+      (result.ReturnedObject ?? []) as AuditLogResponseDto[],
+      result.ErrorCode,
+    );
+  }
+
+  /**
+   * Events for a single entity in chronological order (oldest first).
+   */
+  async timeline(
+    entityType: string,
+    entityId: string,
+    page?: number,
+    pageSize?: number,
+  ): Promise<PaginationResult<AuditLogResponseDto[]>> {
+    return this.findAll({ entityType, entityId }, page, pageSize, 'ASC');
+  }
+}
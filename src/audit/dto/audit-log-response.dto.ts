@@ -0,0 +1,72 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class AuditLogResponseDto {
+  @ApiProperty({
+    description: 'The unique identifier of the audit entry',
+    example: 1,
+  })
+  id: number;
+
+  @ApiProperty({
+    description: 'The event type',
+    example: 'employee.updated',
+  })
+  eventType: string;
+
+  @ApiProperty({
+    description: 'The type of the affected entity',
+    example: 'Employee',
+  })
+  entityType: string;
+
+  @ApiProperty({
+    description: 'The identifier of the affected entity',
+    example: '42',
+  })
+  entityId: string;
+
+  @ApiPropertyOptional({
+    description: 'The id of the user who triggered the event',
+    example: '019490c2-7d2e-7c4a-9d11-2f0b3c5a6e7f',
+    nullable: true,
+  })
+  actorUserId: string | null;
+
+  @ApiPropertyOptional({
+    description: 'The type of the user who triggered the event',
+    example: 'user',
+    nullable: true,
+  })
+  actorType: string | null;
+
+  @ApiPropertyOptional({
+    description: 'The client IP address',
+    example: '127.0.0.1',
+    nullable: true,
+  })
+  ip: string | null;
+
+  @ApiPropertyOptional({
+    description: 'The client user agent',
+    example: 'Mozilla/5.0',
+    nullable: true,
+  })
+  userAgent: string | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Event payload (e.g. { before, changes } for updates, { before } for deletes)',
+    type: 'object',
+    additionalProperties: true,
+    nullable: true,
+  })
+  data: unknown;
+
+  @ApiProperty({
+    description: 'The date and time when the event was recorded',
+    example: '2024-01-15T10:30:00.000Z',
+    type: String,
+    format: 'date-time',
+  })
+  createdAt: Date;
+}
@@ -0,0 +1,21 @@
+export interface AuditLog {
+  id: number;
+  eventType: string;
+  entityType: string;
+  entityId: string;
+  actorUserId: string | null;
+  actorType: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  data: unknown;
+  createdAt: Date;
+}
+
+export interface AuditLogFilter {
+  eventType?: string;
+  entityType?: string;
+  entityId?: string;
+  actorUserId?: string;
+  from?: Date;
+  to?: Date;
+}
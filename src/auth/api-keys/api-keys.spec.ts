@@ -0,0 +1,30 @@
+import { ApiKeyScope } from '../entities/api-key';
+import { generateApiKey, parseScopes, requiredScope } from './api-keys';
+
+describe('api-keys', () => {
+  it('generates unique keys with a display prefix', () => {
+    const a = generateApiKey();
+    const b = generateApiKey();
+
+    expect(a.key).toMatch(/^nak_[A-Za-z0-9_-]{43}$/);
+    expect(a.key.startsWith(a.prefix)).toBe(true);
+    expect(a.prefix).toHaveLength(12);
+    expect(a.key).not.toBe(b.key);
+  });
+
+  it('needs the read scope for safe methods and write for the rest', () => {
+    expect(requiredScope('GET')).toBe(ApiKeyScope.READ);
+    expect(requiredScope('head')).toBe(ApiKeyScope.READ);
+    expect(requiredScope('POST')).toBe(ApiKeyScope.WRITE);
+    expect(requiredScope('DELETE')).toBe(ApiKeyScope.WRITE);
+  });
+
+  it('parses stored scopes, ignoring unknown ones', () => {
+    expect(parseScopes('read,write')).toEqual([
+      ApiKeyScope.READ,
+      ApiKeyScope.WRITE,
+    ]);
+    expect(parseScopes('read, admin')).toEqual([ApiKeyScope.READ]);
+    expect(parseScopes(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,26 @@
+import { randomBytes } from 'crypto';
+import { ApiKeyScope } from '../entities/api-key';
+
+const API_KEY_PREFIX = 'nak_';
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+/** A new key, plus the part of it that is kept in clear for display. */
+export function generateApiKey(): { key: string; prefix: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+  return { key, prefix: key.slice(0, DISPLAY_PREFIX_LENGTH) };
+}
+
+export function requiredScope(method: string): ApiKeyScope {
+  return ['GET', 'HEAD', 'OPTIONS'].includes(method.toUpperCase())
+    ? ApiKeyScope.READ
+    : ApiKeyScope.WRITE;
+}
+
+/** Scopes are stored as a comma-separated list. */
+export function parseScopes(value: string | null): ApiKeyScope[] {
+  const known = Object.values(ApiKeyScope) as string[];
+  return (value ?? '')
+    .split(',')
+    .map((scope) => scope.trim())
+    .filter((scope): scope is ApiKeyScope => known.includes(scope));
+}
@@ -6,6 +6,8 @@ import {
   UseGuards,
   Get,
   Req,
+  Delete,
+  Param,
 } from '@nestjs/common';
 import type { Request } from 'express';
 import {
@@ -14,30 +16,64 @@ import {
   ApiResponse,
   ApiBody,
   ApiCookieAuth,
+  ApiBearerAuth,
+  ApiParam,
+  ApiExtraModels,
+  getSchemaPath,
 } from '@nestjs/swagger';
 import { AuthService } from './auth.service';
 import { LoginDto } from './dto/login.dto';
 import { VerifyCodeDto } from './dto/verify-code.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { TokenResponseDto } from './dto/token-response.dto';
+import { TokenService } from './services/token.service';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import {
+  ApiKeyResponseDto,
+  CreatedApiKeyResponseDto,
+} from './dto/api-key-response.dto';
+import { ApiKeyService } from './services/api-key.service';
+import { NoApiKeys } from './decorators/no-api-keys.decorator';
+import { SessionsService } from './services/sessions.service';
+import { SessionResponseDto } from './dto/session-response.dto';
+import { TotpCodeDto } from './dto/totp-code.dto';
+import {
+  TotpEnrollmentResponseDto,
+  TotpRecoveryCodesResponseDto,
+  TotpStatusResponseDto,
+} from './dto/totp-response.dto';
+import { TotpService } from './services/totp.service';
 import { SessionGuard } from './guards/session.guard';
 import { CurrentUser } from './decorators/current-user.decorator';
-import { SessionUser } from '../types/session-user.interface';
+import { AllowedUserTypes } from './decorators/allowed-user-types.decorator';
+import type { SessionUser } from '../types/session-user.interface';
+import { AuditMetaParam } from '../audit/decorators/audit-meta.decorator';
+import type { AuditMetadata } from '../audit/entities/auditMetadata';
 import { ErrorResponseDto } from 'src/common/dto/error-response.dto';
 
 @ApiTags('auth')
+@ApiExtraModels(TokenResponseDto)
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly totpService: TotpService,
+    private readonly tokenService: TokenService,
+    private readonly apiKeyService: ApiKeyService,
+    private readonly sessionsService: SessionsService,
+  ) {}
 
   @Post('login')
   @ApiOperation({
     summary: 'Initiate login',
     description:
-      'Submit username and password to receive a verification code via email',
+      'Submit username and password to receive a verification code via email. Users with an authenticator app enrolled get no email (method "totp") and verify with the code from the app.',
   })
   @ApiBody({ type: LoginDto })
   @ApiResponse({
     status: 200,
-    description: 'Verification code sent to email',
+    description:
+      'Verification code sent to email, or authenticator code expected',
     schema: {
       type: 'object',
       properties: {
@@ -45,6 +81,11 @@ export class AuthController {
           type: 'string',
           example: 'Verification code sent to your email',
         },
+        method: {
+          type: 'string',
+          enum: ['email', 'totp'],
+          example: 'email',
+        },
       },
     },
   })
@@ -58,20 +99,30 @@ export class AuthController {
     description: 'Invalid credentials',
     type: ErrorResponseDto,
   })
-  async login(@Body(ValidationPipe) loginDto: LoginDto) {
-    return this.authService.initiateLogin(loginDto);
+  @ApiResponse({
+    status: 429,
+    description:
+      'Account temporarily locked after too many failed attempts (lockouts grow exponentially)',
+    type: ErrorResponseDto,
+  })
+  async login(
+    @Body(ValidationPipe) loginDto: LoginDto,
+    @AuditMetaParam() auditMeta: AuditMetadata,
+  ) {
+    return this.authService.initiateLogin(loginDto, auditMeta);
   }
 
   @Post('verify')
   @ApiOperation({
     summary: 'Verify code and complete login',
     description:
-      'Submit email and verification code to complete login and receive session cookie',
+      'Submit email and verification code to complete login and receive session cookie. With an authenticator app enrolled, the code is the one from the app, or one of the recovery codes. With `issueTokens: true`, bearer access and refresh tokens are returned instead of the cookie.',
   })
   @ApiBody({ type: VerifyCodeDto })
   @ApiResponse({
     status: 200,
-    description: 'Login successful, session cookie set',
+    description:
+      'Login successful, session cookie set (or tokens returned when requested)',
     schema: {
       type: 'object',
       properties: {
@@ -85,6 +136,7 @@ export class AuthController {
             type: { type: 'string' },
           },
         },
+        tokens: { $ref: getSchemaPath(TokenResponseDto) },
       },
     },
   })
@@ -98,16 +150,86 @@ export class AuthController {
     description: 'Invalid or expired verification code',
     type: ErrorResponseDto,
   })
+  @ApiResponse({
+    status: 429,
+    description:
+      'Too many wrong codes: the code is invalidated and the account temporarily locked',
+    type: ErrorResponseDto,
+  })
   async verify(
     @Body(ValidationPipe) verifyCodeDto: VerifyCodeDto,
     @Req() request: Request,
+    @AuditMetaParam() auditMeta: AuditMetadata,
+  ) {
+    return this.authService.verifyCode(
+      verifyCodeDto,
+      request.session,
+      auditMeta,
+    );
+  }
+
+  @Post('refresh')
+  @ApiOperation({
+    summary: 'Refresh bearer tokens',
+    description:
+      'Exchange a refresh token for a new access token and a new refresh token. Each refresh token works once: presenting one that was already used revokes every token of that login.',
+  })
+  @ApiBody({ type: RefreshTokenDto })
+  @ApiResponse({
+    status: 201,
+    description: 'New tokens issued',
+    type: TokenResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input data',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid, expired, revoked or reused refresh token',
+    type: ErrorResponseDto,
+  })
+  async refresh(
+    @Body(ValidationPipe) refreshTokenDto: RefreshTokenDto,
+    @AuditMetaParam() auditMeta: AuditMetadata,
   ) {
-    return this.authService.verifyCode(verifyCodeDto, request.session);
+    return this.tokenService.refresh(refreshTokenDto.refreshToken, auditMeta);
+  }
+
+  @Post('token/revoke')
+  @ApiOperation({
+    summary: 'Revoke a refresh token',
+    description:
+      'Logout for bearer clients: revokes the refresh token and every token rotated from the same login. Access tokens already issued stay valid until they expire.',
+  })
+  @ApiBody({ type: RefreshTokenDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Refresh token revoked',
+    schema: {
+      type: 'object',
+      properties: {
+        message: {
+          type: 'string',
+          example: 'Refresh token revoked successfully',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input data',
+    type: ErrorResponseDto,
+  })
+  async revokeToken(@Body(ValidationPipe) refreshTokenDto: RefreshTokenDto) {
+    return this.tokenService.revoke(refreshTokenDto.refreshToken);
   }
 
   @Post('logout')
   @UseGuards(SessionGuard)
   @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
   @ApiOperation({
     summary: 'Logout',
     description: 'Destroy the current session',
@@ -134,6 +256,7 @@ export class AuthController {
   @Get('me')
   @UseGuards(SessionGuard)
   @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
   @ApiOperation({
     summary: 'Get current user',
     description: 'Get information about the currently authenticated user',
@@ -159,4 +282,533 @@ export class AuthController {
   getCurrentUser(@CurrentUser() user: SessionUser | null) {
     return user;
   }
+
+  @Get('totp')
+  @UseGuards(SessionGuard)
+  @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get authenticator app status',
+    description:
+      'Whether the current user verifies login with an authenticator app, and how many recovery codes are left',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Authenticator app status',
+    type: TotpStatusResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Not authenticated',
+    type: ErrorResponseDto,
+  })
+  async getTotpStatus(@CurrentUser() user: SessionUser) {
+    return this.totpService.status(user.id);
+  }
+
+  @Post('totp/enroll')
+  @UseGuards(SessionGuard)
+  @NoApiKeys()
+  @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Enroll an authenticator app',
+    description:
+      'Generates a new TOTP secret and its otpauth:// URI (render it as a QR code). Login keeps using emailed codes until the enrollment is confirmed with POST /api/auth/totp/confirm. Calling it again before confirming replaces the secret.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Enrollment started',
+    type: TotpEnrollmentResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Not authenticated',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Not available with an API key',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'An authenticator app is already enrolled',
+    type: ErrorResponseDto,
+  })
+  async enrollTotp(@CurrentUser() user: SessionUser) {
+    return this.totpService.enroll(user.id, user.username);
+  }
+
+  @Post('totp/confirm')
+  @UseGuards(SessionGuard)
+  @NoApiKeys()
+  @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Confirm authenticator app enrollment',
+    description:
+      'Submit the first code from the authenticator app. From then on login is verified with the app instead of an emailed code. Returns the one-time recovery codes, which are shown only this once.',
+  })
+  @ApiBody({ type: TotpCodeDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Authenticator app confirmed',
+    type: TotpRecoveryCodesResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid code, or no enrollment in progress',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Not authenticated',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Not available with an API key',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'The authenticator app is already confirmed',
+    type: ErrorResponseDto,
+  })
+  async confirmTotp(
+    @CurrentUser() user: SessionUser,
+    @Body(ValidationPipe) totpCodeDto: TotpCodeDto,
+  ) {
+    return this.totpService.confirm(user.id, totpCodeDto.code);
+  }
+
+  @Delete('users/:userId/totp')
+  @UseGuards(SessionGuard)
+  @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
+  @AllowedUserTypes('admin')
+  @NoApiKeys()
+  @ApiOperation({
+    summary: "Reset a user's second factor",
+    description:
+      "Removes the user's authenticator app and recovery codes, so their login falls back to emailed codes (e.g. after losing their phone)",
+  })
+  @ApiParam({
+    name: 'userId',
+    type: String,
+    description: 'User ID (GUID)',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Second factor reset',
+    schema: {
+      type: 'object',
+      properties: {
+        message: {
+          type: 'string',
+          example: 'Second factor reset successfully',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Not authenticated',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Forbidden (insufficient permissions, or used with an API key)',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User not found',
+    type: ErrorResponseDto,
+  })
+  async resetTotp(@Param('userId') userId: string) {
+    return this.totpService.reset(userId);
+  }
+
+  @Post('api-keys')
+  @UseGuards(SessionGuard)
+  @NoApiKeys()
+  @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Create an API key',
+    description:
+      'Creates a personal API key for scripts and integrations, sent as the `X-API-Key` header. It acts as the current user, limited to its scopes. The key is shown only in this response.',
+  })
+  @ApiBody({ type: CreateApiKeyDto })
+  @ApiResponse({
+    status: 201,
+    description: 'API key created',
+    type: CreatedApiKeyResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input data',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Not authenticated',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Not available with an API key',
+    type: ErrorResponseDto,
+  })
+  async createApiKey(
+    @CurrentUser() user: SessionUser,
+    @Body(ValidationPipe) createApiKeyDto: CreateApiKeyDto,
+  ) {
+    return this.apiKeyService.create(user.id, createApiKeyDto);
+  }
+
+  @Get('api-keys')
+  @UseGuards(SessionGuard)
+  @NoApiKeys()
+  @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'List your API keys',
+    description:
+      'The current user’s API keys, newest first, including revoked and expired ones. The keys themselves are never returned.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'API keys',
+    type: [ApiKeyResponseDto],
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Not authenticated',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Not available with an API key',
+    type: ErrorResponseDto,
+  })
+  async findApiKeys(@CurrentUser() user: SessionUser) {
+    return this.apiKeyService.findAll(user.id);
+  }
+
+  @Delete('api-keys/:id')
+  @UseGuards(SessionGuard)
+  @NoApiKeys()
+  @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Revoke an API key',
+    description: 'Revokes one of the current user’s API keys immediately',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'API key ID',
+    example: '1',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'API key revoked',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', example: 'API key revoked successfully' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Not authenticated',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Not available with an API key',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'API key not found or already revoked',
+    type: ErrorResponseDto,
+  })
+  async revokeApiKey(
+    @CurrentUser() user: SessionUser,
+    @Param('id') id: string,
+  ) {
+    return this.apiKeyService.revoke(user.id, +id);
+  }
+
+  @Get('sessions')
+  @UseGuards(SessionGuard)
+  @NoApiKeys()
+  @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'List your sessions',
+    description:
+      'The current user’s active sessions (one per login), with the device user agent, IP, login time and last-seen time. `current` marks the session making the request.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Active sessions, most recently seen first',
+    type: [SessionResponseDto],
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Not authenticated',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Not available with an API key',
+    type: ErrorResponseDto,
+  })
+  async findSessions(
+    @CurrentUser() user: SessionUser,
+    @Req() request: Request,
+  ) {
+    return this.sessionsService.list(user.id, request.sessionID);
+  }
+
+  @Delete('sessions')
+  @UseGuards(SessionGuard)
+  @NoApiKeys()
+  @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Log out everywhere',
+    description:
+      'Ends all of the current user’s sessions, including this one, and revokes their refresh tokens',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Logged out everywhere',
+    schema: {
+      type: 'object',
+      properties: {
+        message: {
+          type: 'string',
+          example: 'Logged out everywhere successfully',
+        },
+        revoked: { type: 'number', example: 3 },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Not authenticated',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Not available with an API key',
+    type: ErrorResponseDto,
+  })
+  async revokeSessions(@CurrentUser() user: SessionUser) {
+    return this.sessionsService.revokeAll(user.id);
+  }
+
+  @Delete('sessions/:id')
+  @UseGuards(SessionGuard)
+  @NoApiKeys()
+  @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Revoke one of your sessions',
+    description: 'Logs out the device using that session',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Session ID, as returned by the session list',
+    example: '3f9a2c4e8b1d7f6a0e5c9b2d4a8f1e3c',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Session revoked',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', example: 'Session revoked successfully' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Not authenticated',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Not available with an API key',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Session not found',
+    type: ErrorResponseDto,
+  })
+  async revokeSession(
+    @CurrentUser() user: SessionUser,
+    @Param('id') id: string,
+  ) {
+    return this.sessionsService.revoke(user.id, id);
+  }
+
+  @Get('users/:userId/sessions')
+  @UseGuards(SessionGuard)
+  @AllowedUserTypes('admin')
+  @NoApiKeys()
+  @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "List a user's sessions",
+    description: 'Same as GET /api/auth/sessions, for any user',
+  })
+  @ApiParam({
+    name: 'userId',
+    type: String,
+    description: 'User ID (GUID)',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Active sessions, most recently seen first',
+    type: [SessionResponseDto],
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Not authenticated',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Forbidden (insufficient permissions, or used with an API key)',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User not found',
+    type: ErrorResponseDto,
+  })
+  async findUserSessions(@Param('userId') userId: string) {
+    await this.sessionsService.assertUserExists(userId);
+    return this.sessionsService.list(userId);
+  }
+
+  @Delete('users/:userId/sessions')
+  @UseGuards(SessionGuard)
+  @AllowedUserTypes('admin')
+  @NoApiKeys()
+  @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Log a user out everywhere',
+    description:
+      'Ends all of the user’s sessions and revokes their refresh tokens. Also happens automatically when an admin changes the user’s password or type.',
+  })
+  @ApiParam({
+    name: 'userId',
+    type: String,
+    description: 'User ID (GUID)',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'User logged out everywhere',
+    schema: {
+      type: 'object',
+      properties: {
+        message: {
+          type: 'string',
+          example: 'Logged out everywhere successfully',
+        },
+        revoked: { type: 'number', example: 3 },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Not authenticated',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Forbidden (insufficient permissions, or used with an API key)',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User not found',
+    type: ErrorResponseDto,
+  })
+  async revokeUserSessions(@Param('userId') userId: string) {
+    await this.sessionsService.assertUserExists(userId);
+    return this.sessionsService.revokeAll(userId);
+  }
+
+  @Delete('users/:userId/sessions/:id')
+  @UseGuards(SessionGuard)
+  @AllowedUserTypes('admin')
+  @NoApiKeys()
+  @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Revoke one of a user's sessions",
+  })
+  @ApiParam({
+    name: 'userId',
+    type: String,
+    description: 'User ID (GUID)',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Session ID, as returned by the session list',
+    example: '3f9a2c4e8b1d7f6a0e5c9b2d4a8f1e3c',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Session revoked',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', example: 'Session revoked successfully' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Not authenticated',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Forbidden (insufficient permissions, or used with an API key)',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Session not found',
+    type: ErrorResponseDto,
+  })
+  async revokeUserSession(
+    @Param('userId') userId: string,
+    @Param('id') id: string,
+  ) {
+    return this.sessionsService.revoke(userId, id);
+  }
 }
@@ -1,16 +1,45 @@
-import { Module } from '@nestjs/common';
+import { Global, Module } from '@nestjs/common';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
 import { EmailService } from './services/email.service';
 import { VerificationCodeStore } from './services/verification-code.store';
+import { TotpService } from './services/totp.service';
+import { TotpRepository } from './repository/totp.repository';
 import { SessionGuard } from './guards/session.guard';
 import { UsersModule } from '../users/users.module';
 import { DatabaseModule } from '../database/database.module';
+import { AuditModule } from '../audit/audit.module';
+import { LoginAttemptStore } from './services/login-attempt.store';
+import { TokenService } from './services/token.service';
+import { RefreshTokenRepository } from './repository/refresh-token.repository';
+import { ApiKeyService } from './services/api-key.service';
+import { ApiKeyRepository } from './repository/api-key.repository';
+import { SessionsService } from './services/sessions.service';
+import { ActiveSessionStore } from './services/active-session.store';
+import { AccessTokenRevocationStore } from './services/access-token-revocation.store';
 
+// Global so SessionGuard (and the services it needs) resolves in every module
+// whose controllers use it
+@Global()
 @Module({
-  imports: [UsersModule, DatabaseModule],
+  imports: [UsersModule, DatabaseModule, AuditModule],
   controllers: [AuthController],
-  providers: [AuthService, EmailService, VerificationCodeStore, SessionGuard],
-  exports: [AuthService, SessionGuard],
+  providers: [
+    AuthService,
+    EmailService,
+    VerificationCodeStore,
+    LoginAttemptStore,
+    TotpService,
+    TotpRepository,
+    TokenService,
+    RefreshTokenRepository,
+    ApiKeyService,
+    ApiKeyRepository,
+    SessionsService,
+    ActiveSessionStore,
+    AccessTokenRevocationStore,
+    SessionGuard,
+  ],
+  exports: [AuthService, ApiKeyService, SessionsService, SessionGuard],
 })
 export class AuthModule {}
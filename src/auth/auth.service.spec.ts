@@ -0,0 +1,143 @@
+import {
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as bcrypt from 'bcrypt';
+import { Session, SessionData } from 'express-session';
+import { from, lastValueFrom } from 'rxjs';
+import { ResultWithData } from 'src/common/result';
+import { DatabaseContextInterceptor } from '../database/database-context.interceptor';
+import { DatabaseContextService } from '../database/database-context.service';
+import { MysqlDatabaseService } from '../database/mysql-database.service';
+import { createFakeMysql } from '../database/testing/fake-mysql';
+import { AuditRepository } from '../audit/audit.repository';
+import { RedisService } from '../redis/redis.service';
+import { UsersRepository } from '../users/repository/users.repository';
+import { EmailService } from './services/email.service';
+import { LoginAttemptStore } from './services/login-attempt.store';
+import { SessionsService } from './services/sessions.service';
+import { TokenService } from './services/token.service';
+import { TotpService } from './services/totp.service';
+import { VerificationCodeStore } from './services/verification-code.store';
+import { AuthService } from './auth.service';
+
+const mysql = createFakeMysql();
+const { committed } = mysql;
+
+jest.mock('../database/database-pool', () => ({
+  createDatabasePool: () => mysql.pool,
+}));
+
+const PASSWORD = 'correct horse';
+const USER = {
+  id: '550e8400-e29b-41d4-a716-446655440000',
+  name: 'John Doe',
+  username: 'johndoe',
+  email: 'john.doe@example.com',
+  type: 'user',
+  passwordHash: '',
+};
+
+describe('AuthService lockout', () => {
+  let interceptor: DatabaseContextInterceptor;
+  let verificationCodeStore: VerificationCodeStore;
+  let emailService: { sendVerificationCode: jest.Mock };
+  let service: AuthService;
+
+  // Runs `handler` like a request: the interceptor commits the request
+  // transaction when it succeeds and rolls it back when it throws
+  const request = <T>(handler: () => Promise<T>): Promise<T> =>
+    lastValueFrom(
+      interceptor.intercept({} as ExecutionContext, {
+        handle: () => from(handler()),
+      }),
+    ) as Promise<T>;
+
+  const login = (password: string) =>
+    request(() => service.initiateLogin({ username: USER.username, password }));
+
+  const verify = (code: string) =>
+    request(() =>
+      service.verifyCode(
+        { email: USER.email, code },
+        {} as Session & SessionData,
+      ),
+    );
+
+  beforeAll(async () => {
+    USER.passwordHash = await bcrypt.hash(PASSWORD, 4);
+  });
+
+  beforeEach(async () => {
+    mysql.reset();
+    jest.clearAllMocks();
+
+    const contextService = new DatabaseContextService();
+    const db = new MysqlDatabaseService(new ConfigService(), contextService);
+    jest.spyOn(db, 'initializeDatabase').mockResolvedValue(undefined);
+    await db.onModuleInit();
+    interceptor = new DatabaseContextInterceptor(contextService);
+
+    const config = new ConfigService({
+      LOGIN_MAX_ATTEMPTS: 3,
+      CODE_MAX_ATTEMPTS: 3,
+    });
+    const redisService = new RedisService(config);
+    verificationCodeStore = new VerificationCodeStore(config, redisService);
+    emailService = { sendVerificationCode: jest.fn() };
+    const found = () => Promise.resolve(new ResultWithData(true, '', USER, 0));
+
+    service = new AuthService(
+      { findByUsername: found, findOne: found } as unknown as UsersRepository,
+      emailService as unknown as EmailService,
+      verificationCodeStore,
+      { isEnabled: () => Promise.resolve(false) } as unknown as TotpService,
+      new LoginAttemptStore(config, redisService),
+      new AuditRepository(db),
+      {} as TokenService,
+      { register: jest.fn() } as unknown as SessionsService,
+    );
+  });
+
+  it('keeps the lockout audit event although the login is rejected', async () => {
+    await expect(login('wrong')).rejects.toBeInstanceOf(UnauthorizedException);
+    await expect(login('wrong')).rejects.toBeInstanceOf(UnauthorizedException);
+    expect(committed).toEqual([]);
+
+    await expect(login('wrong')).rejects.toBeInstanceOf(UnauthorizedException);
+    expect(committed).toEqual([
+      expect.stringContaining('INSERT INTO AuditLog'),
+    ]);
+
+    // Locked: even the right password is turned away
+    await expect(login(PASSWORD)).rejects.toMatchObject({
+      status: HttpStatus.TOO_MANY_REQUESTS,
+    });
+    expect(emailService.sendVerificationCode).not.toHaveBeenCalled();
+  });
+
+  it('invalidates the code after too many wrong guesses', async () => {
+    await login(PASSWORD);
+    const [[, code]] = emailService.sendVerificationCode.mock.calls as [
+      string,
+      string,
+    ][];
+    const wrong = code === '000000' ? '111111' : '000000';
+
+    await expect(verify(wrong)).rejects.toBeInstanceOf(UnauthorizedException);
+    await expect(verify(wrong)).rejects.toBeInstanceOf(UnauthorizedException);
+    const locked = verify(wrong);
+    await expect(locked).rejects.toBeInstanceOf(HttpException);
+    await expect(locked).rejects.toMatchObject({
+      status: HttpStatus.TOO_MANY_REQUESTS,
+    });
+
+    expect(await verificationCodeStore.findPending(USER.email)).toBeNull();
+    expect(committed).toEqual([
+      expect.stringContaining('INSERT INTO AuditLog'),
+    ]);
+  });
+});
@@ -1,7 +1,24 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import {
+  HttpException,
+  HttpStatus,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { UsersRepository } from '../users/repository/users.repository';
 import { EmailService } from './services/email.service';
-import { VerificationCodeStore } from './services/verification-code.store';
+import {
+  LoginMethod,
+  VerificationCodeStore,
+} from './services/verification-code.store';
+import { TotpService } from './services/totp.service';
+import { LoginAttemptStore } from './services/login-attempt.store';
+import type { AttemptScope } from './services/login-attempt.store';
+import { TokenService } from './services/token.service';
+import { SessionsService } from './services/sessions.service';
+import { TokenResponseDto } from './dto/token-response.dto';
+import { AuditRepository } from '../audit/audit.repository';
+import { Transactional } from '../database/transaction';
+import type { AuditMetadata } from '../audit/entities/auditMetadata';
 import { LoginDto } from './dto/login.dto';
 import { VerifyCodeDto } from './dto/verify-code.dto';
 import * as bcrypt from 'bcrypt';
@@ -13,9 +30,19 @@ export class AuthService {
     private readonly usersRepository: UsersRepository,
     private readonly emailService: EmailService,
     private readonly verificationCodeStore: VerificationCodeStore,
+    private readonly totpService: TotpService,
+    private readonly loginAttemptStore: LoginAttemptStore,
+    private readonly auditRepository: AuditRepository,
+    private readonly tokenService: TokenService,
+    private readonly sessionsService: SessionsService,
   ) {}
 
-  async initiateLogin(loginDto: LoginDto): Promise<{ message: string }> {
+  async initiateLogin(
+    loginDto: LoginDto,
+    meta?: AuditMetadata,
+  ): Promise<{ message: string; method: LoginMethod }> {
+    await this.assertNotLocked('login', loginDto.username);
+
     // Find user by username
     const userResult = await this.usersRepository.findByUsername(
       loginDto.username,
@@ -23,11 +50,15 @@ export class AuthService {
 
     if (!userResult.Success || !userResult.ReturnedObject) {
       // Don't reveal if user exists or not for security
+      await this.recordFailure('login', loginDto.username, null, meta);
       throw new UnauthorizedException('Invalid credentials');
     }
 
     const user = userResult.ReturnedObject;
 
+    // A lockout from guessing codes also blocks requesting new ones
+    await this.assertNotLocked('code', user.email);
+
     // Verify password
     const isPasswordValid = await bcrypt.compare(
       loginDto.password,
@@ -35,9 +66,26 @@ export class AuthService {
     );
 
     if (!isPasswordValid) {
+      await this.recordFailure('login', loginDto.username, user.id, meta);
       throw new UnauthorizedException('Invalid credentials');
     }
 
+    await this.loginAttemptStore.reset('login', loginDto.username);
+
+    // With an authenticator app enrolled, the app provides the code
+    if (await this.totpService.isEnabled(user.id)) {
+      await this.verificationCodeStore.storeCode(
+        user.email,
+        user.id,
+        '',
+        'totp',
+      );
+      return {
+        message: 'Enter the code from your authenticator app',
+        method: 'totp',
+      };
+    }
+
     // Generate verification code
     const code = this.verificationCodeStore.generateCode();
 
@@ -54,28 +102,57 @@ export class AuthService {
 
     return {
       message: 'Verification code sent to your email',
+      method: 'email',
     };
   }
 
   async verifyCode(
     verifyCodeDto: VerifyCodeDto,
     session: Session & SessionData,
+    meta?: AuditMetadata,
   ): Promise<{
     message: string;
     user: { id: string; username: string; email: string; type: string };
+    tokens?: TokenResponseDto;
   }> {
+    await this.assertNotLocked('code', verifyCodeDto.email);
+
     // Verify the code
-    const verification = await this.verificationCodeStore.verifyCode(
+    const pending = await this.verificationCodeStore.findPending(
       verifyCodeDto.email,
-      verifyCodeDto.code,
     );
+    if (!pending) {
+      throw new UnauthorizedException('Invalid or expired verification code');
+    }
 
-    if (!verification.valid || !verification.userId) {
+    const valid =
+      pending.method === 'totp'
+        ? await this.totpService.verifyLoginCode(
+            pending.userId,
+            verifyCodeDto.code,
+          )
+        : pending.code === verifyCodeDto.code;
+    if (!valid) {
+      const lockedSeconds = await this.recordFailure(
+        'code',
+        verifyCodeDto.email,
+        pending.userId,
+        meta,
+      );
+      if (lockedSeconds !== null) {
+        // Too many guesses: this code is burnt, a new login is needed
+        await this.verificationCodeStore.remove(verifyCodeDto.email);
+        throw this.tooManyAttempts(lockedSeconds);
+      }
       throw new UnauthorizedException('Invalid or expired verification code');
     }
 
+    // Code is valid, so it can't be used again
+    await this.verificationCodeStore.remove(verifyCodeDto.email);
+    await this.loginAttemptStore.reset('code', verifyCodeDto.email);
+
     // Get user to verify email matches
-    const userResult = await this.usersRepository.findOne(verification.userId);
+    const userResult = await this.usersRepository.findOne(pending.userId);
 
     if (!userResult.Success || !userResult.ReturnedObject) {
       throw new UnauthorizedException('User not found');
@@ -88,24 +165,40 @@ export class AuthService {
       throw new UnauthorizedException('Email does not match');
     }
 
+    const userInfo = {
+      id: user.id,
+      username: user.username,
+      email: user.email,
+      type: user.type,
+    };
+
+    // Bearer clients get tokens instead of a session cookie
+    if (verifyCodeDto.issueTokens) {
+      return {
+        message: 'Login successful',
+        user: userInfo,
+        tokens: await this.tokenService.issue(userInfo),
+      };
+    }
+
     // Create session
     session.userId = user.id;
     session.username = user.username;
     session.email = user.email;
     session.type = user.type;
+    await this.sessionsService.register(session.id, user.id, meta);
 
     return {
       message: 'Login successful',
-      user: {
-        id: user.id,
-        username: user.username,
-        email: user.email,
-        type: user.type,
-      },
+      user: userInfo,
     };
   }
 
   async logout(session: Session & SessionData): Promise<{ message: string }> {
+    if (session.userId) {
+      await this.sessionsService.forget(session.userId, session.id);
+    }
+
     return new Promise((resolve) => {
       session.destroy((err: any) => {
         if (err) {
@@ -138,4 +231,78 @@ export class AuthService {
       type: session.type,
     };
   }
+
+  private async assertNotLocked(
+    scope: AttemptScope,
+    identifier: string,
+  ): Promise<void> {
+    const lockedSeconds = await this.loginAttemptStore.lockedFor(
+      scope,
+      identifier,
+    );
+    if (lockedSeconds > 0) {
+      throw this.tooManyAttempts(lockedSeconds);
+    }
+  }
+
+  /**
+   * Counts a failed attempt and records a security event in AuditLog when it
+   * locks the account. Returns the lockout length, or null when not locked.
+   */
+  private async recordFailure(
+    scope: AttemptScope,
+    identifier: string,
+    userId: string | null,
+    meta?: AuditMetadata,
+  ): Promise<number | null> {
+    const lockedSeconds = await this.loginAttemptStore.recordFailure(
+      scope,
+      identifier,
+    );
+    if (lockedSeconds === null) {
+      return null;
+    }
+
+    try {
+      await this.recordLockout(scope, identifier, userId, lockedSeconds, meta);
+    } catch (error) {
+      // The lockout itself already applies; don't fail the request over the log
+      console.error('Failed to record lockout in audit log:', error);
+    }
+    return lockedSeconds;
+  }
+
+  /**
+   * Committed on its own: the request fails with a 401/429 right after, which
+   * rolls its transaction back.
+   */
+  @Transactional({ autonomous: true })
+  private async recordLockout(
+    scope: AttemptScope,
+    identifier: string,
+    userId: string | null,
+    lockedSeconds: number,
+    meta?: AuditMetadata,
+  ): Promise<void> {
+    await this.auditRepository.insert({
+      eventType: 'auth.lockout',
+      entityType: 'User',
+      // Unknown usernames are locked too, so they can't be told apart
+      entityId: userId ?? identifier,
+      ip: meta?.ip ?? null,
+      userAgent: meta?.userAgent ?? null,
+      data: {
+        reason: scope === 'login' ? 'password' : 'verificationCode',
+        identifier,
+        lockedSeconds,
+      },
+    });
+  }
+
+  private tooManyAttempts(lockedSeconds: number): HttpException {
+    return new HttpException(
+      `Too many failed attempts. Try again in ${lockedSeconds} seconds.`,
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
 }
@@ -1,12 +1,14 @@
 import { createParamDecorator, ExecutionContext } from '@nestjs/common';
 import { Request } from 'express';
 
+export type ResponseFormat = 'json' | 'csv' | 'xlsx' | 'ndjson';
+
 export const AcceptsFormat = createParamDecorator(
-  (data: unknown, ctx: ExecutionContext) => {
+  (data: unknown, ctx: ExecutionContext): ResponseFormat => {
     const request = ctx.switchToHttp().getRequest<Request>();
 
     // Express's req.accepts(...) returns the best match (string) or false.
-    // Normalize to a small set used by controllers: 'json' | 'csv'.
+    // Normalize to a small set used by controllers: 'json' | 'csv' | 'xlsx' | 'ndjson'.
     // If the client doesn't send Accept (or sends */*), prefer json by default.
     const acceptHeader = request.get('accept');
     if (!acceptHeader || acceptHeader.trim() === '*/*') return 'json';
@@ -16,6 +18,8 @@ export const AcceptsFormat = createParamDecorator(
     const firstAcceptToken = acceptHeader.split(',')[0]?.trim().toLowerCase();
     if (firstAcceptToken === 'csv') return 'csv';
     if (firstAcceptToken === 'json') return 'json';
+    if (firstAcceptToken === 'xlsx') return 'xlsx';
+    if (firstAcceptToken === 'ndjson') return 'ndjson';
     if (firstAcceptToken === '*/*') return 'json';
 
     const accepted = request.accepts([
@@ -26,6 +30,8 @@ export const AcceptsFormat = createParamDecorator(
       'text/csv',
       'application/csv',
       'csv',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/x-ndjson',
     ]);
 
     if (!accepted) return 'json';
@@ -33,6 +39,8 @@ export const AcceptsFormat = createParamDecorator(
     const normalized = accepted.toLowerCase();
 
     if (normalized === 'csv' || normalized.endsWith('/csv')) return 'csv';
+    if (normalized.endsWith('.spreadsheetml.sheet')) return 'xlsx';
+    if (normalized.endsWith('/x-ndjson')) return 'ndjson';
     if (normalized === 'json' || normalized.endsWith('/json')) return 'json';
 
     return 'json';
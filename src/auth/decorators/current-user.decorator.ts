@@ -4,6 +4,12 @@ import { Request } from 'express';
 export const CurrentUser = createParamDecorator(
   (data: unknown, ctx: ExecutionContext) => {
     const request = ctx.switchToHttp().getRequest<Request>();
+
+    // Bearer token or API key verified by SessionGuard
+    if (request.tokenUser) {
+      return request.tokenUser;
+    }
+
     const session = request.session;
 
     if (!session || !session.userId) {
@@ -0,0 +1,5 @@
+import { SetMetadata } from '@nestjs/common';
+import { NO_API_KEYS_KEY } from '../guards/session.guard';
+
+/** Rejects requests authenticated with an API key (e.g. managing API keys). */
+export const NoApiKeys = () => SetMetadata(NO_API_KEYS_KEY, true);
@@ -0,0 +1,44 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ApiKeyScope } from '../entities/api-key';
+
+export class ApiKeyResponseDto {
+  @ApiProperty({ example: 1 })
+  id: number;
+
+  @ApiProperty({ example: 'nightly-export' })
+  name: string;
+
+  @ApiProperty({
+    description: 'First characters of the key, to tell keys apart',
+    example: 'nak_3kF9xQ2a',
+  })
+  prefix: string;
+
+  @ApiProperty({
+    enum: ApiKeyScope,
+    isArray: true,
+    example: [ApiKeyScope.READ],
+  })
+  scopes: ApiKeyScope[];
+
+  @ApiProperty({ type: Date, nullable: true, example: null })
+  expiresAt: Date | null;
+
+  @ApiProperty({ type: Date, nullable: true, example: null })
+  lastUsedAt: Date | null;
+
+  @ApiProperty({ type: Date, nullable: true, example: null })
+  revokedAt: Date | null;
+
+  @ApiProperty({ example: '2026-01-01T00:00:00.000Z' })
+  createdAt: Date;
+}
+
+export class CreatedApiKeyResponseDto extends ApiKeyResponseDto {
+  @ApiProperty({
+    description:
+      'The key, sent as the `X-API-Key` header. Shown only this once; only its hash is stored.',
+    example: 'nak_3kF9xQ2aVb7yLm0pRt5sWc8dEh1jKn4oPq6rSu9tXz',
+  })
+  key: string;
+}
@@ -0,0 +1,46 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsEnum,
+  IsISO8601,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ApiKeyScope } from '../entities/api-key';
+
+export class CreateApiKeyDto {
+  @ApiProperty({
+    description: 'A name to recognize the key by',
+    example: 'nightly-export',
+    maxLength: 100,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({
+    description:
+      'What the key may do: `read` for GET requests, `write` for the rest. Defaults to read only.',
+    enum: ApiKeyScope,
+    isArray: true,
+    example: [ApiKeyScope.READ],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(ApiKeyScope, { each: true })
+  scopes?: ApiKeyScope[];
+
+  @ApiPropertyOptional({
+    description: 'When the key stops working (ISO 8601). Omit for no expiry.',
+    example: '2027-01-01T00:00:00Z',
+    format: 'date-time',
+  })
+  @IsOptional()
+  @IsISO8601()
+  expiresAt?: string;
+}
@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RefreshTokenDto {
+  @ApiProperty({
+    description: 'The refresh token returned with the access token',
+    example: 'q3Xz0pY1n6m8WcVQeJr2GfLh4kTbN9sDaU7oEiRx5yM',
+  })
+  @IsString()
+  @IsNotEmpty()
+  refreshToken: string;
+}
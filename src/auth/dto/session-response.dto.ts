@@ -0,0 +1,39 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SessionResponseDto {
+  @ApiProperty({
+    description:
+      'Identifies the session for DELETE /api/auth/sessions/:id (not the session cookie)',
+    example: '3f9a2c4e8b1d7f6a0e5c9b2d4a8f1e3c',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'User agent of the device that logged in',
+    nullable: true,
+    example: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_5) Safari/605.1.15',
+  })
+  userAgent: string | null;
+
+  @ApiProperty({ nullable: true, example: '203.0.113.7' })
+  ip: string | null;
+
+  @ApiProperty({
+    description: 'Login time',
+    example: '2026-01-01T09:00:00.000Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description:
+      'Last request made with the session (updated at most once a minute)',
+    example: '2026-01-01T09:42:00.000Z',
+  })
+  lastSeenAt: Date;
+
+  @ApiProperty({
+    description: 'true for the session making this request',
+    example: true,
+  })
+  current: boolean;
+}
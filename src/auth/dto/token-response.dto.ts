@@ -0,0 +1,32 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TokenResponseDto {
+  @ApiProperty({
+    description:
+      'Signed access token, sent as `Authorization: Bearer <accessToken>`',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.eyJzdWIiOiI1NTBl...',
+  })
+  accessToken: string;
+
+  @ApiProperty({ example: 'Bearer' })
+  tokenType: 'Bearer';
+
+  @ApiProperty({
+    description: 'Seconds until the access token expires',
+    example: 900,
+  })
+  expiresIn: number;
+
+  @ApiProperty({
+    description:
+      'One-time token for POST /api/auth/refresh. Each refresh returns a new one; presenting a used one revokes the whole chain.',
+    example: 'q3Xz0pY1n6m8WcVQeJr2GfLh4kTbN9sDaU7oEiRx5yM',
+  })
+  refreshToken: string;
+
+  @ApiProperty({
+    description: 'Seconds until the refresh token expires',
+    example: 2592000,
+  })
+  refreshExpiresIn: number;
+}
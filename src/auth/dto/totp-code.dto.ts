@@ -0,0 +1,13 @@
+import { IsNotEmpty, IsString, Matches } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TotpCodeDto {
+  @ApiProperty({
+    description: 'The current 6-digit code shown by the authenticator app',
+    example: '123456',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @Matches(/^\d{6}$/, { message: 'code must be 6 digits' })
+  code: string;
+}
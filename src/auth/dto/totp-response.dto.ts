@@ -0,0 +1,46 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TotpStatusResponseDto {
+  @ApiProperty({
+    description:
+      'true when login is verified with the authenticator app instead of an emailed code',
+    example: true,
+  })
+  enabled: boolean;
+
+  @ApiProperty({
+    description: 'Enrollment started but not confirmed with a first code yet',
+    example: false,
+  })
+  pendingConfirmation: boolean;
+
+  @ApiProperty({ description: 'Unused recovery codes left', example: 10 })
+  recoveryCodesRemaining: number;
+}
+
+export class TotpEnrollmentResponseDto {
+  @ApiProperty({
+    description:
+      'Base32 secret, for entering the key manually in the authenticator app',
+    example: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP',
+  })
+  secret: string;
+
+  @ApiProperty({
+    description:
+      'Key URI to render as a QR code for the authenticator app to scan',
+    example:
+      'otpauth://totp/Nest%20API%20Demo%3Aadmin?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=Nest+API+Demo&algorithm=SHA1&digits=6&period=30',
+  })
+  otpauthUri: string;
+}
+
+export class TotpRecoveryCodesResponseDto {
+  @ApiProperty({
+    description:
+      'One-time recovery codes, shown only once. Each can replace an authenticator code at POST /api/auth/verify',
+    example: ['K7QXM-3DPLA', 'B2R6T-WQ4ZN'],
+    type: [String],
+  })
+  recoveryCodes: string[];
+}
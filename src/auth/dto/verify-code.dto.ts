@@ -1,5 +1,12 @@
-import { IsEmail, IsNotEmpty, IsString, Length } from 'class-validator';
-import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsEmail,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Length,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 export class VerifyCodeDto {
   @ApiProperty({
@@ -12,13 +19,24 @@ export class VerifyCodeDto {
   email: string;
 
   @ApiProperty({
-    description: 'The verification code sent to the email',
+    description:
+      'The verification code sent to the email, or the authenticator app code (or a recovery code) when an authenticator app is enrolled',
     example: '123456',
     minLength: 4,
-    maxLength: 8,
+    maxLength: 16,
   })
   @IsString()
   @IsNotEmpty()
-  @Length(4, 8)
+  @Length(4, 16)
   code: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Return bearer access and refresh tokens instead of starting a cookie session',
+    example: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  issueTokens?: boolean;
 }
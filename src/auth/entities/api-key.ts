@@ -0,0 +1,29 @@
+export interface ApiKey {
+  id: number;
+  userId: string;
+  name: string;
+  /** First characters of the key, so the user can tell keys apart. */
+  prefix: string;
+  scopes: ApiKeyScope[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+/** The active key's owner, as needed to authenticate a request. */
+export interface ApiKeyOwner {
+  apiKeyId: number;
+  scopes: ApiKeyScope[];
+  userId: string;
+  username: string;
+  email: string;
+  type: string;
+}
+
+export enum ApiKeyScope {
+  /** GET, HEAD and OPTIONS requests. */
+  READ = 'read',
+  /** Every other method (create, update, delete). */
+  WRITE = 'write',
+}
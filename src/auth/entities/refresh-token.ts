@@ -0,0 +1,12 @@
+export interface RefreshToken {
+  id: number;
+  /** Tokens rotated from the same login share the family. */
+  familyId: string;
+  userId: string;
+  expiresAt: Date;
+  expired: boolean;
+  /** Set once the token was exchanged; presenting it again means reuse. */
+  rotatedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
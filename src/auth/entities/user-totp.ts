@@ -0,0 +1,10 @@
+export interface UserTotp {
+  userId: string;
+  /** Encrypted base32 secret (see encryptSecret in ../totp/totp.ts). */
+  secret: string;
+  /** Null until the user confirmed enrollment with a first code. */
+  confirmedAt: Date | null;
+  /** Last accepted time step, so a code can't be used twice. */
+  lastUsedStep: number | null;
+  createdAt: Date;
+}
@@ -6,25 +6,87 @@ import {
   ForbiddenException,
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
 import { Request } from 'express';
+import { bearerToken, verifyAccessToken } from '../tokens/tokens';
+import { accessTokenSecret } from '../services/token.service';
+import { ApiKeyService } from '../services/api-key.service';
+import { SessionsService } from '../services/sessions.service';
+import { requiredScope } from '../api-keys/api-keys';
 
 export const ALLOWED_USER_TYPES_KEY = 'allowedUserTypes';
+export const NO_API_KEYS_KEY = 'noApiKeys';
 
+/**
+ * Accepts an `Authorization: Bearer` access token, an `X-API-Key` header or
+ * the session cookie, in that order. A token or key, when sent, takes
+ * precedence and must be valid.
+ */
 @Injectable()
 export class SessionGuard implements CanActivate {
-  constructor(private reflector: Reflector) {}
+  constructor(
+    private reflector: Reflector,
+    private configService: ConfigService,
+    private apiKeyService: ApiKeyService,
+    private sessionsService: SessionsService,
+  ) {}
 
-  canActivate(context: ExecutionContext): boolean {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const request = context.switchToHttp().getRequest<Request>();
     const session = request.session;
 
     console.log('SessionGuard.canActivate. session', session);
 
-    if (!session || !session.userId) {
-      throw new UnauthorizedException('Authentication required');
+    let userType: string | undefined;
+    const token = bearerToken(request.headers.authorization);
+    const apiKey = request.headers['x-api-key'];
+    if (token) {
+      const verified = verifyAccessToken(
+        token,
+        accessTokenSecret(this.configService),
+        Date.now(),
+      );
+      if (!verified) {
+        throw new UnauthorizedException('Invalid or expired access token');
+      }
+      // Logging the user out everywhere (also on a password or type change)
+      // cuts off the access tokens issued before
+      if (
+        await this.sessionsService.isAccessTokenRevoked(
+          verified.user.id,
+          verified.issuedAt,
+        )
+      ) {
+        throw new UnauthorizedException('Access token has been revoked');
+      }
+      request.tokenUser = verified.user;
+      userType = verified.user.type;
+    } else if (typeof apiKey === 'string' && apiKey) {
+      const authenticated = await this.apiKeyService.authenticate(apiKey);
+      if (!authenticated) {
+        throw new UnauthorizedException('Invalid, expired or revoked API key');
+      }
+      if (this.reflector.get<boolean>(NO_API_KEYS_KEY, context.getHandler())) {
+        throw new ForbiddenException('Not available with an API key');
+      }
+      const scope = requiredScope(request.method);
+      if (!authenticated.scopes.includes(scope)) {
+        throw new ForbiddenException(
+          `Access denied. Required API key scope: ${scope}`,
+        );
+      }
+      request.tokenUser = authenticated.user;
+      request.apiKeyId = authenticated.apiKeyId;
+      userType = authenticated.user.type;
+    } else {
+      if (!session || !session.userId) {
+        throw new UnauthorizedException('Authentication required');
+      }
+      userType = session.type;
+      await this.sessionsService.touch(session.userId, request.sessionID);
     }
 
-    console.log('SessionGuard.canActivate. session.type', session.type);
+    console.log('SessionGuard.canActivate. userType', userType);
 
     // Get allowed types from metadata
     const allowedTypes = this.reflector.get<string[]>(
@@ -34,7 +96,6 @@ export class SessionGuard implements CanActivate {
 
     // If allowedTypes is provided, check user type
     if (allowedTypes && allowedTypes.length > 0) {
-      const userType = session.type;
       if (!userType || !allowedTypes.includes(userType)) {
         throw new ForbiddenException(
           `Access denied. Required user type: ${allowedTypes.join(' or ')}`,
@@ -0,0 +1,60 @@
+import {
+  AttemptState,
+  LockoutPolicy,
+  lockedForSeconds,
+  lockoutDurationSeconds,
+  registerFailure,
+} from './lockout';
+
+const POLICY: LockoutPolicy = {
+  maxFailures: 3,
+  windowSeconds: 60,
+  baseLockoutSeconds: 30,
+  maxLockoutSeconds: 200,
+};
+
+function failTimes(
+  times: number,
+  state: AttemptState | null,
+  now: number,
+): { state: AttemptState; lockedSeconds: number | null } {
+  let result = registerFailure(state, POLICY, now);
+  for (let i = 1; i < times; i++) {
+    result = registerFailure(result.state, POLICY, now);
+  }
+  return result;
+}
+
+describe('lockout', () => {
+  it('locks once the failures reach the limit', () => {
+    const twice = failTimes(2, null, 0);
+    expect(twice.lockedSeconds).toBeNull();
+    expect(lockedForSeconds(twice.state, 0)).toBe(0);
+
+    const third = registerFailure(twice.state, POLICY, 1000);
+    expect(third.lockedSeconds).toBe(30);
+    expect(third.state.failures).toBe(0);
+    expect(lockedForSeconds(third.state, 1000)).toBe(30);
+    expect(lockedForSeconds(third.state, 30_500)).toBe(1);
+    expect(lockedForSeconds(third.state, 31_000)).toBe(0);
+  });
+
+  it('forgets failures older than the window', () => {
+    const twice = failTimes(2, null, 0);
+    const later = registerFailure(twice.state, POLICY, 60_000);
+
+    expect(later.lockedSeconds).toBeNull();
+    expect(later.state.failures).toBe(1);
+  });
+
+  it('doubles each further lockout up to the cap', () => {
+    expect(
+      [1, 2, 3, 4, 5].map((n) => lockoutDurationSeconds(n, POLICY)),
+    ).toEqual([30, 60, 120, 200, 200]);
+
+    const first = failTimes(3, null, 0);
+    const second = failTimes(3, first.state, 40_000);
+    expect(second.lockedSeconds).toBe(60);
+    expect(second.state.lockouts).toBe(2);
+  });
+});
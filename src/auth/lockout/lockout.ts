@@ -0,0 +1,79 @@
+export interface LockoutPolicy {
+  /** Failures within the window that trigger a lockout. */
+  maxFailures: number;
+  windowSeconds: number;
+  /** Length of the first lockout; each further one doubles it... */
+  baseLockoutSeconds: number;
+  /** ...up to this cap. */
+  maxLockoutSeconds: number;
+}
+
+export interface AttemptState {
+  failures: number;
+  windowStartedAt: number;
+  /** Lockouts so far, driving the backoff. Forgotten after LOCKOUT_HISTORY_SECONDS. */
+  lockouts: number;
+  lockedUntil: number | null;
+}
+
+export const LOCKOUT_HISTORY_SECONDS = 24 * 60 * 60;
+
+export function lockoutDurationSeconds(
+  lockouts: number,
+  policy: LockoutPolicy,
+): number {
+  const seconds = policy.baseLockoutSeconds * 2 ** Math.max(lockouts - 1, 0);
+  return Math.min(seconds, policy.maxLockoutSeconds);
+}
+
+/** Seconds left on the current lockout (rounded up), or 0 when not locked. */
+export function lockedForSeconds(
+  state: AttemptState | null,
+  now: number,
+): number {
+  if (!state?.lockedUntil || state.lockedUntil <= now) {
+    return 0;
+  }
+  return Math.ceil((state.lockedUntil - now) / 1000);
+}
+
+/**
+ * Counts one failure. When it reaches the policy's limit the identifier is
+ * locked and `lockedSeconds` is set; the failure count then starts over.
+ */
+export function registerFailure(
+  state: AttemptState | null,
+  policy: LockoutPolicy,
+  now: number,
+): { state: AttemptState; lockedSeconds: number | null } {
+  const next: AttemptState = state
+    ? { ...state }
+    : { failures: 0, windowStartedAt: now, lockouts: 0, lockedUntil: null };
+
+  if (now - next.windowStartedAt >= policy.windowSeconds * 1000) {
+    next.failures = 0;
+    next.windowStartedAt = now;
+  }
+  next.failures += 1;
+
+  if (next.failures < policy.maxFailures) {
+    return { state: next, lockedSeconds: null };
+  }
+
+  next.lockouts += 1;
+  const lockedSeconds = lockoutDurationSeconds(next.lockouts, policy);
+  next.lockedUntil = now + lockedSeconds * 1000;
+  next.failures = 0;
+  next.windowStartedAt = now;
+  return { state: next, lockedSeconds };
+}
+
+/** How long the state is worth keeping, in seconds. */
+export function stateTtlSeconds(
+  state: AttemptState,
+  policy: LockoutPolicy,
+): number {
+  return state.lockouts > 0
+    ? Math.max(LOCKOUT_HISTORY_SECONDS, policy.maxLockoutSeconds)
+    : policy.windowSeconds;
+}
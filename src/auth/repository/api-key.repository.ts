@@ -0,0 +1,227 @@
+import { Injectable } from '@nestjs/common';
+import { MysqlDatabaseService } from 'src/database/mysql-database.service';
+import { ResultNoData, ResultWithData } from 'src/common/result';
+import { handleDatabaseError } from 'src/common/error-handlers';
+import { ApiKey, ApiKeyOwner, ApiKeyScope } from '../entities/api-key';
+import { parseScopes } from '../api-keys/api-keys';
+
+type ApiKeyRow = Omit<ApiKey, 'scopes'> & { scopes: string };
+type ApiKeyOwnerRow = Omit<ApiKeyOwner, 'scopes'> & { scopes: string };
+
+const API_KEY_COLUMNS = `id, BIN_TO_UUID(userId) as userId, name, prefix, scopes,
+                         expiresAt, lastUsedAt, revokedAt, createdAt`;
+
+@Injectable()
+export class ApiKeyRepository {
+  constructor(private readonly databaseService: MysqlDatabaseService) {}
+
+  async create(
+    userId: string,
+    name: string,
+    prefix: string,
+    keyHash: string,
+    scopes: ApiKeyScope[],
+    expiresAt: Date | null,
+  ): Promise<ResultWithData<ApiKey>> {
+    const result = new ResultWithData<ApiKey>();
+    try {
+      const sql = `
+        INSERT INTO ApiKey (userId, name, prefix, keyHash, scopes, expiresAt)
+        VALUES (UUID_TO_BIN(?), ?, ?, ?, ?, ?)
+      `;
+      const resultDb = (await this.databaseService.execute(sql, [
+        userId,
+        name,
+        prefix,
+        keyHash,
+        scopes.join(','),
+        expiresAt,
+      ])) as [{ insertId: number }, unknown];
+
+      const apiKey = await this.databaseService.queryOneMaster<ApiKeyRow>(
+        `SELECT ${API_KEY_COLUMNS} FROM ApiKey WHERE id = ?`,
+        [resultDb[0].insertId],
+      );
+      if (!apiKey) {
+        result.Success = false;
+        result.Message = 'API key created but could not be retrieved';
+        result.ErrorCode = 500;
+        result.ReturnedObject = null as unknown as ApiKey;
+        return result;
+      }
+
+      result.Success = true;
+      result.Message = 'API key created successfully';
+      result.ErrorCode = 0;
+      result.ReturnedObject = toApiKey(apiKey);
+      return result;
+    } catch (error) {
+      console.log('ApiKeyRepository.create. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to create API key',
+      );
+      return new ResultWithData<ApiKey>(
+        errorResult.Success,
+        errorResult.Message,
+        null as unknown as ApiKey,
+        errorResult.ErrorCode,
+      );
+    }
+  }
+
+  async findByUserId(userId: string): Promise<ResultWithData<ApiKey[]>> {
+    const result = new ResultWithData<ApiKey[]>();
+    try {
+      const rows = await this.databaseService.query<ApiKeyRow>(
+        `SELECT ${API_KEY_COLUMNS} FROM ApiKey
+         WHERE userId = UUID_TO_BIN(?) ORDER BY createdAt DESC, id DESC`,
+        [userId],
+      );
+
+      result.Success = true;
+      result.Message = 'API keys retrieved successfully';
+      result.ErrorCode = 0;
+      result.ReturnedObject = rows.map(toApiKey);
+      return result;
+    } catch (error) {
+      console.log('ApiKeyRepository.findByUserId. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to retrieve API keys',
+      );
+      return new ResultWithData<ApiKey[]>(
+        errorResult.Success,
+        errorResult.Message,
+        [],
+        errorResult.ErrorCode,
+      );
+    }
+  }
+
+  /** The owner of a key that is neither revoked nor expired (404 otherwise). */
+  async findActiveOwner(
+    keyHash: string,
+  ): Promise<ResultWithData<ApiKeyOwner | null>> {
+    const result = new ResultWithData<ApiKeyOwner | null>();
+    try {
+      const sql = `
+        SELECT k.id as apiKeyId, k.scopes, BIN_TO_UUID(u.id) as userId,
+               u.username, u.email, u.type
+        FROM ApiKey k
+        INNER JOIN Users u ON u.id = k.userId
+        WHERE k.keyHash = ?
+          AND k.revokedAt IS NULL
+          AND (k.expiresAt IS NULL OR k.expiresAt > NOW())
+      `;
+      const owner = await this.databaseService.queryOneMaster<ApiKeyOwnerRow>(
+        sql,
+        [keyHash],
+      );
+
+      if (!owner) {
+        result.Success = false;
+        result.Message = 'API key not found';
+        result.ErrorCode = 404;
+        result.ReturnedObject = null;
+        return result;
+      }
+
+      result.Success = true;
+      result.Message = 'API key retrieved successfully';
+      result.ErrorCode = 0;
+      result.ReturnedObject = { ...owner, scopes: parseScopes(owner.scopes) };
+      return result;
+    } catch (error) {
+      console.log('ApiKeyRepository.findActiveOwner. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to retrieve API key',
+      );
+      return new ResultWithData<ApiKeyOwner | null>(
+        errorResult.Success,
+        errorResult.Message,
+        null,
+        errorResult.ErrorCode,
+      );
+    }
+  }
+
+  /**
+   * Records that the key was used. At most once a minute, so busy scripts
+   * don't turn every request into a write.
+   */
+  async touch(id: number): Promise<ResultNoData> {
+    const result = new ResultNoData();
+    try {
+      const sql = `
+        UPDATE ApiKey SET lastUsedAt = NOW()
+        WHERE id = ? AND (lastUsedAt IS NULL OR lastUsedAt < NOW() - INTERVAL 1 MINUTE)
+      `;
+      await this.databaseService.execute(sql, [id]);
+
+      result.Success = true;
+      result.Message = 'API key usage recorded';
+      result.ErrorCode = 0;
+      return result;
+    } catch (error) {
+      console.log('ApiKeyRepository.touch. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to record API key usage',
+      );
+      return new ResultNoData(
+        errorResult.Success,
+        errorResult.Message,
+        errorResult.ErrorCode,
+      );
+    }
+  }
+
+  /** Revokes one of the user's keys (404 when it isn't theirs or already revoked). */
+  async revoke(id: number, userId: string): Promise<ResultNoData> {
+    const result = new ResultNoData();
+    try {
+      const sql = `
+        UPDATE ApiKey SET revokedAt = NOW()
+        WHERE id = ? AND userId = UUID_TO_BIN(?) AND revokedAt IS NULL
+      `;
+      const resultDb = (await this.databaseService.execute(sql, [
+        id,
+        userId,
+      ])) as [{ affectedRows: number }, unknown];
+
+      if ((resultDb[0]?.affectedRows ?? 0) === 0) {
+        result.Success = false;
+        result.Message = `API key with id ${id} not found`;
+        result.ErrorCode = 404;
+        return result;
+      }
+
+      result.Success = true;
+      result.Message = 'API key revoked successfully';
+      result.ErrorCode = 0;
+      return result;
+    } catch (error) {
+      console.log('ApiKeyRepository.revoke. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to revoke API key',
+      );
+      return new ResultNoData(
+        errorResult.Success,
+        errorResult.Message,
+        errorResult.ErrorCode,
+      );
+    }
+  }
+}
+
+function toApiKey(row: ApiKeyRow): ApiKey {
+  return { ...row, scopes: parseScopes(row.scopes) };
+}
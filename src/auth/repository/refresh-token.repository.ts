@@ -0,0 +1,185 @@
+import { Injectable } from '@nestjs/common';
+import { MysqlDatabaseService } from 'src/database/mysql-database.service';
+import { ResultNoData, ResultWithData } from 'src/common/result';
+import { handleDatabaseError } from 'src/common/error-handlers';
+import { RefreshToken } from '../entities/refresh-token';
+
+@Injectable()
+export class RefreshTokenRepository {
+  constructor(private readonly databaseService: MysqlDatabaseService) {}
+
+  async create(
+    tokenHash: string,
+    familyId: string,
+    userId: string,
+    ttlSeconds: number,
+  ): Promise<ResultNoData> {
+    const result = new ResultNoData();
+    try {
+      const sql = `
+        INSERT INTO RefreshToken (tokenHash, familyId, userId, expiresAt)
+        VALUES (?, ?, UUID_TO_BIN(?), DATE_ADD(NOW(), INTERVAL ? SECOND))
+      `;
+      await this.databaseService.execute(sql, [
+        tokenHash,
+        familyId,
+        userId,
+        ttlSeconds,
+      ]);
+
+      result.Success = true;
+      result.Message = 'Refresh token created successfully';
+      result.ErrorCode = 0;
+      return result;
+    } catch (error) {
+      console.log('RefreshTokenRepository.create. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to create refresh token',
+      );
+      return new ResultNoData(
+        errorResult.Success,
+        errorResult.Message,
+        errorResult.ErrorCode,
+      );
+    }
+  }
+
+  async findByHash(
+    tokenHash: string,
+  ): Promise<ResultWithData<RefreshToken | null>> {
+    const result = new ResultWithData<RefreshToken | null>();
+    try {
+      const sql = `SELECT id, familyId, BIN_TO_UUID(userId) as userId, expiresAt,
+                          expiresAt <= NOW() as expired, rotatedAt, revokedAt, createdAt
+                   FROM RefreshToken WHERE tokenHash = ?`;
+      const token = await this.databaseService.queryOneMaster<RefreshToken>(
+        sql,
+        [tokenHash],
+      );
+
+      if (!token) {
+        result.Success = false;
+        result.Message = 'Refresh token not found';
+        result.ErrorCode = 404;
+        result.ReturnedObject = null;
+        return result;
+      }
+
+      result.Success = true;
+      result.Message = 'Refresh token retrieved successfully';
+      result.ErrorCode = 0;
+      result.ReturnedObject = { ...token, expired: Boolean(token.expired) };
+      return result;
+    } catch (error) {
+      console.log('RefreshTokenRepository.findByHash. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to retrieve refresh token',
+      );
+      return new ResultWithData<RefreshToken | null>(
+        errorResult.Success,
+        errorResult.Message,
+        null,
+        errorResult.ErrorCode,
+      );
+    }
+  }
+
+  /**
+   * Marks the token as exchanged. False when it already was (or got revoked)
+   * in the meantime, i.e. two requests raced with the same token.
+   */
+  async markRotated(id: number): Promise<ResultWithData<boolean>> {
+    const result = new ResultWithData<boolean>();
+    try {
+      const sql = `
+        UPDATE RefreshToken SET rotatedAt = NOW()
+        WHERE id = ? AND rotatedAt IS NULL AND revokedAt IS NULL
+      `;
+      const resultDb = (await this.databaseService.execute(sql, [id])) as [
+        { affectedRows: number },
+        unknown,
+      ];
+
+      result.Success = true;
+      result.Message = 'Refresh token rotated';
+      result.ErrorCode = 0;
+      result.ReturnedObject = (resultDb[0]?.affectedRows ?? 0) > 0;
+      return result;
+    } catch (error) {
+      console.log('RefreshTokenRepository.markRotated. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to rotate refresh token',
+      );
+      return new ResultWithData<boolean>(
+        errorResult.Success,
+        errorResult.Message,
+        false,
+        errorResult.ErrorCode,
+      );
+    }
+  }
+
+  /** Revokes every token rotated from the same login. */
+  async revokeFamily(familyId: string): Promise<ResultNoData> {
+    const result = new ResultNoData();
+    try {
+      const sql = `
+        UPDATE RefreshToken SET revokedAt = NOW()
+        WHERE familyId = ? AND revokedAt IS NULL
+      `;
+      await this.databaseService.execute(sql, [familyId]);
+
+      result.Success = true;
+      result.Message = 'Refresh tokens revoked successfully';
+      result.ErrorCode = 0;
+      return result;
+    } catch (error) {
+      console.log('RefreshTokenRepository.revokeFamily. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to revoke refresh tokens',
+      );
+      return new ResultNoData(
+        errorResult.Success,
+        errorResult.Message,
+        errorResult.ErrorCode,
+      );
+    }
+  }
+
+  /** Revokes all of a user's refresh tokens (log out everywhere). */
+  async revokeAllForUser(userId: string): Promise<ResultNoData> {
+    const result = new ResultNoData();
+    try {
+      const sql = `
+        UPDATE RefreshToken SET revokedAt = NOW()
+        WHERE userId = UUID_TO_BIN(?) AND revokedAt IS NULL
+      `;
+      await this.databaseService.execute(sql, [userId]);
+
+      result.Success = true;
+      result.Message = 'Refresh tokens revoked successfully';
+      result.ErrorCode = 0;
+      return result;
+    } catch (error) {
+      console.log('RefreshTokenRepository.revokeAllForUser. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to revoke refresh tokens',
+      );
+      return new ResultNoData(
+        errorResult.Success,
+        errorResult.Message,
+        errorResult.ErrorCode,
+      );
+    }
+  }
+}
@@ -0,0 +1,277 @@
+import { Injectable } from '@nestjs/common';
+import { MysqlDatabaseService } from 'src/database/mysql-database.service';
+import { ResultNoData, ResultWithData } from 'src/common/result';
+import { handleDatabaseError } from 'src/common/error-handlers';
+import { UserTotp } from '../entities/user-totp';
+
+@Injectable()
+export class TotpRepository {
+  constructor(private readonly databaseService: MysqlDatabaseService) {}
+
+  async findByUserId(userId: string): Promise<ResultWithData<UserTotp | null>> {
+    const result = new ResultWithData<UserTotp | null>();
+    try {
+      const sql = `SELECT BIN_TO_UUID(userId) as userId, secret, confirmedAt, lastUsedStep, createdAt
+                   FROM UserTotp WHERE userId = UUID_TO_BIN(?)`;
+      const totp = await this.databaseService.queryOneMaster<UserTotp>(sql, [
+        userId,
+      ]);
+
+      if (!totp) {
+        result.Success = false;
+        result.Message = `No authenticator app enrolled for user ${userId}`;
+        result.ErrorCode = 404;
+        result.ReturnedObject = null;
+        return result;
+      }
+
+      result.Success = true;
+      result.Message = 'Authenticator app retrieved successfully';
+      result.ErrorCode = 0;
+      result.ReturnedObject = {
+        ...totp,
+        lastUsedStep:
+          totp.lastUsedStep === null ? null : Number(totp.lastUsedStep),
+      };
+      return result;
+    } catch (error) {
+      console.log('TotpRepository.findByUserId. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to retrieve authenticator app',
+      );
+      return new ResultWithData<UserTotp | null>(
+        errorResult.Success,
+        errorResult.Message,
+        null,
+        errorResult.ErrorCode,
+      );
+    }
+  }
+
+  /** Stores a new, unconfirmed secret (replacing a previous unconfirmed one). */
+  async savePending(
+    userId: string,
+    encryptedSecret: string,
+  ): Promise<ResultNoData> {
+    const result = new ResultNoData();
+    try {
+      const sql = `
+        INSERT INTO UserTotp (userId, secret, confirmedAt, lastUsedStep)
+        VALUES (UUID_TO_BIN(?), ?, NULL, NULL)
+        ON DUPLICATE KEY UPDATE secret = VALUES(secret), confirmedAt = NULL, lastUsedStep = NULL
+      `;
+      await this.databaseService.execute(sql, [userId, encryptedSecret]);
+
+      result.Success = true;
+      result.Message = 'Authenticator app enrollment started';
+      result.ErrorCode = 0;
+      return result;
+    } catch (error) {
+      console.log('TotpRepository.savePending. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to start authenticator app enrollment',
+      );
+      return new ResultNoData(
+        errorResult.Success,
+        errorResult.Message,
+        errorResult.ErrorCode,
+      );
+    }
+  }
+
+  /**
+   * Marks the enrollment as confirmed and replaces the recovery codes,
+   * in one transaction.
+   */
+  async confirm(
+    userId: string,
+    step: number,
+    recoveryCodeHashes: string[],
+  ): Promise<ResultNoData> {
+    const result = new ResultNoData();
+    try {
+      await this.databaseService.withTransaction(async () => {
+        await this.databaseService.execute(
+          `UPDATE UserTotp SET confirmedAt = NOW(), lastUsedStep = ? WHERE userId = UUID_TO_BIN(?)`,
+          [step, userId],
+        );
+        await this.databaseService.execute(
+          `DELETE FROM UserRecoveryCode WHERE userId = UUID_TO_BIN(?)`,
+          [userId],
+        );
+        for (const codeHash of recoveryCodeHashes) {
+          await this.databaseService.execute(
+            `INSERT INTO UserRecoveryCode (userId, codeHash) VALUES (UUID_TO_BIN(?), ?)`,
+            [userId, codeHash],
+          );
+        }
+      });
+
+      result.Success = true;
+      result.Message = 'Authenticator app confirmed';
+      result.ErrorCode = 0;
+      return result;
+    } catch (error) {
+      console.log('TotpRepository.confirm. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to confirm authenticator app',
+      );
+      return new ResultNoData(
+        errorResult.Success,
+        errorResult.Message,
+        errorResult.ErrorCode,
+      );
+    }
+  }
+
+  /**
+   * Records `step` as used. False when that step (or a later one) was already
+   * accepted, i.e. the code is being replayed.
+   */
+  async markStepUsed(
+    userId: string,
+    step: number,
+  ): Promise<ResultWithData<boolean>> {
+    const result = new ResultWithData<boolean>();
+    try {
+      const sql = `
+        UPDATE UserTotp SET lastUsedStep = ?
+        WHERE userId = UUID_TO_BIN(?)
+          AND confirmedAt IS NOT NULL
+          AND (lastUsedStep IS NULL OR lastUsedStep < ?)
+      `;
+      const resultDb = (await this.databaseService.execute(sql, [
+        step,
+        userId,
+        step,
+      ])) as [{ affectedRows: number }, unknown];
+
+      result.Success = true;
+      result.Message = 'Authenticator code checked';
+      result.ErrorCode = 0;
+      result.ReturnedObject = (resultDb[0]?.affectedRows ?? 0) > 0;
+      return result;
+    } catch (error) {
+      console.log('TotpRepository.markStepUsed. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to check authenticator code',
+      );
+      return new ResultWithData<boolean>(
+        errorResult.Success,
+        errorResult.Message,
+        false,
+        errorResult.ErrorCode,
+      );
+    }
+  }
+
+  /** Consumes an unused recovery code; false when there is none with that hash. */
+  async useRecoveryCode(
+    userId: string,
+    codeHash: string,
+  ): Promise<ResultWithData<boolean>> {
+    const result = new ResultWithData<boolean>();
+    try {
+      const sql = `
+        UPDATE UserRecoveryCode SET usedAt = NOW()
+        WHERE userId = UUID_TO_BIN(?) AND codeHash = ? AND usedAt IS NULL
+      `;
+      const resultDb = (await this.databaseService.execute(sql, [
+        userId,
+        codeHash,
+      ])) as [{ affectedRows: number }, unknown];
+
+      result.Success = true;
+      result.Message = 'Recovery code checked';
+      result.ErrorCode = 0;
+      result.ReturnedObject = (resultDb[0]?.affectedRows ?? 0) > 0;
+      return result;
+    } catch (error) {
+      console.log('TotpRepository.useRecoveryCode. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to check recovery code',
+      );
+      return new ResultWithData<boolean>(
+        errorResult.Success,
+        errorResult.Message,
+        false,
+        errorResult.ErrorCode,
+      );
+    }
+  }
+
+  async countUnusedRecoveryCodes(
+    userId: string,
+  ): Promise<ResultWithData<number>> {
+    const result = new ResultWithData<number>();
+    try {
+      const sql = `SELECT COUNT(*) AS count FROM UserRecoveryCode
+                   WHERE userId = UUID_TO_BIN(?) AND usedAt IS NULL`;
+      const row = await this.databaseService.queryOneMaster<{ count: number }>(
+        sql,
+        [userId],
+      );
+
+      result.Success = true;
+      result.Message = 'Recovery codes counted';
+      result.ErrorCode = 0;
+      result.ReturnedObject = Number(row?.count ?? 0);
+      return result;
+    } catch (error) {
+      console.log('TotpRepository.countUnusedRecoveryCodes. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to count recovery codes',
+      );
+      return new ResultWithData<number>(
+        errorResult.Success,
+        errorResult.Message,
+        0,
+        errorResult.ErrorCode,
+      );
+    }
+  }
+
+  /** Removes the secret and the recovery codes (second factor reset). */
+  async delete(userId: string): Promise<ResultNoData> {
+    const result = new ResultNoData();
+    try {
+      await this.databaseService.execute(
+        `DELETE FROM UserRecoveryCode WHERE userId = UUID_TO_BIN(?)`,
+        [userId],
+      );
+      await this.databaseService.execute(
+        `DELETE FROM UserTotp WHERE userId = UUID_TO_BIN(?)`,
+        [userId],
+      );
+
+      result.Success = true;
+      result.Message = 'Authenticator app removed';
+      result.ErrorCode = 0;
+      return result;
+    } catch (error) {
+      console.log('TotpRepository.delete. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to remove authenticator app',
+      );
+      return new ResultNoData(
+        errorResult.Success,
+        errorResult.Message,
+        errorResult.ErrorCode,
+      );
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RedisService } from '../../redis/redis.service';
+
+interface Revocation {
+  /** Access tokens issued up to this second are rejected. */
+  issuedUpTo: number;
+  expiresAt: number;
+}
+
+/**
+ * Per-user cut-off for access tokens, which are otherwise valid until they
+ * expire. Only kept for an access token lifetime: older tokens have expired
+ * by then anyway.
+ */
+@Injectable()
+export class AccessTokenRevocationStore {
+  private revocations: Map<string, Revocation> = new Map();
+  private readonly ttlSeconds: number;
+  private readonly REDIS_PREFIX = 'tokens-revoked:'; // Prefix for access token cut-offs in Redis
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly redisService: RedisService,
+  ) {
+    this.ttlSeconds = this.configService.get<number>(
+      'ACCESS_TOKEN_TTL_SECONDS',
+      900,
+    );
+  }
+
+  /** Rejects the user's access tokens issued until now. */
+  async revoke(userId: string): Promise<void> {
+    const issuedUpTo = Math.floor(Date.now() / 1000);
+
+    if (this.redisService.isAvailable()) {
+      const success = await this.redisService.set(
+        `${this.REDIS_PREFIX}${userId}`,
+        String(issuedUpTo),
+        this.ttlSeconds,
+      );
+      if (success) {
+        return; // Successfully stored in Redis
+      }
+      // If Redis fails, fall through to memory storage
+    }
+
+    this.revocations.set(userId, {
+      issuedUpTo,
+      expiresAt: Date.now() + this.ttlSeconds * 1000,
+    });
+    this.cleanupExpiredRevocations();
+  }
+
+  /** True when an access token issued at `issuedAt` (seconds) was revoked. */
+  async isRevoked(userId: string, issuedAt: number): Promise<boolean> {
+    let issuedUpTo: number | null = null;
+
+    // Try Redis first, fallback to memory
+    if (this.redisService.isAvailable()) {
+      const value = await this.redisService.get(
+        `${this.REDIS_PREFIX}${userId}`,
+      );
+      issuedUpTo = value ? Number(value) : null;
+    } else {
+      const stored = this.revocations.get(userId);
+      if (stored && Date.now() <= stored.expiresAt) {
+        issuedUpTo = stored.issuedUpTo;
+      }
+    }
+
+    // Same second counts as revoked: iat has no finer resolution
+    return issuedUpTo !== null && issuedAt <= issuedUpTo;
+  }
+
+  private cleanupExpiredRevocations(): void {
+    const now = Date.now();
+    for (const [userId, revocation] of this.revocations.entries()) {
+      if (now > revocation.expiresAt) {
+        this.revocations.delete(userId);
+      }
+    }
+  }
+}
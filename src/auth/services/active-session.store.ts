@@ -0,0 +1,153 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RedisService } from '../../redis/redis.service';
+
+export interface ActiveSession {
+  /** express-session id; never returned to clients. */
+  sid: string;
+  userId: string;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: number;
+  lastSeenAt: number;
+}
+
+type SessionIndex = Record<string, ActiveSession>;
+
+// lastSeenAt is only written when it's older than this, so that every
+// authenticated request doesn't turn into a write
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Per-user index of the sessions in the session store (which can only be
+ * looked up by session id), so they can be listed and revoked. Each session is
+ * a field of its own, so concurrent logins, touches and revocations of the
+ * same user don't overwrite each other.
+ */
+@Injectable()
+export class ActiveSessionStore {
+  private indexes: Map<string, SessionIndex> = new Map();
+  private readonly SESSION_EXPIRY_MS: number;
+  private readonly REDIS_PREFIX = 'user-session-index:'; // Hashes; the former JSON strings were under user-sessions:
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly redisService: RedisService,
+  ) {
+    this.SESSION_EXPIRY_MS =
+      this.configService.get<number>('SESSION_EXPIRY_MINUTES', 5) * 60 * 1000;
+  }
+
+  async add(session: ActiveSession): Promise<void> {
+    if (this.redisService.isAvailable()) {
+      // The hash lives as long as its newest session
+      const success = await this.redisService.hSet(
+        `${this.REDIS_PREFIX}${session.userId}`,
+        session.sid,
+        JSON.stringify(session),
+        Math.ceil(this.SESSION_EXPIRY_MS / 1000),
+      );
+      if (success) {
+        return; // Successfully stored in Redis
+      }
+      // If Redis fails, fall through to memory storage
+    }
+
+    const index = this.indexes.get(session.userId) ?? {};
+    index[session.sid] = session;
+    this.indexes.set(session.userId, index);
+  }
+
+  async touch(userId: string, sid: string): Promise<void> {
+    const session = (await this.read(userId))[sid];
+    const now = Date.now();
+    if (!session || now - session.lastSeenAt < TOUCH_INTERVAL_MS) {
+      return;
+    }
+    const touched = { ...session, lastSeenAt: now };
+
+    if (this.redisService.isAvailable()) {
+      // Not if it was revoked in the meantime
+      const success = await this.redisService.hSetExisting(
+        `${this.REDIS_PREFIX}${userId}`,
+        sid,
+        JSON.stringify(touched),
+      );
+      if (success) {
+        return; // Successfully stored in Redis
+      }
+      // If Redis fails, fall through to memory storage
+    }
+
+    const index = this.indexes.get(userId);
+    if (index?.[sid]) {
+      index[sid] = touched;
+    }
+  }
+
+  /** The user's sessions that haven't expired yet, most recently seen first. */
+  async list(userId: string): Promise<ActiveSession[]> {
+    const index = await this.read(userId);
+    return Object.values(index).sort((a, b) => b.lastSeenAt - a.lastSeenAt);
+  }
+
+  async remove(userId: string, sids: string[]): Promise<void> {
+    if (sids.length === 0) {
+      return;
+    }
+
+    if (this.redisService.isAvailable()) {
+      const success = await this.redisService.hDel(
+        `${this.REDIS_PREFIX}${userId}`,
+        sids,
+      );
+      if (success) {
+        return; // Successfully removed from Redis
+      }
+      // If Redis fails, fall through to memory storage
+    }
+
+    const index = this.indexes.get(userId);
+    if (!index) {
+      return;
+    }
+    for (const sid of sids) {
+      delete index[sid];
+    }
+    if (Object.keys(index).length === 0) {
+      this.indexes.delete(userId);
+    }
+  }
+
+  /** The user's sessions, with the expired ones dropped from the store. */
+  private async read(userId: string): Promise<SessionIndex> {
+    const index: SessionIndex = {};
+
+    // Try Redis first, fallback to memory
+    if (this.redisService.isAvailable()) {
+      const fields = await this.redisService.hGetAll(
+        `${this.REDIS_PREFIX}${userId}`,
+      );
+      for (const [sid, value] of Object.entries(fields)) {
+        try {
+          index[sid] = JSON.parse(value) as ActiveSession;
+        } catch {
+          // Invalid JSON, skip it
+        }
+      }
+    } else {
+      Object.assign(index, this.indexes.get(userId));
+    }
+
+    // Sessions expire a fixed time after login (the cookie isn't rolling)
+    const now = Date.now();
+    const expired = Object.values(index)
+      .filter((session) => now > session.createdAt + this.SESSION_EXPIRY_MS)
+      .map((session) => session.sid);
+    for (const sid of expired) {
+      delete index[sid];
+    }
+    await this.remove(userId, expired);
+    return index;
+  }
+}
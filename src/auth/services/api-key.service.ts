@@ -0,0 +1,106 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { handleRepositoryError } from 'src/common/error-handlers';
+import type { SessionUser } from '../../types/session-user.interface';
+import { ApiKeyRepository } from '../repository/api-key.repository';
+import { ApiKey, ApiKeyOwner, ApiKeyScope } from '../entities/api-key';
+import { CreateApiKeyDto } from '../dto/create-api-key.dto';
+import {
+  ApiKeyResponseDto,
+  CreatedApiKeyResponseDto,
+} from '../dto/api-key-response.dto';
+import { generateApiKey } from '../api-keys/api-keys';
+import { hashToken } from '../tokens/tokens';
+
+@Injectable()
+export class ApiKeyService {
+  constructor(private readonly apiKeyRepository: ApiKeyRepository) {}
+
+  async create(
+    userId: string,
+    createApiKeyDto: CreateApiKeyDto,
+  ): Promise<CreatedApiKeyResponseDto> {
+    const expiresAt = createApiKeyDto.expiresAt
+      ? new Date(createApiKeyDto.expiresAt)
+      : null;
+    if (expiresAt && expiresAt <= new Date()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+
+    const { key, prefix } = generateApiKey();
+    const result = await this.apiKeyRepository.create(
+      userId,
+      createApiKeyDto.name,
+      prefix,
+      hashToken(key),
+      [...new Set(createApiKeyDto.scopes ?? [ApiKeyScope.READ])],
+      expiresAt,
+    );
+    if (!result.Success) {
+      handleRepositoryError(result);
+    }
+
+    return { ...toResponse(result.ReturnedObject as ApiKey), key };
+  }
+
+  async findAll(userId: string): Promise<ApiKeyResponseDto[]> {
+    const result = await this.apiKeyRepository.findByUserId(userId);
+    if (!result.Success) {
+      handleRepositoryError(result);
+    }
+    return (result.ReturnedObject ?? []).map(toResponse);
+  }
+
+  async revoke(userId: string, id: number): Promise<{ message: string }> {
+    const result = await this.apiKeyRepository.revoke(id, userId);
+    if (!result.Success) {
+      handleRepositoryError(result);
+    }
+    return { message: 'API key revoked successfully' };
+  }
+
+  /**
+   * The owner of an active key as a SessionUser, plus what the key may do.
+   * Null when the key is unknown, revoked or expired.
+   */
+  async authenticate(key: string): Promise<{
+    user: SessionUser;
+    apiKeyId: number;
+    scopes: ApiKeyScope[];
+  } | null> {
+    const result = await this.apiKeyRepository.findActiveOwner(hashToken(key));
+    if (!result.Success) {
+      if (result.ErrorCode === 404) {
+        return null;
+      }
+      handleRepositoryError(result);
+    }
+
+    const owner = result.ReturnedObject as ApiKeyOwner;
+    // Usage tracking is best effort; a failed update still lets the request in
+    await this.apiKeyRepository.touch(owner.apiKeyId);
+
+    return {
+      user: {
+        id: owner.userId,
+        username: owner.username,
+        email: owner.email,
+        type: owner.type,
+      },
+      apiKeyId: owner.apiKeyId,
+      scopes: owner.scopes,
+    };
+  }
+}
+
+function toResponse(apiKey: ApiKey): ApiKeyResponseDto {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    scopes: apiKey.scopes,
+    expiresAt: apiKey.expiresAt,
+    lastUsedAt: apiKey.lastUsedAt,
+    revokedAt: apiKey.revokedAt,
+    createdAt: apiKey.createdAt,
+  };
+}
@@ -0,0 +1,151 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RedisService } from '../../redis/redis.service';
+import {
+  AttemptState,
+  LockoutPolicy,
+  lockedForSeconds,
+  registerFailure,
+  stateTtlSeconds,
+} from '../lockout/lockout';
+
+/** 'login' counts wrong passwords per username, 'code' wrong codes per email. */
+export type AttemptScope = 'login' | 'code';
+
+interface StoredAttemptState extends AttemptState {
+  expiresAt: number;
+}
+
+@Injectable()
+export class LoginAttemptStore {
+  private attempts: Map<string, StoredAttemptState> = new Map();
+  private readonly policies: Record<AttemptScope, LockoutPolicy>;
+  private readonly REDIS_PREFIX = 'attempts:'; // Prefix for attempt counters in Redis
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly redisService: RedisService,
+  ) {
+    const windowSeconds =
+      this.configService.get<number>('LOGIN_ATTEMPT_WINDOW_MINUTES', 15) * 60;
+    const baseLockoutSeconds = this.configService.get<number>(
+      'LOGIN_LOCKOUT_SECONDS',
+      60,
+    );
+    const maxLockoutSeconds = this.configService.get<number>(
+      'LOGIN_LOCKOUT_MAX_SECONDS',
+      3600,
+    );
+
+    this.policies = {
+      login: {
+        maxFailures: this.configService.get<number>('LOGIN_MAX_ATTEMPTS', 5),
+        windowSeconds,
+        baseLockoutSeconds,
+        maxLockoutSeconds,
+      },
+      code: {
+        maxFailures: this.configService.get<number>('CODE_MAX_ATTEMPTS', 5),
+        windowSeconds,
+        baseLockoutSeconds,
+        maxLockoutSeconds,
+      },
+    };
+  }
+
+  /** Seconds left on the lockout of `identifier`, or 0 when it isn't locked. */
+  async lockedFor(scope: AttemptScope, identifier: string): Promise<number> {
+    const state = await this.read(this.key(scope, identifier));
+    return lockedForSeconds(state, Date.now());
+  }
+
+  /**
+   * Counts a failed attempt. Returns the lockout length in seconds when this
+   * failure locked `identifier`, otherwise null.
+   */
+  async recordFailure(
+    scope: AttemptScope,
+    identifier: string,
+  ): Promise<number | null> {
+    const key = this.key(scope, identifier);
+    const policy = this.policies[scope];
+    const { state, lockedSeconds } = registerFailure(
+      await this.read(key),
+      policy,
+      Date.now(),
+    );
+    await this.write(key, state, stateTtlSeconds(state, policy));
+    return lockedSeconds;
+  }
+
+  /** Clears the failures and the lockout history after a successful attempt. */
+  async reset(scope: AttemptScope, identifier: string): Promise<void> {
+    const key = this.key(scope, identifier);
+    if (this.redisService.isAvailable()) {
+      await this.redisService.del(`${this.REDIS_PREFIX}${key}`);
+    } else {
+      this.attempts.delete(key);
+    }
+  }
+
+  private key(scope: AttemptScope, identifier: string): string {
+    return `${scope}:${identifier.trim().toLowerCase()}`;
+  }
+
+  private async read(key: string): Promise<AttemptState | null> {
+    // Try Redis first, fallback to memory
+    if (this.redisService.isAvailable()) {
+      const value = await this.redisService.get(`${this.REDIS_PREFIX}${key}`);
+      if (!value) {
+        return null;
+      }
+      try {
+        return JSON.parse(value) as AttemptState;
+      } catch {
+        // Invalid JSON, treat as not found
+        await this.redisService.del(`${this.REDIS_PREFIX}${key}`);
+        return null;
+      }
+    }
+
+    const stored = this.attempts.get(key);
+    if (!stored || Date.now() > stored.expiresAt) {
+      this.attempts.delete(key);
+      return null;
+    }
+    return stored;
+  }
+
+  private async write(
+    key: string,
+    state: AttemptState,
+    ttlSeconds: number,
+  ): Promise<void> {
+    if (this.redisService.isAvailable()) {
+      const success = await this.redisService.set(
+        `${this.REDIS_PREFIX}${key}`,
+        JSON.stringify(state),
+        ttlSeconds,
+      );
+      if (success) {
+        return; // Successfully stored in Redis
+      }
+      // If Redis fails, fall through to memory storage
+    }
+
+    this.attempts.set(key, {
+      ...state,
+      expiresAt: Date.now() + ttlSeconds * 1000,
+    });
+    this.cleanupExpiredAttempts();
+  }
+
+  private cleanupExpiredAttempts(): void {
+    const now = Date.now();
+    for (const [key, data] of this.attempts.entries()) {
+      if (now > data.expiresAt) {
+        this.attempts.delete(key);
+      }
+    }
+  }
+}
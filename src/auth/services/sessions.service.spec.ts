@@ -0,0 +1,75 @@
+import { ConfigService } from '@nestjs/config';
+import { ResultNoData } from 'src/common/result';
+import { RedisService } from '../../redis/redis.service';
+import { UsersRepository } from '../../users/repository/users.repository';
+import { RefreshTokenRepository } from '../repository/refresh-token.repository';
+import { signAccessToken, verifyAccessToken } from '../tokens/tokens';
+import { AccessTokenRevocationStore } from './access-token-revocation.store';
+import { ActiveSessionStore } from './active-session.store';
+import { SessionsService } from './sessions.service';
+
+const USER = {
+  id: '550e8400-e29b-41d4-a716-446655440000',
+  username: 'johndoe',
+  email: 'john.doe@example.com',
+  type: 'admin',
+};
+const NOW = 1_700_000_000_000;
+
+describe('SessionsService.revokeAll', () => {
+  let refreshTokenRepository: { revokeAllForUser: jest.Mock };
+  let service: SessionsService;
+
+  const issuedAt = (nowMs: number) =>
+    verifyAccessToken(
+      signAccessToken(USER, 'secret', 900, nowMs),
+      'secret',
+      nowMs,
+    )!.issuedAt;
+
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+
+    const config = new ConfigService({ ACCESS_TOKEN_TTL_SECONDS: 900 });
+    const redisService = new RedisService(config);
+    refreshTokenRepository = {
+      revokeAllForUser: jest.fn(() =>
+        Promise.resolve(new ResultNoData(true, '', 0)),
+      ),
+    };
+    service = new SessionsService(
+      new ActiveSessionStore(config, redisService),
+      new AccessTokenRevocationStore(config, redisService),
+      refreshTokenRepository as unknown as RefreshTokenRepository,
+      {} as UsersRepository,
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('cuts off the access tokens issued before, along with refresh tokens', async () => {
+    const before = issuedAt(NOW - 60_000);
+    expect(await service.isAccessTokenRevoked(USER.id, before)).toBe(false);
+
+    await service.revokeAll(USER.id);
+
+    expect(refreshTokenRepository.revokeAllForUser).toHaveBeenCalledWith(
+      USER.id,
+    );
+    expect(await service.isAccessTokenRevoked(USER.id, before)).toBe(true);
+    expect(await service.isAccessTokenRevoked('another-user', before)).toBe(
+      false,
+    );
+  });
+
+  it('accepts access tokens from a later login', async () => {
+    await service.revokeAll(USER.id);
+
+    jest.spyOn(Date, 'now').mockReturnValue(NOW + 5_000);
+    expect(
+      await service.isAccessTokenRevoked(USER.id, issuedAt(NOW + 5_000)),
+    ).toBe(false);
+  });
+});
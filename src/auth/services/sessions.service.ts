@@ -0,0 +1,177 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import type { Store } from 'express-session';
+import { handleRepositoryError } from 'src/common/error-handlers';
+import { UsersRepository } from '../../users/repository/users.repository';
+import type { AuditMetadata } from '../../audit/entities/auditMetadata';
+import { RefreshTokenRepository } from '../repository/refresh-token.repository';
+import { SessionResponseDto } from '../dto/session-response.dto';
+import { ActiveSession, ActiveSessionStore } from './active-session.store';
+import { AccessTokenRevocationStore } from './access-token-revocation.store';
+import { hashToken } from '../tokens/tokens';
+
+/** The id clients see; the session id itself works as a credential. */
+function publicSessionId(sid: string): string {
+  return hashToken(sid).slice(0, 32);
+}
+
+@Injectable()
+export class SessionsService {
+  private readonly logger = new Logger(SessionsService.name);
+  // Created in main.ts together with the session middleware
+  private sessionStore: Store | null = null;
+
+  constructor(
+    private readonly activeSessionStore: ActiveSessionStore,
+    private readonly accessTokenRevocationStore: AccessTokenRevocationStore,
+    private readonly refreshTokenRepository: RefreshTokenRepository,
+    private readonly usersRepository: UsersRepository,
+  ) {}
+
+  attachStore(store: Store): void {
+    this.sessionStore = store;
+  }
+
+  /** Records a session at login. */
+  async register(
+    sid: string,
+    userId: string,
+    meta?: AuditMetadata,
+  ): Promise<void> {
+    const now = Date.now();
+    await this.activeSessionStore.add({
+      sid,
+      userId,
+      ip: meta?.ip ?? null,
+      userAgent: meta?.userAgent ?? null,
+      createdAt: now,
+      lastSeenAt: now,
+    });
+  }
+
+  async touch(userId: string, sid: string): Promise<void> {
+    await this.activeSessionStore.touch(userId, sid);
+  }
+
+  /** Drops a session from the index after it was destroyed (logout). */
+  async forget(userId: string, sid: string): Promise<void> {
+    await this.activeSessionStore.remove(userId, [sid]);
+  }
+
+  async list(
+    userId: string,
+    currentSid?: string,
+  ): Promise<SessionResponseDto[]> {
+    const sessions = await this.liveSessions(userId);
+    return sessions.map((session) => ({
+      id: publicSessionId(session.sid),
+      userAgent: session.userAgent,
+      ip: session.ip,
+      createdAt: new Date(session.createdAt),
+      lastSeenAt: new Date(session.lastSeenAt),
+      current: session.sid === currentSid,
+    }));
+  }
+
+  async revoke(userId: string, id: string): Promise<{ message: string }> {
+    const sessions = await this.liveSessions(userId);
+    const session = sessions.find((s) => publicSessionId(s.sid) === id);
+    if (!session) {
+      throw new NotFoundException(`Session with id ${id} not found`);
+    }
+
+    await this.destroy([session]);
+    return { message: 'Session revoked successfully' };
+  }
+
+  /**
+   * Logs the user out everywhere: every session, every refresh token and the
+   * access tokens issued so far to bearer clients.
+   */
+  async revokeAll(
+    userId: string,
+  ): Promise<{ message: string; revoked: number }> {
+    const sessions = await this.activeSessionStore.list(userId);
+    const revoked = await this.destroy(sessions);
+
+    const result = await this.refreshTokenRepository.revokeAllForUser(userId);
+    if (!result.Success) {
+      handleRepositoryError(result);
+    }
+    await this.accessTokenRevocationStore.revoke(userId);
+
+    return {
+      message: 'Logged out everywhere successfully',
+      revoked,
+    };
+  }
+
+  async isAccessTokenRevoked(
+    userId: string,
+    issuedAt: number,
+  ): Promise<boolean> {
+    return this.accessTokenRevocationStore.isRevoked(userId, issuedAt);
+  }
+
+  /** For admin routes, so an unknown user gets a 404 rather than an empty list. */
+  async assertUserExists(userId: string): Promise<void> {
+    const result = await this.usersRepository.findOne(userId);
+    if (!result.Success) {
+      handleRepositoryError(result);
+    }
+  }
+
+  /** Indexed sessions that are still in the session store; the rest are pruned. */
+  private async liveSessions(userId: string): Promise<ActiveSession[]> {
+    const sessions = await this.activeSessionStore.list(userId);
+    const store = this.sessionStore;
+    if (!store) {
+      return sessions;
+    }
+
+    const live: ActiveSession[] = [];
+    const gone: string[] = [];
+    for (const session of sessions) {
+      const data = await new Promise<unknown>((resolve) =>
+        store.get(session.sid, (err, sessionData) =>
+          // On a store error, keep listing the session rather than drop it
+          resolve(err ? true : sessionData),
+        ),
+      );
+      if (data) {
+        live.push(session);
+      } else {
+        gone.push(session.sid);
+      }
+    }
+
+    await this.activeSessionStore.remove(userId, gone);
+    return live;
+  }
+
+  /** Sessions that fail to be destroyed stay indexed, so they remain visible. */
+  private async destroy(sessions: ActiveSession[]): Promise<number> {
+    const store = this.sessionStore;
+    const destroyed: string[] = [];
+    for (const session of sessions) {
+      const ok = !store
+        ? true
+        : await new Promise<boolean>((resolve) =>
+            store.destroy(session.sid, (err) => {
+              if (err) {
+                this.logger.error(
+                  `Failed to destroy session: ${err instanceof Error ? err.message : String(err)}`,
+                );
+              }
+              resolve(!err);
+            }),
+          );
+      if (ok) {
+        destroyed.push(session.sid);
+      }
+    }
+    if (sessions.length > 0) {
+      await this.activeSessionStore.remove(sessions[0].userId, destroyed);
+    }
+    return destroyed.length;
+  }
+}
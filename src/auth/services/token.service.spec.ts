@@ -0,0 +1,126 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { from, lastValueFrom } from 'rxjs';
+import { ResultWithData } from 'src/common/result';
+import { DatabaseContextInterceptor } from '../../database/database-context.interceptor';
+import { DatabaseContextService } from '../../database/database-context.service';
+import { MysqlDatabaseService } from '../../database/mysql-database.service';
+import { createFakeMysql } from '../../database/testing/fake-mysql';
+import { AuditRepository } from '../../audit/audit.repository';
+import { UsersRepository } from '../../users/repository/users.repository';
+import { RefreshTokenRepository } from '../repository/refresh-token.repository';
+import { RefreshToken } from '../entities/refresh-token';
+import { TokenService } from './token.service';
+
+const mysql = createFakeMysql();
+const { committed } = mysql;
+
+jest.mock('../../database/database-pool', () => ({
+  createDatabasePool: () => mysql.pool,
+}));
+
+const USER = {
+  id: '550e8400-e29b-41d4-a716-446655440000',
+  username: 'johndoe',
+  email: 'john.doe@example.com',
+  type: 'user',
+};
+
+function storedToken(overrides: Partial<RefreshToken> = {}): RefreshToken {
+  return {
+    id: 7,
+    familyId: 'family-1',
+    userId: USER.id,
+    expiresAt: new Date(Date.now() + 60_000),
+    expired: false,
+    rotatedAt: null,
+    revokedAt: null,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('TokenService', () => {
+  let interceptor: DatabaseContextInterceptor;
+  let refreshTokenRepository: RefreshTokenRepository;
+  let service: TokenService;
+
+  // Runs `handler` like a request: the interceptor commits the request
+  // transaction when it succeeds and rolls it back when it throws
+  const request = <T>(handler: () => Promise<T>): Promise<T> =>
+    lastValueFrom(
+      interceptor.intercept({} as ExecutionContext, {
+        handle: () => from(handler()),
+      }),
+    ) as Promise<T>;
+
+  beforeEach(async () => {
+    mysql.reset();
+    jest.clearAllMocks();
+
+    const contextService = new DatabaseContextService();
+    const db = new MysqlDatabaseService(new ConfigService(), contextService);
+    jest.spyOn(db, 'initializeDatabase').mockResolvedValue(undefined);
+    await db.onModuleInit();
+    interceptor = new DatabaseContextInterceptor(contextService);
+
+    refreshTokenRepository = new RefreshTokenRepository(db);
+    const usersRepository = {
+      findOne: jest.fn(() =>
+        Promise.resolve(new ResultWithData(true, '', USER, 0)),
+      ),
+    } as unknown as UsersRepository;
+    service = new TokenService(
+      refreshTokenRepository,
+      usersRepository,
+      new AuditRepository(db),
+      new ConfigService({ ACCESS_TOKEN_SECRET: 'test-secret' }),
+    );
+  });
+
+  const presenting = (stored: RefreshToken) =>
+    jest
+      .spyOn(refreshTokenRepository, 'findByHash')
+      .mockResolvedValue(new ResultWithData(true, '', stored, 0));
+
+  it('rotates a refresh token into a new pair of the same family', async () => {
+    presenting(storedToken());
+
+    const tokens = await request(() => service.refresh('refresh-token'));
+
+    expect(tokens.refreshToken).not.toBe('refresh-token');
+    expect(committed).toEqual([
+      expect.stringContaining('UPDATE RefreshToken SET rotatedAt = NOW()'),
+      expect.stringContaining('INSERT INTO RefreshToken'),
+    ]);
+  });
+
+  it('keeps the family revoked after a reused token is rejected', async () => {
+    presenting(storedToken({ rotatedAt: new Date() }));
+
+    await expect(
+      request(() => service.refresh('refresh-token')),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+
+    expect(committed).toEqual([
+      expect.stringContaining('UPDATE RefreshToken SET revokedAt = NOW()'),
+      expect.stringContaining('INSERT INTO AuditLog'),
+    ]);
+  });
+
+  it('revokes the family when a concurrent refresh won the rotation', async () => {
+    presenting(storedToken());
+    jest
+      .spyOn(refreshTokenRepository, 'markRotated')
+      .mockResolvedValue(new ResultWithData(true, '', false, 0));
+
+    await expect(
+      request(() => service.refresh('refresh-token')),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+
+    expect(committed).toEqual([
+      expect.stringContaining('UPDATE RefreshToken SET revokedAt = NOW()'),
+      expect.stringContaining('INSERT INTO AuditLog'),
+    ]);
+  });
+});
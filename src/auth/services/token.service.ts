@@ -0,0 +1,198 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { handleRepositoryError } from 'src/common/error-handlers';
+import { UsersRepository } from '../../users/repository/users.repository';
+import { AuditRepository } from '../../audit/audit.repository';
+import type { AuditMetadata } from '../../audit/entities/auditMetadata';
+import type { SessionUser } from '../../types/session-user.interface';
+import { Transactional } from 'src/database/transaction';
+import { RefreshTokenRepository } from '../repository/refresh-token.repository';
+import type { RefreshToken } from '../entities/refresh-token';
+import type { TokenResponseDto } from '../dto/token-response.dto';
+import {
+  generateRefreshToken,
+  hashToken,
+  signAccessToken,
+} from '../tokens/tokens';
+
+/**
+ * Shared with SessionGuard, which verifies access tokens without this service.
+ * Required in production, see validateEnv().
+ */
+export function accessTokenSecret(configService: ConfigService): string {
+  return configService.get<string>('ACCESS_TOKEN_SECRET') as string;
+}
+
+@Injectable()
+export class TokenService {
+  private readonly secret: string;
+  private readonly accessTtlSeconds: number;
+  private readonly refreshTtlSeconds: number;
+
+  constructor(
+    private readonly refreshTokenRepository: RefreshTokenRepository,
+    private readonly usersRepository: UsersRepository,
+    private readonly auditRepository: AuditRepository,
+    private readonly configService: ConfigService,
+  ) {
+    this.secret = accessTokenSecret(this.configService);
+    this.accessTtlSeconds = this.configService.get<number>(
+      'ACCESS_TOKEN_TTL_SECONDS',
+      900,
+    );
+    this.refreshTtlSeconds =
+      this.configService.get<number>('REFRESH_TOKEN_TTL_DAYS', 30) * 86400;
+  }
+
+  /** Issues an access token and the first refresh token of a new family. */
+  async issue(user: SessionUser): Promise<TokenResponseDto> {
+    return this.issueInFamily(user, randomUUID());
+  }
+
+  /**
+   * Exchanges a refresh token for a new pair. Each refresh token works once;
+   * presenting one that was already exchanged means it leaked, so every token
+   * of its family is revoked.
+   */
+  async refresh(
+    refreshToken: string,
+    meta?: AuditMetadata,
+  ): Promise<TokenResponseDto> {
+    const tokenResult = await this.refreshTokenRepository.findByHash(
+      hashToken(refreshToken),
+    );
+    if (!tokenResult.Success && tokenResult.ErrorCode !== 404) {
+      handleRepositoryError(tokenResult);
+    }
+    const stored = tokenResult.ReturnedObject;
+    if (!stored || stored.revokedAt || stored.expired) {
+      throw new UnauthorizedException('Invalid or expired refresh token');
+    }
+
+    const tokens = await this.rotate(stored, meta);
+    if (!tokens) {
+      throw new UnauthorizedException('Invalid or expired refresh token');
+    }
+    return tokens;
+  }
+
+  /** Revokes the refresh token and every token rotated from the same login. */
+  async revoke(refreshToken: string): Promise<{ message: string }> {
+    const tokenResult = await this.refreshTokenRepository.findByHash(
+      hashToken(refreshToken),
+    );
+    if (!tokenResult.Success && tokenResult.ErrorCode !== 404) {
+      handleRepositoryError(tokenResult);
+    }
+    if (tokenResult.ReturnedObject) {
+      await this.revokeFamily(tokenResult.ReturnedObject.familyId);
+    }
+    // Same answer for unknown tokens, so they can't be probed
+    return { message: 'Refresh token revoked successfully' };
+  }
+
+  private async issueInFamily(
+    user: SessionUser,
+    familyId: string,
+  ): Promise<TokenResponseDto> {
+    const refreshToken = generateRefreshToken();
+    const result = await this.refreshTokenRepository.create(
+      hashToken(refreshToken),
+      familyId,
+      user.id,
+      this.refreshTtlSeconds,
+    );
+    if (!result.Success) {
+      handleRepositoryError(result);
+    }
+
+    return {
+      accessToken: signAccessToken(
+        user,
+        this.secret,
+        this.accessTtlSeconds,
+        Date.now(),
+      ),
+      tokenType: 'Bearer',
+      expiresIn: this.accessTtlSeconds,
+      refreshToken,
+      refreshExpiresIn: this.refreshTtlSeconds,
+    };
+  }
+
+  /**
+   * Exchanges `stored` for a new pair, or revokes its family when it was
+   * already exchanged (null then). Committed on its own, so the revocation and
+   * the audit event survive the 401 that rolls the request transaction back.
+   */
+  @Transactional({ autonomous: true })
+  private async rotate(
+    stored: RefreshToken,
+    meta?: AuditMetadata,
+  ): Promise<TokenResponseDto | null> {
+    const rotated = stored.rotatedAt
+      ? false
+      : await this.markRotated(stored.id);
+    if (!rotated) {
+      await this.revokeFamily(stored.familyId);
+      await this.recordReuse(stored.userId, stored.familyId, meta);
+      return null;
+    }
+
+    // Reload the user, so changes (e.g. of type) reach the new access token
+    const userResult = await this.usersRepository.findOne(stored.userId);
+    if (!userResult.Success || !userResult.ReturnedObject) {
+      throw new UnauthorizedException('User not found');
+    }
+    const user = userResult.ReturnedObject;
+
+    return this.issueInFamily(
+      {
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        type: user.type,
+      },
+      stored.familyId,
+    );
+  }
+
+  private async markRotated(id: number): Promise<boolean> {
+    const result = await this.refreshTokenRepository.markRotated(id);
+    if (!result.Success) {
+      handleRepositoryError(result);
+    }
+    return result.ReturnedObject === true;
+  }
+
+  private async revokeFamily(familyId: string): Promise<void> {
+    const result = await this.refreshTokenRepository.revokeFamily(familyId);
+    if (!result.Success) {
+      handleRepositoryError(result);
+    }
+  }
+
+  private async recordReuse(
+    userId: string,
+    familyId: string,
+    meta?: AuditMetadata,
+  ): Promise<void> {
+    try {
+      await this.auditRepository.insert({
+        eventType: 'auth.refresh_token_reuse',
+        entityType: 'User',
+        entityId: userId,
+        ip: meta?.ip ?? null,
+        userAgent: meta?.userAgent ?? null,
+        data: { familyId },
+      });
+    } catch (error) {
+      // The tokens are already revoked; don't fail the request over the log
+      console.error(
+        'Failed to record refresh token reuse in audit log:',
+        error,
+      );
+    }
+  }
+}
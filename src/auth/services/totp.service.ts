@@ -0,0 +1,198 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { handleRepositoryError } from 'src/common/error-handlers';
+import { UsersRepository } from '../../users/repository/users.repository';
+import { TotpRepository } from '../repository/totp.repository';
+import { UserTotp } from '../entities/user-totp';
+import {
+  TotpEnrollmentResponseDto,
+  TotpRecoveryCodesResponseDto,
+  TotpStatusResponseDto,
+} from '../dto/totp-response.dto';
+import {
+  decryptSecret,
+  encryptSecret,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  otpauthUri,
+  verifyTotp,
+} from '../totp/totp';
+
+@Injectable()
+export class TotpService {
+  private readonly encryptionKey: string;
+  private readonly issuer: string;
+
+  constructor(
+    private readonly totpRepository: TotpRepository,
+    private readonly usersRepository: UsersRepository,
+    private readonly configService: ConfigService,
+  ) {
+    // Required in production, see validateEnv()
+    this.encryptionKey = this.configService.get<string>(
+      'TOTP_ENCRYPTION_KEY',
+    ) as string;
+    this.issuer = this.configService.get<string>(
+      'TOTP_ISSUER',
+      'Nest API Demo',
+    );
+  }
+
+  async status(userId: string): Promise<TotpStatusResponseDto> {
+    const totp = await this.findEnrollment(userId);
+    if (!totp?.confirmedAt) {
+      return {
+        enabled: false,
+        pendingConfirmation: totp !== null,
+        recoveryCodesRemaining: 0,
+      };
+    }
+
+    const countResult =
+      await this.totpRepository.countUnusedRecoveryCodes(userId);
+    if (!countResult.Success) {
+      handleRepositoryError(countResult);
+    }
+    return {
+      enabled: true,
+      pendingConfirmation: false,
+      recoveryCodesRemaining: countResult.ReturnedObject ?? 0,
+    };
+  }
+
+  /** True when the user's login is verified with the authenticator app. */
+  async isEnabled(userId: string): Promise<boolean> {
+    const totp = await this.findEnrollment(userId);
+    return Boolean(totp?.confirmedAt);
+  }
+
+  /**
+   * Starts (or restarts) enrollment with a fresh secret. The emailed code keeps
+   * being used until the enrollment is confirmed.
+   */
+  async enroll(
+    userId: string,
+    accountName: string,
+  ): Promise<TotpEnrollmentResponseDto> {
+    if (await this.isEnabled(userId)) {
+      throw new ConflictException(
+        'An authenticator app is already enrolled. Ask an administrator to reset it first.',
+      );
+    }
+
+    const secret = generateTotpSecret();
+    const result = await this.totpRepository.savePending(
+      userId,
+      encryptSecret(secret, this.encryptionKey),
+    );
+    if (!result.Success) {
+      handleRepositoryError(result);
+    }
+
+    return {
+      secret,
+      otpauthUri: otpauthUri(this.issuer, accountName, secret),
+    };
+  }
+
+  /** Confirms enrollment with a first code and issues the recovery codes. */
+  async confirm(
+    userId: string,
+    code: string,
+  ): Promise<TotpRecoveryCodesResponseDto> {
+    const totp = await this.findEnrollment(userId);
+    if (!totp) {
+      throw new BadRequestException(
+        'No authenticator app enrollment in progress',
+      );
+    }
+    if (totp.confirmedAt) {
+      throw new ConflictException('The authenticator app is already confirmed');
+    }
+
+    const step = verifyTotp(
+      decryptSecret(totp.secret, this.encryptionKey),
+      code,
+      Date.now(),
+    );
+    if (step === null) {
+      throw new BadRequestException('Invalid authenticator code');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    const result = await this.totpRepository.confirm(
+      userId,
+      step,
+      recoveryCodes.map(hashRecoveryCode),
+    );
+    if (!result.Success) {
+      handleRepositoryError(result);
+    }
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Checks a login code: the current authenticator code (each one accepted
+   * only once) or an unused recovery code.
+   */
+  async verifyLoginCode(userId: string, code: string): Promise<boolean> {
+    const totp = await this.findEnrollment(userId);
+    if (!totp?.confirmedAt) {
+      return false;
+    }
+
+    const step = verifyTotp(
+      decryptSecret(totp.secret, this.encryptionKey),
+      code,
+      Date.now(),
+    );
+    if (step !== null) {
+      const result = await this.totpRepository.markStepUsed(userId, step);
+      if (!result.Success) {
+        handleRepositoryError(result);
+      }
+      return result.ReturnedObject === true;
+    }
+
+    const result = await this.totpRepository.useRecoveryCode(
+      userId,
+      hashRecoveryCode(code),
+    );
+    if (!result.Success) {
+      handleRepositoryError(result);
+    }
+    return result.ReturnedObject === true;
+  }
+
+  /** Removes the user's second factor, so login falls back to emailed codes. */
+  async reset(userId: string): Promise<{ message: string }> {
+    const userResult = await this.usersRepository.findOne(userId);
+    if (!userResult.Success) {
+      handleRepositoryError(userResult);
+    }
+
+    const result = await this.totpRepository.delete(userId);
+    if (!result.Success) {
+      handleRepositoryError(result);
+    }
+
+    return { message: 'Second factor reset successfully' };
+  }
+
+  private async findEnrollment(userId: string): Promise<UserTotp | null> {
+    const result = await this.totpRepository.findByUserId(userId);
+    if (!result.Success) {
+      if (result.ErrorCode === 404) {
+        return null;
+      }
+      handleRepositoryError(result);
+    }
+    return result.ReturnedObject ?? null;
+  }
+}
@@ -2,8 +2,13 @@ import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { RedisService } from '../../redis/redis.service';
 
-interface VerificationCodeData {
+/** How the second step of a login is verified. */
+export type LoginMethod = 'email' | 'totp';
+
+export interface VerificationCodeData {
+  /** The emailed code; empty for 'totp', where the app generates the code. */
   code: string;
+  method: LoginMethod;
   email: string;
   userId: string;
   expiresAt: Date;
@@ -30,12 +35,18 @@ export class VerificationCodeStore {
     return Math.floor(100000 + Math.random() * 900000).toString();
   }
 
-  async storeCode(email: string, userId: string, code: string): Promise<void> {
+  async storeCode(
+    email: string,
+    userId: string,
+    code: string,
+    method: LoginMethod = 'email',
+  ): Promise<void> {
     const expiresAt = new Date();
     expiresAt.setMinutes(expiresAt.getMinutes() + this.CODE_EXPIRY_MINUTES);
 
     const data: VerificationCodeData = {
       code,
+      method,
       email,
       userId,
       expiresAt,
@@ -60,10 +71,12 @@ export class VerificationCodeStore {
     this.cleanupExpiredCodes();
   }
 
-  async verifyCode(
-    email: string,
-    code: string,
-  ): Promise<{ valid: boolean; userId?: string }> {
+  /**
+   * The pending login for `email`, or null when there is none or it expired.
+   * The entry stays stored until remove() is called, so a mistyped code can
+   * be retried until it expires.
+   */
+  async findPending(email: string): Promise<VerificationCodeData | null> {
     let stored: VerificationCodeData | null = null;
 
     // Try Redis first, fallback to memory
@@ -77,7 +90,7 @@ export class VerificationCodeStore {
         } catch {
           // Invalid JSON, treat as not found
           await this.redisService.del(redisKey);
-          return { valid: false };
+          return null;
         }
       }
     } else {
@@ -86,36 +99,25 @@ export class VerificationCodeStore {
     }
 
     if (!stored) {
-      return { valid: false };
+      return null;
     }
 
     // Check if code has expired
     if (new Date() > new Date(stored.expiresAt)) {
-      // Remove from storage
-      if (this.redisService.isAvailable()) {
-        await this.redisService.del(`${this.REDIS_PREFIX}${email}`);
-      } else {
-        this.codes.delete(email);
-      }
-      return { valid: false };
-    }
-
-    // Check if code matches
-    if (stored.code !== code) {
-      return { valid: false };
+      await this.remove(email);
+      return null;
     }
 
-    // Code is valid, remove it and return userId
-    const userId = stored.userId;
+    // Entries stored before login methods existed were always emailed codes
+    return { ...stored, method: stored.method ?? 'email' };
+  }
 
-    // Remove from storage
+  async remove(email: string): Promise<void> {
     if (this.redisService.isAvailable()) {
       await this.redisService.del(`${this.REDIS_PREFIX}${email}`);
     } else {
       this.codes.delete(email);
     }
-
-    return { valid: true, userId };
   }
 
   private cleanupExpiredCodes(): void {
@@ -0,0 +1,56 @@
+import {
+  bearerToken,
+  generateRefreshToken,
+  hashToken,
+  signAccessToken,
+  verifyAccessToken,
+} from './tokens';
+
+const USER = {
+  id: '550e8400-e29b-41d4-a716-446655440000',
+  username: 'johndoe',
+  email: 'john.doe@example.com',
+  type: 'admin',
+};
+const NOW = 1_700_000_000_000;
+
+describe('tokens', () => {
+  it('verifies its own access tokens until they expire', () => {
+    const token = signAccessToken(USER, 'secret', 900, NOW);
+
+    const verified = { user: USER, issuedAt: NOW / 1000 };
+    expect(verifyAccessToken(token, 'secret', NOW)).toEqual(verified);
+    expect(verifyAccessToken(token, 'secret', NOW + 899_000)).toEqual(verified);
+    expect(verifyAccessToken(token, 'secret', NOW + 900_000)).toBeNull();
+  });
+
+  it('rejects tokens signed with another secret or tampered with', () => {
+    const token = signAccessToken(USER, 'secret', 900, NOW);
+    const [header, , sig] = token.split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ sub: USER.id, type: 'admin', exp: NOW / 1000 + 900 }),
+    ).toString('base64url');
+
+    expect(verifyAccessToken(token, 'other', NOW)).toBeNull();
+    expect(verifyAccessToken(`${header}.${forged}.${sig}`, 'secret', NOW)).toBe(
+      null,
+    );
+    expect(verifyAccessToken('not-a-token', 'secret', NOW)).toBeNull();
+  });
+
+  it('reads bearer tokens from the Authorization header', () => {
+    expect(bearerToken('Bearer abc.def')).toBe('abc.def');
+    expect(bearerToken('bearer abc')).toBe('abc');
+    expect(bearerToken('Basic abc')).toBeNull();
+    expect(bearerToken(undefined)).toBeNull();
+  });
+
+  it('generates unique refresh tokens and hashes them', () => {
+    const a = generateRefreshToken();
+    const b = generateRefreshToken();
+
+    expect(a).not.toBe(b);
+    expect(hashToken(a)).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashToken(a)).toBe(hashToken(a));
+  });
+});
@@ -0,0 +1,97 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { SessionUser } from '../../types/session-user.interface';
+
+/** Claims of an access token (a JWT signed with HS256). */
+export interface AccessTokenClaims {
+  sub: string;
+  username: string;
+  email: string;
+  type: string;
+  iat: number;
+  exp: number;
+}
+
+const JWT_HEADER = Buffer.from(
+  JSON.stringify({ alg: 'HS256', typ: 'JWT' }),
+).toString('base64url');
+
+function signature(unsigned: string, secret: string): Buffer {
+  return createHmac('sha256', secret).update(unsigned).digest();
+}
+
+export function signAccessToken(
+  user: SessionUser,
+  secret: string,
+  ttlSeconds: number,
+  nowMs: number,
+): string {
+  const iat = Math.floor(nowMs / 1000);
+  const claims: AccessTokenClaims = {
+    sub: user.id,
+    username: user.username,
+    email: user.email,
+    type: user.type,
+    iat,
+    exp: iat + ttlSeconds,
+  };
+  const unsigned = `${JWT_HEADER}.${Buffer.from(JSON.stringify(claims)).toString('base64url')}`;
+  return `${unsigned}.${signature(unsigned, secret).toString('base64url')}`;
+}
+
+/**
+ * The user an access token was issued to and when (seconds), or null when
+ * it's invalid or expired.
+ */
+export function verifyAccessToken(
+  token: string,
+  secret: string,
+  nowMs: number,
+): { user: SessionUser; issuedAt: number } | null {
+  const parts = token.split('.');
+  if (parts.length !== 3 || parts[0] !== JWT_HEADER) {
+    return null;
+  }
+
+  const expected = signature(`${parts[0]}.${parts[1]}`, secret);
+  const actual = Buffer.from(parts[2], 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  let claims: AccessTokenClaims;
+  try {
+    claims = JSON.parse(
+      Buffer.from(parts[1], 'base64url').toString('utf8'),
+    ) as AccessTokenClaims;
+  } catch {
+    return null;
+  }
+  if (typeof claims.exp !== 'number' || claims.exp * 1000 <= nowMs) {
+    return null;
+  }
+
+  return {
+    user: {
+      id: claims.sub,
+      username: claims.username,
+      email: claims.email,
+      type: claims.type,
+    },
+    issuedAt: claims.iat,
+  };
+}
+
+/** The token of an `Authorization: Bearer <token>` header, or null. */
+export function bearerToken(header: string | undefined): string | null {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(header ?? '');
+  return match ? match[1] : null;
+}
+
+/** Opaque refresh tokens; only their hash is stored. */
+export function generateRefreshToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
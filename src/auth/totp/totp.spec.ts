@@ -0,0 +1,65 @@
+import {
+  base32Decode,
+  base32Encode,
+  decryptSecret,
+  encryptSecret,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  hotp,
+  otpauthUri,
+  verifyTotp,
+} from './totp';
+
+// RFC 6238 appendix B: SHA1 seed "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('totp', () => {
+  it('round-trips base32', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode(RFC_SECRET).toString()).toBe('12345678901234567890');
+  });
+
+  it('matches the RFC 6238 test vectors', () => {
+    const secret = base32Decode(RFC_SECRET);
+
+    expect(hotp(secret, Math.floor(59 / 30), 8)).toBe('94287082');
+    expect(hotp(secret, Math.floor(1111111109 / 30), 8)).toBe('07081804');
+    expect(hotp(secret, Math.floor(1234567890 / 30), 8)).toBe('89005924');
+  });
+
+  it('accepts codes from the adjacent steps only, returning the step', () => {
+    const now = 1111111109_000;
+    const step = Math.floor(1111111109 / 30);
+    const secret = base32Decode(RFC_SECRET);
+
+    expect(verifyTotp(RFC_SECRET, hotp(secret, step), now)).toBe(step);
+    expect(verifyTotp(RFC_SECRET, hotp(secret, step - 1), now)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, hotp(secret, step + 2), now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef', now)).toBeNull();
+  });
+
+  it('builds an otpauth URI for authenticator apps', () => {
+    expect(otpauthUri('Nest API Demo', 'admin', RFC_SECRET)).toBe(
+      'otpauth://totp/Nest%20API%20Demo%3Aadmin?secret=GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ&issuer=Nest+API+Demo&algorithm=SHA1&digits=6&period=30',
+    );
+  });
+
+  it('hashes recovery codes ignoring case and dashes', () => {
+    const codes = generateRecoveryCodes();
+
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    expect(codes[0]).toMatch(/^[A-Z2-7]{5}-[A-Z2-7]{5}$/);
+    expect(hashRecoveryCode(codes[0].toLowerCase().replace('-', ''))).toBe(
+      hashRecoveryCode(codes[0]),
+    );
+  });
+
+  it('encrypts secrets at rest', () => {
+    const stored = encryptSecret(RFC_SECRET, 'key');
+
+    expect(stored).not.toContain(RFC_SECRET);
+    expect(decryptSecret(stored, 'key')).toBe(RFC_SECRET);
+    expect(() => decryptSecret(stored, 'other key')).toThrow();
+  });
+});
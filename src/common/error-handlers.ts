@@ -9,7 +9,12 @@ import {
   CONNECTION_ERROR_ERRNOS,
   RETURN_DATABASE_ERROR_CODES,
 } from './error-codes';
-import { ResultNoData, ResultWithData, PaginationResult } from './result';
+import {
+  CursorPaginationResult,
+  ResultNoData,
+  ResultWithData,
+  PaginationResult,
+} from './result';
 
 /**
  * Interface for error handling result
@@ -71,7 +76,11 @@ export function handleDatabaseError(
  * @throws HttpException based on the error code
  */
 export function handleRepositoryError(
-  result: ResultWithData<any> | ResultNoData | PaginationResult<any>,
+  result:
+    | ResultWithData<any>
+    | ResultNoData
+    | PaginationResult<any>
+    | CursorPaginationResult<any>,
 ): void {
   if (!result.Success) {
     switch (result.ErrorCode) {
@@ -0,0 +1,64 @@
+import { Workbook } from 'exceljs';
+import {
+  ExportColumn,
+  rowsToCsv,
+  rowsToNdjson,
+  rowsToXlsx,
+} from './export-formats';
+
+type Row = { id: number; name: string; createdAt: Date | string };
+
+const columns: ExportColumn<Row>[] = [
+  { key: 'id', type: 'number' },
+  { key: 'name', type: 'string' },
+  { key: 'createdAt', type: 'date' },
+];
+
+const rows: Row[] = [
+  { id: 1, name: 'Sales', createdAt: new Date('2024-01-15T10:30:00.000Z') },
+  // e.g. rows coming back from the Redis cache
+  { id: 2, name: 'R&D, "Labs"', createdAt: '2024-02-01T08:00:00.000Z' },
+];
+
+describe('export formats', () => {
+  it('writes csv with only the configured columns, escaping values', () => {
+    const rowsWithSecret = rows.map((r) => ({ ...r, passwordHash: 'secret' }));
+
+    const csv = rowsToCsv(rowsWithSecret, columns.slice(0, 2));
+
+    expect(csv).toBe('id,name\r\n1,Sales\r\n2,"R&D, ""Labs"""');
+    expect(csv).not.toContain('secret');
+  });
+
+  it('writes one JSON object per line with only the selected columns', () => {
+    const ndjson = rowsToNdjson(rows, columns.slice(0, 2));
+
+    expect(ndjson.split('\n')).toEqual([
+      '{"id":1,"name":"Sales"}',
+      '{"id":2,"name":"R&D, \\"Labs\\""}',
+      '',
+    ]);
+  });
+
+  it('writes an xlsx sheet with a header row and typed date cells', async () => {
+    const buffer = await rowsToXlsx(rows, columns, 'Departments');
+
+    const workbook = new Workbook();
+    await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+    const sheet = workbook.getWorksheet('Departments');
+
+    expect(sheet?.getRow(1).values).toEqual([
+      undefined,
+      'id',
+      'name',
+      'createdAt',
+    ]);
+    expect(sheet?.getCell('A2').value).toBe(1);
+    expect(sheet?.getCell('C2').value).toEqual(
+      new Date('2024-01-15T10:30:00.000Z'),
+    );
+    expect(sheet?.getCell('C3').value).toEqual(
+      new Date('2024-02-01T08:00:00.000Z'),
+    );
+  });
+});
@@ -0,0 +1,141 @@
+import { StreamableFile } from '@nestjs/common';
+import { Workbook } from 'exceljs';
+import { csvEscape } from './tools';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'ndjson';
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+/**
+ * A column of a tabular export. Only the listed columns are written, so
+ * sensitive fields (e.g. passwordHash) are never exported by accident.
+ * `type` drives how the value is written in typed formats (XLSX); the other
+ * formats only use the key.
+ */
+export interface ExportColumn<T> {
+  key: Extract<keyof T, string>;
+  type: 'string' | 'number' | 'date';
+}
+
+/** A single CSV line (no line terminator) with the values of the given columns. */
+export function csvLine<T>(row: T, columns: ExportColumn<T>[]): string {
+  return columns.map((c) => csvEscape(row?.[c.key])).join(',');
+}
+
+/** CSV with a header row, CRLF line endings (RFC 4180). */
+export function rowsToCsv<T>(rows: T[], columns: ExportColumn<T>[]): string {
+  const header = columns.map((c) => c.key).join(',');
+  const lines = rows.map((r) => csvLine(r, columns));
+
+  return [header, ...lines].join('\r\n');
+}
+
+/** One JSON object per line (only the selected columns), newline terminated. */
+export function rowsToNdjson<T>(rows: T[], columns: ExportColumn<T>[]): string {
+  return rows
+    .map((r) => {
+      const line: Record<string, unknown> = {};
+      for (const c of columns) {
+        line[c.key] = r?.[c.key] ?? null;
+      }
+      return `${JSON.stringify(line)}\n`;
+    })
+    .join('');
+}
+
+/**
+ * Builds an Excel workbook with a single sheet. Date columns are written as
+ * real Excel dates (values may arrive as Date or as ISO strings, e.g. from cache).
+ */
+export async function rowsToXlsx<T>(
+  rows: T[],
+  columns: ExportColumn<T>[],
+  sheetName: string,
+): Promise<Buffer> {
+  const workbook = new Workbook();
+  const sheet = workbook.addWorksheet(sheetName);
+
+  sheet.columns = columns.map((c) => ({
+    header: c.key,
+    key: c.key,
+    width: c.type === 'date' ? 22 : c.type === 'number' ? 12 : 30,
+    style: c.type === 'date' ? { numFmt: 'yyyy-mm-dd hh:mm:ss' } : undefined,
+  }));
+  sheet.getRow(1).font = { bold: true };
+
+  for (const r of rows) {
+    const values: Record<string, unknown> = {};
+    for (const c of columns) {
+      values[c.key] = toCellValue(r?.[c.key], c.type);
+    }
+    sheet.addRow(values);
+  }
+
+  const data = await workbook.xlsx.writeBuffer();
+  return Buffer.from(data);
+}
+
+function toCellValue(
+  value: unknown,
+  type: ExportColumn<unknown>['type'],
+): string | number | Date | null {
+  if (value === null || value === undefined || value === '') return null;
+
+  if (type === 'date') {
+    const date =
+      value instanceof Date
+        ? value
+        : typeof value === 'string' || typeof value === 'number'
+          ? new Date(value)
+          : null;
+    return date && !Number.isNaN(date.getTime()) ? date : null;
+  }
+  if (type === 'number') {
+    const num = Number(value);
+    return Number.isNaN(num) ? null : num;
+  }
+
+  if (value instanceof Date) return value.toISOString();
+  return typeof value === 'object'
+    ? JSON.stringify(value)
+    : String(value as string | number | boolean);
+}
+
+/** Serializes rows in the given file format using the same column definitions. */
+export async function rowsToFile<T>(
+  rows: T[],
+  columns: ExportColumn<T>[],
+  format: ExportFormat,
+  sheetName: string,
+): Promise<Buffer | string> {
+  switch (format) {
+    case 'xlsx':
+      return rowsToXlsx(rows, columns, sheetName);
+    case 'ndjson':
+      return rowsToNdjson(rows, columns);
+    default:
+      return rowsToCsv(rows, columns);
+  }
+}
+
+/** Wraps an export payload as a file download named `<baseName>.<format>`. */
+export function exportFile(
+  payload: Buffer | string,
+  format: ExportFormat,
+  baseName: string,
+): StreamableFile {
+  // Prefix CSV with UTF-8 BOM to improve Excel compatibility
+  const body =
+    typeof payload === 'string'
+      ? Buffer.from(format === 'csv' ? `\uFEFF${payload}` : payload, 'utf8')
+      : payload;
+
+  return new StreamableFile(body, {
+    type: EXPORT_CONTENT_TYPES[format],
+    disposition: `attachment; filename="${baseName}.${format}"`,
+  });
+}
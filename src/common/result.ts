@@ -75,3 +75,36 @@ export class PaginationResult<T> {
     this.TotalPages = totalPages;
   }
 }
+
+// Keyset (cursor) pagination: opaque cursors to the neighbour pages instead of
+// page numbers. Total is null unless it was requested (it costs a COUNT(*)).
+export class CursorPaginationResult<T> {
+  public Success: boolean;
+  public Message: string;
+  public ErrorCode: number;
+  public PageSize: number;
+  public NextCursor: string | null;
+  public PrevCursor: string | null;
+  public Total: number | null;
+  public ReturnedObject: T | undefined;
+
+  constructor(
+    success: boolean = false,
+    message: string = '',
+    pageSize: number = 0,
+    nextCursor: string | null = null,
+    prevCursor: string | null = null,
+    total: number | null = null,
+    returnedObject?: T,
+    errorCode: number = 0,
+  ) {
+    this.Success = success;
+    this.Message = message;
+    this.ReturnedObject = returnedObject;
+    this.ErrorCode = errorCode;
+    this.PageSize = pageSize;
+    this.NextCursor = nextCursor;
+    this.PrevCursor = prevCursor;
+    this.Total = total;
+  }
+}
@@ -1,3 +1,5 @@
+import { BadRequestException } from '@nestjs/common';
+
 export function csvEscape(value: unknown): string {
   if (value === null || value === undefined) return '';
 
@@ -39,3 +41,179 @@ export function csvEscape(value: unknown): string {
   if (!needsQuotes) return text;
   return `"${text.replaceAll('"', '""')}"`;
 }
+
+/**
+ * Parses an optional ISO 8601 date query parameter.
+ * @throws BadRequestException if the value is not a valid date
+ */
+export function parseDateParam(
+  value: string | undefined,
+  name: string,
+): Date | undefined {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new BadRequestException(`Invalid ${name} date`);
+  }
+  return date;
+}
+
+/**
+ * Parses an optional comma separated query parameter (e.g. "ENGINEER,ADMIN")
+ * whose items must be one of `allowed`. Duplicates are dropped.
+ * @throws BadRequestException if an item is not allowed
+ */
+export function parseEnumListParam<T extends string>(
+  value: string | undefined,
+  name: string,
+  allowed: readonly T[],
+): T[] | undefined {
+  const items = splitListParam(value);
+  if (!items) return undefined;
+  const invalid = items.filter(
+    (i) => !(allowed as readonly string[]).includes(i),
+  );
+  if (invalid.length > 0) {
+    throw new BadRequestException(
+      `Invalid ${name}: ${invalid.join(', ')}. Allowed: ${allowed.join(', ')}`,
+    );
+  }
+  return items as T[];
+}
+
+/**
+ * Parses an optional comma separated list of positive integer ids (e.g. "1,4,7").
+ * @throws BadRequestException if an item is not a positive integer
+ */
+export function parseIdListParam(
+  value: string | undefined,
+  name: string,
+): number[] | undefined {
+  const items = splitListParam(value);
+  if (!items) return undefined;
+  const ids = items.map(Number);
+  if (ids.some((id) => !Number.isInteger(id) || id <= 0)) {
+    throw new BadRequestException(
+      `Invalid ${name}: expected positive integers`,
+    );
+  }
+  return ids;
+}
+
+/**
+ * Parses an optional "true"/"false" query parameter.
+ * @throws BadRequestException for any other value
+ */
+export function parseBooleanParam(
+  value: string | undefined,
+  name: string,
+): boolean | undefined {
+  if (value === undefined || value === '') return undefined;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  throw new BadRequestException(`Invalid ${name}: expected true or false`);
+}
+
+/** One column of a multi-column sort. */
+export interface SortSpec<T extends string> {
+  field: T;
+  order: 'ASC' | 'DESC';
+}
+
+/**
+ * Parses a multi-column sort such as "-createdAt,name": fields are applied in
+ * order, a leading "-" sorts that field descending.
+ * @throws BadRequestException on unknown or repeated fields
+ */
+export function parseSortParam<T extends string>(
+  value: string | undefined,
+  allowed: readonly T[],
+): SortSpec<T>[] | undefined {
+  const items = splitListParam(value);
+  if (!items) return undefined;
+
+  const sort: SortSpec<T>[] = [];
+  for (const item of items) {
+    const descending = item.startsWith('-');
+    const field = descending ? item.slice(1) : item;
+    if (!(allowed as readonly string[]).includes(field)) {
+      throw new BadRequestException(
+        `Invalid sort field: ${field}. Allowed: ${allowed.join(', ')}`,
+      );
+    }
+    if (sort.some((s) => s.field === field)) {
+      throw new BadRequestException(`Sort field repeated: ${field}`);
+    }
+    sort.push({ field: field as T, order: descending ? 'DESC' : 'ASC' });
+  }
+  return sort;
+}
+
+function splitListParam(value: string | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  const items = [
+    ...new Set(
+      value
+        .split(',')
+        .map((i) => i.trim())
+        .filter((i) => i !== ''),
+    ),
+  ];
+  return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Parses CSV text (RFC 4180-ish, the counterpart of csvEscape) into rows of fields.
+ * Handles quoted fields with embedded commas, quotes and newlines, CRLF/LF line
+ * endings and a leading UTF-8 BOM. Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\r') {
+      if (input[i + 1] === '\n') i++;
+      endRow();
+    } else if (ch === '\n') {
+      endRow();
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+}
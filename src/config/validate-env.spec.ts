@@ -0,0 +1,33 @@
+import { validateEnv } from './validate-env';
+
+describe('validateEnv', () => {
+  it('converts numbers and booleans and drops empty strings', () => {
+    expect(
+      validateEnv({ PORT: '3000', REDIS_ENABLED: 'TRUE', SMTP_HOST: '' }),
+    ).toMatchObject({ PORT: 3000, REDIS_ENABLED: true, SMTP_HOST: undefined });
+  });
+
+  it('requires the credential secrets in production', () => {
+    expect(() =>
+      validateEnv({ NODE_ENV: 'production', TOTP_ENCRYPTION_KEY: '' }),
+    ).toThrow(
+      'Missing required environment variables: TOTP_ENCRYPTION_KEY, ACCESS_TOKEN_SECRET',
+    );
+    expect(
+      validateEnv({
+        NODE_ENV: 'production',
+        TOTP_ENCRYPTION_KEY: 'k',
+        ACCESS_TOKEN_SECRET: 't',
+      }),
+    ).toMatchObject({ TOTP_ENCRYPTION_KEY: 'k', ACCESS_TOKEN_SECRET: 't' });
+  });
+
+  it('uses a development key elsewhere, never the session secret', () => {
+    const env = validateEnv({ NODE_ENV: 'development', SESSION_SECRET: 's' });
+
+    expect(env.TOTP_ENCRYPTION_KEY).toEqual(expect.any(String));
+    expect(env.TOTP_ENCRYPTION_KEY).not.toBe('s');
+    expect(env.ACCESS_TOKEN_SECRET).toEqual(expect.any(String));
+    expect(env.ACCESS_TOKEN_SECRET).not.toBe('s');
+  });
+});
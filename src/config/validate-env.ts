@@ -48,6 +48,8 @@ export function validateEnv(config: EnvLike): EnvLike {
     'DB_USERNAME',
     'DB_PASSWORD',
     'DB_DATABASE',
+    'DB_READ_HOSTS',
+    'DB_READ_STRATEGY',
     'REDIS_HOST',
     'REDIS_PASSWORD',
     'OCI_REGION',
@@ -60,6 +62,9 @@ export function validateEnv(config: EnvLike): EnvLike {
     'SMTP_PASS',
     'SMTP_HOST',
     'SMTP_FROM',
+    'TOTP_ENCRYPTION_KEY',
+    'TOTP_ISSUER',
+    'ACCESS_TOKEN_SECRET',
   ] as const;
 
   const numberKeys = [
@@ -79,10 +84,19 @@ export function validateEnv(config: EnvLike): EnvLike {
     'RABBITMQ_RETRY_QUEUE_MESSAGE_TTL_IN_SECONDS_MIN',
     'RABBITMQ_RETRY_QUEUE_MESSAGE_TTL_IN_SECONDS_MAX',
     'DB_PORT',
+    'DB_READ_EVICT_SECONDS',
+    'DB_READ_HEALTH_CHECK_SECONDS',
     'REDIS_PORT',
     'REDIS_DB',
     'SMTP_PORT',
     'CODE_EXPIRY_MINUTES',
+    'LOGIN_MAX_ATTEMPTS',
+    'CODE_MAX_ATTEMPTS',
+    'LOGIN_ATTEMPT_WINDOW_MINUTES',
+    'LOGIN_LOCKOUT_SECONDS',
+    'LOGIN_LOCKOUT_MAX_SECONDS',
+    'ACCESS_TOKEN_TTL_SECONDS',
+    'REFRESH_TOKEN_TTL_DAYS',
     'RABBITMQ_CONSUMER_INSTANCES_TO_START',
     'RABBITMQ_CONSUMER_MAX_RECONNECT_ATTEMPTS',
     'CACHE_TTL_SECONDS',
@@ -97,11 +111,29 @@ export function validateEnv(config: EnvLike): EnvLike {
     'REDIS_ENABLED',
     'RABBITMQ_CONSUMER_ENABLED',
     'CACHE_ENABLED',
+    'DB_MIGRATE_ON_STARTUP',
   ] as const;
 
+  // Keys that encrypt or sign credentials, with the value used when they're
+  // missing in development. In production they must be set.
+  const secretKeys: Record<string, string> = {
+    TOTP_ENCRYPTION_KEY: 'development-only-totp-encryption-key',
+    ACCESS_TOKEN_SECRET: 'development-only-access-token-secret',
+  };
+
   for (const key of stringKeys) next[key] = emptyToUndefined(next[key]);
   for (const key of numberKeys) next[key] = toOptionalNumber(next[key]);
   for (const key of booleanKeys) next[key] = toOptionalBoolean(next[key]);
 
+  const missingSecrets = Object.keys(secretKeys).filter(
+    (key) => next[key] === undefined,
+  );
+  if (next.NODE_ENV === 'production' && missingSecrets.length > 0) {
+    throw new Error(
+      `Missing required environment variables: ${missingSecrets.join(', ')}`,
+    );
+  }
+  for (const key of missingSecrets) next[key] = secretKeys[key];
+
   return next;
 }
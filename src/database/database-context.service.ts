@@ -5,6 +5,8 @@ import { PoolConnection } from 'mysql2/promise';
 interface DatabaseContext {
   hasWrite: boolean;
   connection?: PoolConnection;
+  /** Counter used to name savepoints of nested withTransaction() calls. */
+  savepoints: number;
 }
 
 /**
@@ -23,6 +25,7 @@ export class DatabaseContextService {
   run<T>(callback: () => T): T {
     const context: DatabaseContext = {
       hasWrite: false,
+      savepoints: 0,
     };
     return this.asyncLocalStorage.run(context, callback);
   }
@@ -75,4 +78,27 @@ export class DatabaseContextService {
       context.connection = connection;
     }
   }
+
+  /**
+   * Forget the connection and the write flag (the caller releases the connection).
+   */
+  clearConnection(): void {
+    const context = this.getContext();
+    if (context) {
+      context.connection = undefined;
+      context.hasWrite = false;
+    }
+  }
+
+  /**
+   * Unique savepoint name within the current context.
+   */
+  nextSavepoint(): string {
+    const context = this.getContext();
+    if (!context) {
+      throw new Error('[nextSavepoint] No database context');
+    }
+    context.savepoints += 1;
+    return `sp_${context.savepoints}`;
+  }
 }
@@ -0,0 +1,26 @@
+import { ConfigService } from '@nestjs/config';
+import { createPool, Pool, PoolOptions } from 'mysql2/promise';
+
+/**
+ * Creates the MySQL pool from the DB_* settings. Shared by the application
+ * (MysqlDatabaseService) and standalone scripts such as the migrations CLI.
+ * `overrides` is used for the read replica pools (host/port).
+ */
+export function createDatabasePool(
+  configService: ConfigService,
+  overrides: PoolOptions = {},
+): Pool {
+  return createPool({
+    host: configService.get<string>('DB_HOST', 'localhost'),
+    port: configService.get<number>('DB_PORT', 3306),
+    user: configService.get<string>('DB_USERNAME', 'root'),
+    password: configService.get<string>('DB_PASSWORD', ''),
+    database: configService.get<string>('DB_DATABASE', 'nest_api'),
+    waitForConnections: true,
+    connectionLimit: 10,
+    queueLimit: 0,
+
+    multipleStatements: true,
+    ...overrides,
+  });
+}
@@ -0,0 +1,243 @@
+import {
+  buildCursorQuery,
+  buildListQuery,
+  contains,
+  equals,
+  ListQueryDefinition,
+  decodeCursor,
+  encodeCursor,
+  oneOf,
+  toCursorPage,
+} from './list-query';
+
+type Filter = {
+  role?: string;
+  searchName?: string;
+  departmentId?: number;
+  departmentIds?: number[];
+};
+
+const definition: ListQueryDefinition<Filter, 'id' | 'name' | 'createdAt'> = {
+  table: 'Employee',
+  baseConditions: ['deletedAt IS NULL'],
+  filters: {
+    role: equals('role'),
+    searchName: contains('name'),
+    departmentId: (departmentId) =>
+      departmentId > 0
+        ? { sql: 'departmentId = ?', params: [departmentId] }
+        : null,
+    departmentIds: oneOf('departmentId'),
+  },
+  sortFields: { id: 'id', name: 'name', createdAt: 'createdAt' },
+  defaultSort: 'id',
+};
+
+describe('list query builder', () => {
+  it('binds every filter value and skips the empty ones', () => {
+    const query = buildListQuery(definition, {
+      filter: { role: "ENGINEER' OR 1=1 --", searchName: '', departmentId: 3 },
+      page: 2,
+      pageSize: 5,
+      sortBy: 'name',
+      sortOrder: 'DESC',
+    });
+
+    expect(query.sql).toBe(
+      'SELECT * FROM Employee WHERE deletedAt IS NULL AND role = ? AND departmentId = ? ORDER BY name DESC, id DESC LIMIT 5 OFFSET 5',
+    );
+    expect(query.params).toEqual(["ENGINEER' OR 1=1 --", 3]);
+    expect(query.countSql).toBe(
+      'SELECT COUNT(*) AS count FROM Employee WHERE deletedAt IS NULL AND role = ? AND departmentId = ?',
+    );
+  });
+
+  it('falls back to the default sort for fields outside the whitelist', () => {
+    const query = buildListQuery(definition, {
+      filter: {},
+      sortBy: 'name; DROP TABLE Employee',
+      sortOrder: 'sideways' as 'ASC',
+    });
+
+    expect(query.sql).toBe(
+      'SELECT * FROM Employee WHERE deletedAt IS NULL ORDER BY id ASC LIMIT 10 OFFSET 0',
+    );
+    expect(query.page).toBe(1);
+    expect(query.pageSize).toBe(10);
+  });
+
+  it('escapes LIKE wildcards in contains() values', () => {
+    const query = buildListQuery(definition, {
+      filter: { searchName: '100%_a' },
+    });
+
+    expect(query.params).toEqual(['%100\\%\\_a%']);
+  });
+
+  it('binds IN lists and skips empty ones', () => {
+    const query = buildListQuery(definition, {
+      filter: { departmentIds: [1, 4, 7] },
+    });
+    const empty = buildListQuery(definition, { filter: { departmentIds: [] } });
+
+    expect(query.countSql).toBe(
+      'SELECT COUNT(*) AS count FROM Employee WHERE deletedAt IS NULL AND departmentId IN (?, ?, ?)',
+    );
+    expect(query.countParams).toEqual([1, 4, 7]);
+    expect(empty.countSql).toBe(
+      'SELECT COUNT(*) AS count FROM Employee WHERE deletedAt IS NULL',
+    );
+  });
+
+  it('sorts by several columns in order, with id as the last tie-breaker', () => {
+    const query = buildListQuery(definition, {
+      filter: {},
+      sort: [
+        { field: 'createdAt', order: 'DESC' },
+        { field: 'name', order: 'ASC' },
+      ],
+    });
+
+    expect(query.sql).toContain('ORDER BY createdAt DESC, name ASC, id ASC');
+  });
+
+  describe('cursor pagination', () => {
+    const sort = [{ field: 'createdAt', order: 'DESC' as const }];
+    const rows = [
+      { id: 9, createdAt: new Date('2024-03-01T00:00:00.000Z') },
+      { id: 7, createdAt: new Date('2024-02-01T00:00:00.000Z') },
+      { id: 4, createdAt: new Date('2024-02-01T00:00:00.000Z') },
+    ];
+
+    it('reads the first page without OFFSET and fetches one extra row', () => {
+      const query = buildCursorQuery(
+        definition,
+        { filter: {}, pageSize: 2, sort },
+        null,
+      );
+
+      expect(query.sql).toBe(
+        'SELECT * FROM Employee WHERE deletedAt IS NULL ORDER BY createdAt DESC, id DESC LIMIT 3',
+      );
+
+      const page = toCursorPage(rows, query, false);
+      expect(page.rows.map((r) => r.id)).toEqual([9, 7]);
+      expect(page.prevCursor).toBeNull();
+      expect(decodeCursor(page.nextCursor as string)).toEqual({
+        order: '-createdAt,-id',
+        values: [new Date('2024-02-01T00:00:00.000Z'), 7],
+        direction: 'next',
+      });
+    });
+
+    it('continues after the cursor row, breaking ties on id', () => {
+      const cursor = decodeCursor(
+        encodeCursor({
+          order: '-createdAt,-id',
+          values: [new Date('2024-02-01T00:00:00.000Z'), 7],
+          direction: 'next',
+        }),
+      );
+
+      const query = buildCursorQuery(
+        definition,
+        { filter: {}, pageSize: 2, sort },
+        cursor,
+      );
+
+      expect(query.sql).toBe(
+        'SELECT * FROM Employee WHERE deletedAt IS NULL AND ((createdAt < ?) OR (createdAt = ? AND id < ?)) ORDER BY createdAt DESC, id DESC LIMIT 3',
+      );
+      expect(query.params).toEqual([
+        new Date('2024-02-01T00:00:00.000Z'),
+        new Date('2024-02-01T00:00:00.000Z'),
+        7,
+      ]);
+    });
+
+    it('reads backwards for a prev cursor and restores the order', () => {
+      const query = buildCursorQuery(
+        definition,
+        { filter: {}, pageSize: 2, sortBy: 'name' },
+        { order: 'name,id', values: ['M', 5], direction: 'prev' },
+      );
+
+      expect(query.sql).toContain(
+        '((name < ?) OR (name = ? AND id < ?)) ORDER BY name DESC, id DESC',
+      );
+
+      const page = toCursorPage(
+        [
+          { id: 3, name: 'K' },
+          { id: 2, name: 'B' },
+        ],
+        query,
+        true,
+      );
+      expect(page.rows.map((r) => r.id)).toEqual([2, 3]);
+      expect(page.nextCursor).not.toBeNull();
+      expect(page.prevCursor).toBeNull();
+    });
+
+    it('orders and compares a sort expression the same way, reading the row column', () => {
+      const withRole: ListQueryDefinition<Filter, 'id' | 'role'> = {
+        ...definition,
+        sortFields: {
+          id: 'id',
+          role: { column: 'role', expression: 'CAST(role AS CHAR)' },
+        },
+        defaultSort: 'id',
+      };
+
+      const first = buildCursorQuery(
+        withRole,
+        { filter: {}, pageSize: 1, sortBy: 'role' },
+        null,
+      );
+      expect(first.sql).toContain('ORDER BY CAST(role AS CHAR) ASC, id ASC');
+      expect(
+        buildListQuery(withRole, { filter: {}, sortBy: 'role' }).sql,
+      ).toContain('ORDER BY CAST(role AS CHAR) ASC, id ASC');
+
+      const page = toCursorPage(
+        [
+          { id: 4, role: 'ADMIN' },
+          { id: 2, role: 'ENGINEER' },
+        ],
+        first,
+        false,
+      );
+      const cursor = decodeCursor(page.nextCursor as string);
+      expect(cursor).toEqual({
+        order: 'role,id',
+        values: ['ADMIN', 4],
+        direction: 'next',
+      });
+
+      const next = buildCursorQuery(
+        withRole,
+        { filter: {}, pageSize: 1, sortBy: 'role' },
+        cursor,
+      );
+      expect(next.sql).toContain(
+        '((CAST(role AS CHAR) > ?) OR (CAST(role AS CHAR) = ? AND id > ?)) ORDER BY CAST(role AS CHAR) ASC, id ASC',
+      );
+      expect(next.params).toEqual(['ADMIN', 'ADMIN', 4]);
+    });
+
+    it('rejects malformed cursors and cursors of another sort', () => {
+      expect(decodeCursor('not-a-cursor')).toBeNull();
+      expect(() =>
+        buildCursorQuery(
+          definition,
+          { filter: {}, sortBy: 'name' },
+          {
+            order: '-createdAt,-id',
+            values: [new Date(), 1],
+            direction: 'next',
+          },
+        ),
+      ).toThrow();
+    });
+  });
+});
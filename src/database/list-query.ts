@@ -0,0 +1,405 @@
+/**
+ * Typed listing engine: builds paginated SELECT statements from a per-entity
+ * definition of the allowed filters and sort fields. Only whitelisted column
+ * names are ever written into the SQL; every value is a bound parameter.
+ */
+import { SortSpec } from 'src/common/tools';
+
+/** A fragment of a WHERE clause with its bound parameters. */
+export interface SqlCondition {
+  sql: string;
+  params: unknown[];
+}
+
+/**
+ * Builds the condition for one filter value. Called only when the value is
+ * set (not undefined/null/empty string/empty array); may return null to skip
+ * the filter.
+ */
+export type FilterBuilder<TFilter, TValue> = (
+  value: TValue,
+  filter: TFilter,
+) => SqlCondition | null;
+
+/**
+ * A sort field ordered by an SQL expression rather than the bare column, e.g.
+ * `CAST(role AS CHAR)` for an ENUM: MySQL orders ENUMs by their index but
+ * compares them with a cursor value as strings, so cursor pages would skip or
+ * repeat rows. The expression is used both to order and in cursor conditions;
+ * `column` is the row property the cursor values are read from.
+ */
+export interface SortExpression {
+  column: string;
+  expression: string;
+}
+
+export interface ListQueryDefinition<TFilter, TSort extends string> {
+  /** Table (or view) to list from. */
+  table: string;
+  /** Conditions that always apply, e.g. `deletedAt IS NULL`. */
+  baseConditions?: string[];
+  /** Allowed filters, keyed by filter field. */
+  filters: {
+    [K in keyof TFilter]?: FilterBuilder<TFilter, NonNullable<TFilter[K]>>;
+  };
+  /** Allowed sort fields mapped to their column (or expression). */
+  sortFields: Record<TSort, string | SortExpression>;
+  defaultSort: TSort;
+}
+
+export interface ListQueryOptions<TFilter> {
+  filter: TFilter;
+  page?: number;
+  pageSize?: number;
+  /** Multi-column sort; when set, `sortBy`/`sortOrder` are ignored. */
+  sort?: SortSpec<string>[];
+  sortBy?: string;
+  sortOrder?: 'ASC' | 'DESC';
+}
+
+export interface ListQuery {
+  page: number;
+  pageSize: number;
+  /** SELECT of the requested page. */
+  sql: string;
+  params: unknown[];
+  /** COUNT(*) of every matching row (same filters, no paging). */
+  countSql: string;
+  countParams: unknown[];
+}
+
+export const DEFAULT_PAGE_SIZE = 10;
+
+/** Column equals the value. */
+export function equals(column: string): FilterBuilder<unknown, unknown> {
+  return (value) => ({ sql: `${column} = ?`, params: [value] });
+}
+
+/** Column is one of the values. */
+export function oneOf(column: string): FilterBuilder<unknown, unknown[]> {
+  return (values) => ({
+    sql: `${column} IN (${values.map(() => '?').join(', ')})`,
+    params: values,
+  });
+}
+
+/** Column is on or after the date. */
+export function from(column: string): FilterBuilder<unknown, Date> {
+  return (value) => ({ sql: `${column} >= ?`, params: [value] });
+}
+
+/** Column is on or before the date. */
+export function to(column: string): FilterBuilder<unknown, Date> {
+  return (value) => ({ sql: `${column} <= ?`, params: [value] });
+}
+
+/** Column contains the value (LIKE with `%` and `_` in the value escaped). */
+export function contains(column: string): FilterBuilder<unknown, string> {
+  return (value) => ({
+    sql: `${column} LIKE ?`,
+    params: [`%${value.replace(/[\\%_]/g, (c) => `\\${c}`)}%`],
+  });
+}
+
+/** Whether a sort field is in the definition's whitelist. */
+export function isSortField<TSort extends string>(
+  definition: ListQueryDefinition<unknown, TSort>,
+  sortBy: string | undefined,
+): sortBy is TSort {
+  return (
+    sortBy !== undefined && Object.keys(definition.sortFields).includes(sortBy)
+  );
+}
+
+/** The WHERE conditions (base + every set filter) for a filter object. */
+export function buildConditions<TFilter, TSort extends string>(
+  definition: ListQueryDefinition<TFilter, TSort>,
+  filter: TFilter,
+): SqlCondition {
+  const conditions = [...(definition.baseConditions ?? [])];
+  const params: unknown[] = [];
+
+  for (const key of Object.keys(definition.filters) as (keyof TFilter)[]) {
+    const value = filter[key];
+    if (value === undefined || value === null || value === '') continue;
+    if (Array.isArray(value) && value.length === 0) continue;
+
+    const builder = definition.filters[key] as FilterBuilder<
+      TFilter,
+      NonNullable<TFilter[keyof TFilter]>
+    >;
+    const condition = builder(value, filter);
+    if (condition) {
+      conditions.push(condition.sql);
+      params.push(...condition.params);
+    }
+  }
+
+  return {
+    sql: conditions.length > 0 ? conditions.join(' AND ') : '1=1',
+    params,
+  };
+}
+
+/** One ORDER BY term: a whitelisted column, what to order by and the direction. */
+interface OrderTerm {
+  column: string;
+  expression: string;
+  direction: 'ASC' | 'DESC';
+}
+
+/**
+ * The ORDER BY terms for the requested sort. Sort fields outside the whitelist
+ * are skipped (the default sort is used when none is left), and `id` is always
+ * added as tie-breaker so the order is total and pages are stable.
+ */
+function resolveOrder<TFilter, TSort extends string>(
+  definition: ListQueryDefinition<TFilter, TSort>,
+  options: Pick<ListQueryOptions<TFilter>, 'sort' | 'sortBy' | 'sortOrder'>,
+): OrderTerm[] {
+  const requested: SortSpec<string>[] =
+    options.sort && options.sort.length > 0
+      ? options.sort
+      : options.sortBy
+        ? [{ field: options.sortBy, order: options.sortOrder ?? 'ASC' }]
+        : [];
+  const sort = requested.filter((s) => isSortField(definition, s.field));
+  if (sort.length === 0) {
+    sort.push({
+      field: definition.defaultSort,
+      order: requested[0]?.order ?? options.sortOrder ?? 'ASC',
+    });
+  }
+
+  const order: OrderTerm[] = sort.map((s) => {
+    const field: string | SortExpression =
+      definition.sortFields[s.field as TSort];
+    const { column, expression } =
+      typeof field === 'string' ? { column: field, expression: field } : field;
+    return {
+      column,
+      expression,
+      direction: s.order?.toUpperCase() === 'DESC' ? 'DESC' : 'ASC',
+    };
+  });
+  if (!order.some((o) => o.column === 'id')) {
+    order.push({
+      column: 'id',
+      expression: 'id',
+      direction: order[order.length - 1].direction,
+    });
+  }
+  return order;
+}
+
+function pageSizeOf(pageSize: number | undefined): number {
+  return pageSize && pageSize > 0 ? Math.floor(pageSize) : DEFAULT_PAGE_SIZE;
+}
+
+/** Builds the page and count statements (offset pagination). */
+export function buildListQuery<TFilter, TSort extends string>(
+  definition: ListQueryDefinition<TFilter, TSort>,
+  options: ListQueryOptions<TFilter>,
+): ListQuery {
+  const page = options.page && options.page > 0 ? Math.floor(options.page) : 1;
+  const pageSize = pageSizeOf(options.pageSize);
+  const offset = (page - 1) * pageSize;
+
+  const where = buildConditions(definition, options.filter);
+  const orderBy = resolveOrder(definition, options)
+    .map((o) => `${o.expression} ${o.direction}`)
+    .join(', ');
+
+  // LIMIT/OFFSET are sanitized integers (prepared statements don't accept them as placeholders reliably)
+  return {
+    page,
+    pageSize,
+    sql: `SELECT * FROM ${definition.table} WHERE ${where.sql} ORDER BY ${orderBy} LIMIT ${pageSize} OFFSET ${offset}`,
+    params: where.params,
+    countSql: `SELECT COUNT(*) AS count FROM ${definition.table} WHERE ${where.sql}`,
+    countParams: [...where.params],
+  };
+}
+
+/**
+ * Decoded cursor: the sort key values of a boundary row and which way to read
+ * from it. `order` identifies the sort it was issued for (e.g. "-createdAt,id").
+ */
+export interface ListCursor {
+  order: string;
+  values: unknown[];
+  direction: 'next' | 'prev';
+}
+
+export interface CursorListQuery {
+  pageSize: number;
+  /** SELECT of up to pageSize + 1 rows (the extra row tells if there are more). */
+  sql: string;
+  params: unknown[];
+  countSql: string;
+  countParams: unknown[];
+  /** Rows come back in reverse order when reading backwards (prev cursor). */
+  reversed: boolean;
+  order: OrderTerm[];
+}
+
+export interface CursorPage<T> {
+  rows: T[];
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+function orderKey(order: OrderTerm[]): string {
+  return order
+    .map((o) => `${o.direction === 'DESC' ? '-' : ''}${o.column}`)
+    .join(',');
+}
+
+/** Opaque, URL-safe cursor for a row (dates survive the round trip). */
+export function encodeCursor(cursor: ListCursor): string {
+  const values = cursor.values.map((v) =>
+    v instanceof Date ? { $date: v.toISOString() } : v,
+  );
+  return Buffer.from(
+    JSON.stringify({ o: cursor.order, v: values, d: cursor.direction }),
+  ).toString('base64url');
+}
+
+/** The decoded cursor, or null if it is malformed. */
+export function decodeCursor(value: string): ListCursor | null {
+  try {
+    const raw = JSON.parse(
+      Buffer.from(value, 'base64url').toString('utf8'),
+    ) as {
+      o?: unknown;
+      v?: unknown;
+      d?: unknown;
+    };
+    if (
+      typeof raw.o !== 'string' ||
+      !Array.isArray(raw.v) ||
+      (raw.d !== 'next' && raw.d !== 'prev')
+    ) {
+      return null;
+    }
+    const values = raw.v.map((v: unknown) =>
+      v !== null && typeof v === 'object' && '$date' in v
+        ? new Date(String((v as { $date: unknown }).$date))
+        : v,
+    );
+    return { order: raw.o, values, direction: raw.d };
+  } catch {
+    return null;
+  }
+}
+
+/** Whether a cursor was issued for this sort (cursors of another sort are rejected). */
+export function cursorMatchesSort<TFilter, TSort extends string>(
+  definition: ListQueryDefinition<TFilter, TSort>,
+  options: Pick<ListQueryOptions<TFilter>, 'sort' | 'sortBy' | 'sortOrder'>,
+  cursor: ListCursor,
+): boolean {
+  const order = resolveOrder(definition, options);
+  return (
+    cursor.order === orderKey(order) && cursor.values.length === order.length
+  );
+}
+
+/**
+ * Builds a keyset (cursor) page: rows strictly after (or, for a prev cursor,
+ * before) the cursor row in the sort order, without OFFSET, so deep pages stay
+ * cheap and rows inserted meanwhile don't shift the pages.
+ * Sort columns must be NOT NULL (true for every whitelisted one).
+ * @throws Error if the cursor was issued for a different sort (check with cursorMatchesSort first)
+ */
+export function buildCursorQuery<TFilter, TSort extends string>(
+  definition: ListQueryDefinition<TFilter, TSort>,
+  options: Omit<ListQueryOptions<TFilter>, 'page'>,
+  cursor: ListCursor | null,
+): CursorListQuery {
+  const pageSize = pageSizeOf(options.pageSize);
+  const order = resolveOrder(definition, options);
+  const where = buildConditions(definition, options.filter);
+
+  if (cursor && !cursorMatchesSort(definition, options, cursor)) {
+    throw new Error('Cursor does not match the requested sort');
+  }
+
+  const reversed = cursor?.direction === 'prev';
+  const conditions = [where.sql];
+  const params = [...where.params];
+
+  if (cursor) {
+    // (c1 > v1) OR (c1 = v1 AND c2 > v2) OR ... with each column's direction
+    const alternatives: string[] = [];
+    order.forEach((term, i) => {
+      const ascending = (term.direction === 'ASC') !== reversed;
+      const parts = order
+        .slice(0, i)
+        .map((previous) => `${previous.expression} = ?`);
+      parts.push(`${term.expression} ${ascending ? '>' : '<'} ?`);
+      alternatives.push(`(${parts.join(' AND ')})`);
+      params.push(...cursor.values.slice(0, i + 1));
+    });
+    conditions.push(`(${alternatives.join(' OR ')})`);
+  }
+
+  const orderBy = order
+    .map((o) => {
+      const direction = reversed
+        ? o.direction === 'ASC'
+          ? 'DESC'
+          : 'ASC'
+        : o.direction;
+      return `${o.expression} ${direction}`;
+    })
+    .join(', ');
+
+  // LIMIT is a sanitized integer (prepared statements don't accept it as a placeholder reliably)
+  return {
+    pageSize,
+    sql: `SELECT * FROM ${definition.table} WHERE ${conditions.join(' AND ')} ORDER BY ${orderBy} LIMIT ${pageSize + 1}`,
+    params,
+    countSql: `SELECT COUNT(*) AS count FROM ${definition.table} WHERE ${where.sql}`,
+    countParams: [...where.params],
+    reversed,
+    order,
+  };
+}
+
+/**
+ * Turns the rows of a cursor query into a page with its neighbour cursors.
+ * `hadCursor` is false for the first page (no previous page then).
+ */
+export function toCursorPage<T extends object>(
+  rows: T[],
+  query: CursorListQuery,
+  hadCursor: boolean,
+): CursorPage<T> {
+  const hasMore = rows.length > query.pageSize;
+  const page = rows.slice(0, query.pageSize);
+  if (query.reversed) {
+    page.reverse();
+  }
+
+  const cursorFor = (row: T, direction: ListCursor['direction']) =>
+    encodeCursor({
+      order: orderKey(query.order),
+      values: query.order.map(
+        (o) => (row as Record<string, unknown>)[o.column],
+      ),
+      direction,
+    });
+
+  const hasNext = query.reversed ? hadCursor : hasMore;
+  const hasPrev = query.reversed ? hasMore : hadCursor;
+
+  return {
+    rows: page,
+    nextCursor:
+      hasNext && page.length > 0
+        ? cursorFor(page[page.length - 1], 'next')
+        : null,
+    prevCursor: hasPrev && page.length > 0 ? cursorFor(page[0], 'prev') : null,
+  };
+}
@@ -0,0 +1,247 @@
+import { PoolConnection } from 'mysql2/promise';
+import { columnExists, foreignKeyExists, indexExists } from './migration';
+
+/**
+ * Baseline schema: AuditLog, Department, Employee and Users.
+ *
+ * Databases created before the migration runner have these tables without a
+ * SchemaMigrations row, so every step is idempotent and brings an older
+ * schema up to date (MySQL doesn't alter existing tables when using
+ * CREATE TABLE IF NOT EXISTS).
+ */
+export async function up(connection: PoolConnection): Promise<void> {
+  await connection.query(`
+    CREATE TABLE IF NOT EXISTS AuditLog (
+      id BIGINT AUTO_INCREMENT PRIMARY KEY,
+      eventType VARCHAR(100) NOT NULL,
+      entityType VARCHAR(50) NOT NULL,
+      entityId VARCHAR(64) NOT NULL,
+      actorUserId VARCHAR(64) NULL,
+      actorType VARCHAR(20) NULL,
+      ip VARCHAR(45) NULL,
+      userAgent VARCHAR(1024) NULL,
+      data JSON NULL,
+      createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      INDEX idx_entity (entityType, entityId),
+      INDEX idx_entity_createdAt (entityType, entityId, createdAt),
+      INDEX idx_actor (actorUserId),
+      INDEX idx_createdAt (createdAt)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+  `);
+
+  const [userAgentRows] = await connection.query(`
+    SELECT CHARACTER_MAXIMUM_LENGTH AS maxLen
+    FROM INFORMATION_SCHEMA.COLUMNS
+    WHERE TABLE_SCHEMA = DATABASE()
+      AND TABLE_NAME = 'AuditLog'
+      AND COLUMN_NAME = 'userAgent'
+  `);
+  const userAgentLen = Number(
+    (userAgentRows as Array<{ maxLen: number | null }>)[0]?.maxLen ?? 0,
+  );
+  if (userAgentLen > 0 && userAgentLen < 1024) {
+    await connection.query(
+      `ALTER TABLE AuditLog MODIFY COLUMN userAgent VARCHAR(1024) NULL`,
+    );
+  }
+  if (!(await indexExists(connection, 'AuditLog', 'idx_entity_createdAt'))) {
+    await connection.query(
+      `CREATE INDEX idx_entity_createdAt ON AuditLog (entityType, entityId, createdAt)`,
+    );
+  }
+
+  await connection.query(`
+    CREATE TABLE IF NOT EXISTS Department (
+      id INT AUTO_INCREMENT PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      parentId INT NULL,
+      managerEmployeeId INT NULL,
+      createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updatedAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      INDEX idx_parentId (parentId),
+      INDEX idx_managerEmployeeId (managerEmployeeId),
+      CONSTRAINT fk_department_parent
+        FOREIGN KEY (parentId)
+        REFERENCES Department(id)
+        ON UPDATE CASCADE
+        ON DELETE SET NULL
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+  `);
+
+  const departmentColumns: Array<[string, string]> = [
+    ['createdAt', 'DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP'],
+    [
+      'updatedAt',
+      'DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP',
+    ],
+    // Department hierarchy (self-reference to the parent department)
+    ['parentId', 'INT NULL'],
+  ];
+  for (const [column, definition] of departmentColumns) {
+    if (!(await columnExists(connection, 'Department', column))) {
+      await connection.query(
+        `ALTER TABLE Department ADD COLUMN ${column} ${definition}`,
+      );
+    }
+  }
+  if (!(await indexExists(connection, 'Department', 'idx_parentId'))) {
+    await connection.query(
+      `CREATE INDEX idx_parentId ON Department (parentId)`,
+    );
+  }
+  if (
+    !(await foreignKeyExists(connection, 'Department', 'fk_department_parent'))
+  ) {
+    await connection.query(`
+      ALTER TABLE Department
+      ADD CONSTRAINT fk_department_parent
+        FOREIGN KEY (parentId)
+        REFERENCES Department(id)
+        ON UPDATE CASCADE
+        ON DELETE SET NULL
+    `);
+  }
+
+  await connection.query(`
+    CREATE TABLE IF NOT EXISTS Employee (
+      id INT AUTO_INCREMENT PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      email VARCHAR(255) NOT NULL UNIQUE,
+      role ENUM('INTERN', 'ENGINEER', 'ADMIN') NOT NULL,
+      departmentId INT NULL,
+      managerId INT NULL,
+      photoUrl VARCHAR(2048) NULL,
+      createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updatedAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      deletedAt DATETIME NULL,
+      deletedBy VARCHAR(64) NULL,
+      INDEX idx_role (role),
+      INDEX idx_email (email),
+      INDEX idx_departmentId (departmentId),
+      INDEX idx_deletedAt (deletedAt),
+      INDEX idx_managerId (managerId),
+      CONSTRAINT fk_employee_department
+        FOREIGN KEY (departmentId)
+        REFERENCES Department(id)
+        ON UPDATE CASCADE
+        ON DELETE SET NULL,
+      CONSTRAINT fk_employee_manager
+        FOREIGN KEY (managerId)
+        REFERENCES Employee(id)
+        ON UPDATE CASCADE
+        ON DELETE SET NULL
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+  `);
+
+  const employeeColumns: Array<[string, string]> = [
+    ['photoUrl', 'VARCHAR(2048) NULL'],
+    ['departmentId', 'INT NULL'],
+    // Soft delete columns: rows are marked as deleted instead of being removed
+    ['deletedAt', 'DATETIME NULL'],
+    ['deletedBy', 'VARCHAR(64) NULL'],
+  ];
+  for (const [column, definition] of employeeColumns) {
+    if (!(await columnExists(connection, 'Employee', column))) {
+      await connection.query(
+        `ALTER TABLE Employee ADD COLUMN ${column} ${definition}`,
+      );
+    }
+  }
+  for (const [index, column] of [
+    ['idx_departmentId', 'departmentId'],
+    ['idx_deletedAt', 'deletedAt'],
+  ]) {
+    if (!(await indexExists(connection, 'Employee', index))) {
+      await connection.query(`CREATE INDEX ${index} ON Employee (${column})`);
+    }
+  }
+  if (
+    !(await foreignKeyExists(connection, 'Employee', 'fk_employee_department'))
+  ) {
+    // Sanitize existing invalid values before enforcing the constraint
+    await connection.query(`
+      UPDATE Employee e
+      LEFT JOIN Department d ON e.departmentId = d.id
+      SET e.departmentId = NULL
+      WHERE e.departmentId IS NOT NULL
+        AND d.id IS NULL
+    `);
+    await connection.query(`
+      ALTER TABLE Employee
+      ADD CONSTRAINT fk_employee_department
+        FOREIGN KEY (departmentId)
+        REFERENCES Department(id)
+        ON UPDATE CASCADE
+        ON DELETE SET NULL
+    `);
+  }
+
+  // Reporting lines: Employee.managerId and Department.managerEmployeeId both reference Employee.
+  // (Checked after the Employee table exists, since Department is created first.)
+  const reportingColumns = [
+    {
+      table: 'Employee',
+      column: 'managerId',
+      index: 'idx_managerId',
+      fk: 'fk_employee_manager',
+    },
+    {
+      table: 'Department',
+      column: 'managerEmployeeId',
+      index: 'idx_managerEmployeeId',
+      fk: 'fk_department_manager',
+    },
+  ];
+  for (const { table, column, index, fk } of reportingColumns) {
+    if (!(await columnExists(connection, table, column))) {
+      await connection.query(
+        `ALTER TABLE ${table} ADD COLUMN ${column} INT NULL`,
+      );
+    }
+    if (!(await indexExists(connection, table, index))) {
+      await connection.query(`CREATE INDEX ${index} ON ${table} (${column})`);
+    }
+    if (!(await foreignKeyExists(connection, table, fk))) {
+      await connection.query(`
+        ALTER TABLE ${table}
+        ADD CONSTRAINT ${fk}
+          FOREIGN KEY (${column})
+          REFERENCES Employee(id)
+          ON UPDATE CASCADE
+          ON DELETE SET NULL
+      `);
+    }
+  }
+
+  await connection.query(`
+    CREATE TABLE IF NOT EXISTS Users (
+      id BINARY(16) PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      username VARCHAR(255) NOT NULL UNIQUE,
+      email VARCHAR(255) NOT NULL UNIQUE,
+      passwordHash VARCHAR(255) NOT NULL,
+      type ENUM('user', 'admin') NOT NULL DEFAULT 'user',
+      createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updatedAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      INDEX idx_type (type),
+      INDEX idx_email (email),
+      INDEX idx_username (username)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+  `);
+}
+
+export async function down(connection: PoolConnection): Promise<void> {
+  // Department.managerEmployeeId references Employee, Employee.departmentId
+  // references Department: break the cycle before dropping the tables.
+  if (
+    await foreignKeyExists(connection, 'Department', 'fk_department_manager')
+  ) {
+    await connection.query(
+      `ALTER TABLE Department DROP FOREIGN KEY fk_department_manager`,
+    );
+  }
+  await connection.query(`DROP TABLE IF EXISTS Users`);
+  await connection.query(`DROP TABLE IF EXISTS Employee`);
+  await connection.query(`DROP TABLE IF EXISTS Department`);
+  await connection.query(`DROP TABLE IF EXISTS AuditLog`);
+}
@@ -0,0 +1,7 @@
+-- Listings are built in TypeScript now (src/database/list-query.ts);
+-- drop the stored procedures older versions created.
+-- No down section: the procedures are not coming back.
+
+-- migrate:up
+DROP PROCEDURE IF EXISTS Employees_List;
+DROP PROCEDURE IF EXISTS Departments_List;
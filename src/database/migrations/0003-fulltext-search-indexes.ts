@@ -0,0 +1,31 @@
+import { PoolConnection } from 'mysql2/promise';
+import { indexExists } from './migration';
+
+// Full-text search (GET /api/search): employee name/email and department name
+const FULLTEXT_INDEXES = [
+  {
+    table: 'Employee',
+    index: 'ft_employee_name_email',
+    columns: 'name, email',
+  },
+  { table: 'Department', index: 'ft_department_name', columns: 'name' },
+];
+
+export async function up(connection: PoolConnection): Promise<void> {
+  for (const { table, index, columns } of FULLTEXT_INDEXES) {
+    // Databases that ran the pre-migration startup code already have them
+    if (!(await indexExists(connection, table, index))) {
+      await connection.query(
+        `CREATE FULLTEXT INDEX ${index} ON ${table} (${columns})`,
+      );
+    }
+  }
+}
+
+export async function down(connection: PoolConnection): Promise<void> {
+  for (const { table, index } of FULLTEXT_INDEXES) {
+    if (await indexExists(connection, table, index)) {
+      await connection.query(`DROP INDEX ${index} ON ${table}`);
+    }
+  }
+}
@@ -0,0 +1,33 @@
+-- Authenticator-app (TOTP) second factor: one secret per user, stored
+-- encrypted, plus hashed one-time recovery codes.
+
+-- migrate:up
+CREATE TABLE UserTotp (
+  userId BINARY(16) PRIMARY KEY,
+  secret VARCHAR(255) NOT NULL,
+  confirmedAt DATETIME NULL,
+  lastUsedStep BIGINT NULL,
+  createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updatedAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  CONSTRAINT fk_user_totp_user
+    FOREIGN KEY (userId)
+    REFERENCES Users(id)
+    ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE UserRecoveryCode (
+  id BIGINT AUTO_INCREMENT PRIMARY KEY,
+  userId BINARY(16) NOT NULL,
+  codeHash CHAR(64) NOT NULL,
+  usedAt DATETIME NULL,
+  createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE INDEX idx_user_code (userId, codeHash),
+  CONSTRAINT fk_user_recovery_code_user
+    FOREIGN KEY (userId)
+    REFERENCES Users(id)
+    ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- migrate:down
+DROP TABLE IF EXISTS UserRecoveryCode;
+DROP TABLE IF EXISTS UserTotp;
@@ -0,0 +1,24 @@
+-- Refresh tokens for bearer authentication. Only a hash of each token is
+-- stored; tokens rotated from the same login share a familyId, so a reused
+-- token can revoke its whole chain.
+
+-- migrate:up
+CREATE TABLE RefreshToken (
+  id BIGINT AUTO_INCREMENT PRIMARY KEY,
+  tokenHash CHAR(64) NOT NULL,
+  familyId CHAR(36) NOT NULL,
+  userId BINARY(16) NOT NULL,
+  expiresAt DATETIME NOT NULL,
+  rotatedAt DATETIME NULL,
+  revokedAt DATETIME NULL,
+  createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE INDEX idx_refresh_token_hash (tokenHash),
+  INDEX idx_refresh_token_family (familyId),
+  CONSTRAINT fk_refresh_token_user
+    FOREIGN KEY (userId)
+    REFERENCES Users(id)
+    ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- migrate:down
+DROP TABLE IF EXISTS RefreshToken;
@@ -0,0 +1,25 @@
+-- Personal API keys for scripts and integrations. Only a hash of each key is
+-- stored, plus its first characters for display.
+
+-- migrate:up
+CREATE TABLE ApiKey (
+  id BIGINT AUTO_INCREMENT PRIMARY KEY,
+  userId BINARY(16) NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  prefix VARCHAR(16) NOT NULL,
+  keyHash CHAR(64) NOT NULL,
+  scopes VARCHAR(100) NOT NULL,
+  expiresAt DATETIME NULL,
+  lastUsedAt DATETIME NULL,
+  revokedAt DATETIME NULL,
+  createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE INDEX idx_api_key_hash (keyHash),
+  INDEX idx_api_key_user (userId),
+  CONSTRAINT fk_api_key_user
+    FOREIGN KEY (userId)
+    REFERENCES Users(id)
+    ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- migrate:down
+DROP TABLE IF EXISTS ApiKey;
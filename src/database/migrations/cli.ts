@@ -0,0 +1,65 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { NestFactory } from '@nestjs/core';
+import { validateEnv } from '../../config/validate-env';
+import { createDatabasePool } from '../database-pool';
+import { loadMigrations } from './migration-loader';
+import { MigrationRunner } from './migration-runner';
+
+/** Only configuration: no HTTP server, no AppModule (which would migrate on startup). */
+@Module({
+  imports: [ConfigModule.forRoot({ validate: validateEnv })],
+})
+class MigrationCliModule {}
+
+const USAGE = 'Usage: migrate <up [steps] | down [steps] | status>';
+
+function parseSteps(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const steps = Number(value);
+  if (!Number.isInteger(steps) || steps < 1) {
+    throw new Error(`Invalid steps "${value}". ${USAGE}`);
+  }
+  return steps;
+}
+
+async function migrate() {
+  const [command = 'status', stepsArg] = process.argv.slice(2);
+  if (!['up', 'down', 'status'].includes(command)) {
+    throw new Error(USAGE);
+  }
+  const steps = parseSteps(stepsArg);
+
+  const app = await NestFactory.createApplicationContext(MigrationCliModule, {
+    logger: ['log', 'error', 'warn'],
+  });
+  const pool = createDatabasePool(app.get(ConfigService));
+  const runner = new MigrationRunner(pool, loadMigrations());
+
+  try {
+    if (command === 'status') {
+      for (const m of await runner.status()) {
+        const state = m.missing
+          ? 'applied (file missing)'
+          : m.appliedAt
+            ? `applied ${new Date(m.appliedAt).toISOString()}`
+            : 'pending';
+        console.log(
+          `${String(m.version).padStart(4, '0')}  ${m.name.padEnd(40)} ${state}`,
+        );
+      }
+    } else if (command === 'up') {
+      await runner.up(steps);
+    } else {
+      await runner.down(steps);
+    }
+  } finally {
+    await pool.end();
+    await app.close();
+  }
+}
+
+migrate().catch((error) => {
+  console.error('❌ Migration failed:', error);
+  process.exit(1);
+});
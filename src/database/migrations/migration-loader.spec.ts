@@ -0,0 +1,72 @@
+import {
+  loadMigrations,
+  parseMigrationFileName,
+  parseSqlMigration,
+} from './migration-loader';
+
+describe('migration loader', () => {
+  it('parses numbered migration file names and ignores everything else', () => {
+    expect(parseMigrationFileName('0003-fulltext-search-indexes.ts')).toEqual({
+      version: 3,
+      name: 'fulltext-search-indexes',
+      extension: 'ts',
+    });
+    expect(parseMigrationFileName('0002-drop-list-procedures.sql')).toEqual({
+      version: 2,
+      name: 'drop-list-procedures',
+      extension: 'sql',
+    });
+    expect(parseMigrationFileName('0001-initial-schema.d.ts')).toBeNull();
+    expect(parseMigrationFileName('0001-initial-schema.js.map')).toBeNull();
+    expect(parseMigrationFileName('migration-runner.ts')).toBeNull();
+  });
+
+  it('splits a SQL migration into up and down sections', () => {
+    const migration = parseSqlMigration(
+      [
+        '-- Adds a column',
+        '-- migrate:up',
+        'ALTER TABLE Employee ADD COLUMN nickname VARCHAR(64) NULL;',
+        '',
+        '-- migrate:down',
+        'ALTER TABLE Employee DROP COLUMN nickname;',
+      ].join('\n'),
+    );
+
+    expect(migration).toEqual({
+      up: 'ALTER TABLE Employee ADD COLUMN nickname VARCHAR(64) NULL;',
+      down: 'ALTER TABLE Employee DROP COLUMN nickname;',
+    });
+  });
+
+  it('treats a missing or comment-only down section as irreversible', () => {
+    expect(parseSqlMigration('-- migrate:up\nSELECT 1;').down).toBeNull();
+    expect(
+      parseSqlMigration('-- migrate:up\nSELECT 1;\n-- migrate:down\n-- nope')
+        .down,
+    ).toBeNull();
+    expect(() => parseSqlMigration('SELECT 1;')).toThrow(/migrate:up/);
+  });
+
+  it('loads the repository migrations in version order', () => {
+    const migrations = loadMigrations();
+
+    expect(migrations.map((m) => `${m.version}-${m.name}`)).toEqual([
+      '1-initial-schema',
+      '2-drop-list-procedures',
+      '3-fulltext-search-indexes',
+      '4-totp-second-factor',
+      '5-refresh-tokens',
+      '6-api-keys',
+    ]);
+    expect(migrations.every((m) => typeof m.up === 'function')).toBe(true);
+    expect(migrations.map((m) => m.down !== undefined)).toEqual([
+      true,
+      false,
+      true,
+      true,
+      true,
+      true,
+    ]);
+  });
+});
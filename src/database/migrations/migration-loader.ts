@@ -0,0 +1,104 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { Migration, MigrationSteps } from './migration';
+
+const MIGRATION_FILE = /^(\d+)-([a-z0-9-]+)\.(ts|js|sql)$/i;
+const SQL_SECTION = /^--\s*migrate:(up|down)\s*$/im;
+
+/**
+ * `0003-fulltext-search-indexes.ts` -> version 3, name `fulltext-search-indexes`.
+ * Anything else in the directory (runner code, `.d.ts`, `.js.map`, specs) is ignored.
+ */
+export function parseMigrationFileName(
+  file: string,
+): { version: number; name: string; extension: string } | null {
+  const match = MIGRATION_FILE.exec(file);
+  if (!match) return null;
+  return {
+    version: Number(match[1]),
+    name: match[2],
+    extension: match[3].toLowerCase(),
+  };
+}
+
+/**
+ * Splits a SQL migration into its `-- migrate:up` and `-- migrate:down`
+ * sections. Text before the first marker is ignored; a missing or empty down
+ * section makes the migration irreversible.
+ */
+export function parseSqlMigration(sql: string): {
+  up: string;
+  down: string | null;
+} {
+  const parts = sql.split(SQL_SECTION);
+  const sections: Record<string, string> = {};
+  // split() with a capture group yields [preamble, marker, body, marker, body, ...]
+  for (let i = 1; i < parts.length; i += 2) {
+    sections[parts[i].toLowerCase()] = parts[i + 1].trim();
+  }
+
+  const hasStatements = (section: string | undefined) =>
+    !!section && section.replace(/--.*$/gm, '').trim().length > 0;
+
+  if (!hasStatements(sections.up)) {
+    throw new Error('SQL migration has no "-- migrate:up" section');
+  }
+  return {
+    up: sections.up,
+    down: hasStatements(sections.down) ? sections.down : null,
+  };
+}
+
+function loadSqlMigration(path: string): MigrationSteps {
+  const { up, down } = parseSqlMigration(readFileSync(path, 'utf8'));
+  return {
+    // The pool is created with multipleStatements, so a section runs as one query
+    up: async (connection) => {
+      await connection.query(up);
+    },
+    down: down
+      ? async (connection) => {
+          await connection.query(down);
+        }
+      : undefined,
+  };
+}
+
+function loadModuleMigration(path: string): MigrationSteps {
+  // Migrations are discovered at runtime (.ts under ts-node/jest, .js in dist)
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const steps = require(path) as Partial<MigrationSteps>;
+  if (typeof steps.up !== 'function') {
+    throw new Error(`Migration ${path} does not export an up() function`);
+  }
+  return {
+    up: steps.up,
+    down: typeof steps.down === 'function' ? steps.down : undefined,
+  };
+}
+
+/** Loads the numbered migration files of a directory, ordered by version. */
+export function loadMigrations(directory: string = __dirname): Migration[] {
+  const migrations: Migration[] = [];
+
+  for (const file of readdirSync(directory)) {
+    const parsed = parseMigrationFileName(file);
+    if (!parsed) continue;
+
+    const path = join(directory, file);
+    const steps =
+      parsed.extension === 'sql'
+        ? loadSqlMigration(path)
+        : loadModuleMigration(path);
+
+    const duplicate = migrations.find((m) => m.version === parsed.version);
+    if (duplicate) {
+      throw new Error(
+        `Duplicate migration version ${parsed.version}: ${duplicate.name} and ${parsed.name}`,
+      );
+    }
+    migrations.push({ version: parsed.version, name: parsed.name, ...steps });
+  }
+
+  return migrations.sort((a, b) => a.version - b.version);
+}
@@ -0,0 +1,39 @@
+import { Migration } from './migration';
+import { planMigrations } from './migration-runner';
+
+const step = () => Promise.resolve();
+
+const migrations: Migration[] = [
+  { version: 1, name: 'initial-schema', up: step, down: step },
+  { version: 2, name: 'drop-list-procedures', up: step },
+  { version: 3, name: 'fulltext-search-indexes', up: step, down: step },
+  { version: 4, name: 'api-keys', up: step, down: step },
+];
+
+const versions = (plan: Migration[]) => plan.map((m) => m.version);
+
+describe('planMigrations', () => {
+  it('runs pending migrations in ascending order, optionally limited', () => {
+    expect(versions(planMigrations(migrations, [1, 3], 'up'))).toEqual([2, 4]);
+    expect(versions(planMigrations(migrations, [1], 'up', 1))).toEqual([2]);
+    expect(planMigrations(migrations, [1, 2, 3, 4], 'up')).toEqual([]);
+  });
+
+  it('reverts the last applied migration by default, newest first', () => {
+    expect(versions(planMigrations(migrations, [1, 2, 3, 4], 'down'))).toEqual([
+      4,
+    ]);
+    expect(
+      versions(planMigrations(migrations, [1, 2, 3, 4], 'down', 2)),
+    ).toEqual([4, 3]);
+  });
+
+  it('refuses to revert an irreversible or missing migration', () => {
+    expect(() => planMigrations(migrations, [1, 2], 'down')).toThrow(
+      /irreversible/,
+    );
+    expect(() => planMigrations(migrations, [1, 9], 'down')).toThrow(
+      /file is missing/,
+    );
+  });
+});
@@ -0,0 +1,192 @@
+import { Logger } from '@nestjs/common';
+import { Pool, PoolConnection } from 'mysql2/promise';
+import { AppliedMigration, Migration, MigrationStatus } from './migration';
+
+const LOCK_NAME = 'schema_migrations';
+
+export type MigrationDirection = 'up' | 'down';
+
+/**
+ * Picks the migrations to run: pending ones in ascending order for `up`
+ * (all of them unless `steps` is given), applied ones in descending order for
+ * `down` (one unless `steps` is given). Fails before anything runs when a
+ * step can't be reverted.
+ */
+export function planMigrations(
+  migrations: Migration[],
+  appliedVersions: number[],
+  direction: MigrationDirection,
+  steps?: number,
+): Migration[] {
+  const applied = new Set(appliedVersions);
+
+  if (direction === 'up') {
+    const pending = migrations
+      .filter((m) => !applied.has(m.version))
+      .sort((a, b) => a.version - b.version);
+    return steps === undefined ? pending : pending.slice(0, steps);
+  }
+
+  return [...applied]
+    .sort((a, b) => b - a)
+    .slice(0, steps ?? 1)
+    .map((version) => {
+      const migration = migrations.find((m) => m.version === version);
+      if (!migration) {
+        throw new Error(
+          `Migration ${version} is applied but its file is missing`,
+        );
+      }
+      if (!migration.down) {
+        throw new Error(
+          `Migration ${version}-${migration.name} is irreversible (no down step)`,
+        );
+      }
+      return migration;
+    });
+}
+
+/**
+ * Applies/reverts migrations and records them in the SchemaMigrations table.
+ *
+ * A MySQL named lock (GET_LOCK) is held on a dedicated connection for the
+ * whole run, so when several replicas start at once only one migrates and the
+ * others wait, then find nothing pending. MySQL DDL commits implicitly, so
+ * each migration is recorded right after it succeeds; a failed migration
+ * stops the run and is retried next time (keep steps idempotent).
+ */
+export class MigrationRunner {
+  private readonly logger = new Logger(MigrationRunner.name);
+
+  constructor(
+    private readonly pool: Pool,
+    private readonly migrations: Migration[],
+    private readonly lockTimeoutSeconds = 60,
+  ) {}
+
+  async status(): Promise<MigrationStatus[]> {
+    const connection = await this.pool.getConnection();
+    try {
+      await this.ensureTable(connection);
+      const applied = await this.applied(connection);
+
+      const rows: MigrationStatus[] = this.migrations.map((m) => ({
+        version: m.version,
+        name: m.name,
+        appliedAt:
+          applied.find((a) => a.version === m.version)?.appliedAt ?? null,
+        missing: false,
+      }));
+      for (const a of applied) {
+        if (!this.migrations.some((m) => m.version === a.version)) {
+          rows.push({ ...a, missing: true });
+        }
+      }
+      return rows.sort((a, b) => a.version - b.version);
+    } finally {
+      connection.release();
+    }
+  }
+
+  /** Applies pending migrations (or the next `steps`); returns what ran. */
+  up(steps?: number): Promise<Migration[]> {
+    return this.run('up', steps);
+  }
+
+  /** Reverts the last applied migration (or the last `steps`); returns what ran. */
+  down(steps = 1): Promise<Migration[]> {
+    return this.run('down', steps);
+  }
+
+  private async run(
+    direction: MigrationDirection,
+    steps?: number,
+  ): Promise<Migration[]> {
+    return this.withLock(async (connection) => {
+      const applied = await this.applied(connection);
+      const plan = planMigrations(
+        this.migrations,
+        applied.map((a) => a.version),
+        direction,
+        steps,
+      );
+
+      for (const migration of plan) {
+        const label = `${migration.version}-${migration.name}`;
+        const startedAt = Date.now();
+        this.logger.log(`Migrating ${direction}: ${label}`);
+
+        if (direction === 'up') {
+          await migration.up(connection);
+          await connection.execute(
+            `INSERT INTO SchemaMigrations (version, name, executionMs) VALUES (?, ?, ?)`,
+            [migration.version, migration.name, Date.now() - startedAt],
+          );
+        } else {
+          await migration.down?.(connection);
+          await connection.execute(
+            `DELETE FROM SchemaMigrations WHERE version = ?`,
+            [migration.version],
+          );
+        }
+
+        this.logger.log(
+          `Migrated ${direction}: ${label} (${Date.now() - startedAt}ms)`,
+        );
+      }
+
+      if (plan.length === 0) {
+        this.logger.log('Schema is up to date');
+      }
+      return plan;
+    });
+  }
+
+  private async withLock<T>(
+    fn: (connection: PoolConnection) => Promise<T>,
+  ): Promise<T> {
+    const connection = await this.pool.getConnection();
+    try {
+      const [rows] = await connection.query('SELECT GET_LOCK(?, ?) AS locked', [
+        LOCK_NAME,
+        this.lockTimeoutSeconds,
+      ]);
+      if (Number((rows as Array<{ locked: number | null }>)[0]?.locked) !== 1) {
+        throw new Error(
+          `Could not acquire the migration lock within ${this.lockTimeoutSeconds}s`,
+        );
+      }
+
+      try {
+        await this.ensureTable(connection);
+        return await fn(connection);
+      } finally {
+        await connection
+          .query('SELECT RELEASE_LOCK(?)', [LOCK_NAME])
+          .catch(() => undefined);
+      }
+    } finally {
+      connection.release();
+    }
+  }
+
+  private async ensureTable(connection: PoolConnection): Promise<void> {
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS SchemaMigrations (
+        version INT PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        appliedAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        executionMs INT NOT NULL DEFAULT 0
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+  }
+
+  private async applied(
+    connection: PoolConnection,
+  ): Promise<AppliedMigration[]> {
+    const [rows] = await connection.query(
+      `SELECT version, name, appliedAt FROM SchemaMigrations ORDER BY version`,
+    );
+    return rows as AppliedMigration[];
+  }
+}
@@ -0,0 +1,96 @@
+import { PoolConnection } from 'mysql2/promise';
+
+/**
+ * What a migration file provides. TypeScript migrations export `up` (and
+ * optionally `down`); SQL migrations are parsed into the same shape.
+ * A migration without `down` is irreversible.
+ */
+export interface MigrationSteps {
+  up(connection: PoolConnection): Promise<void>;
+  down?(connection: PoolConnection): Promise<void>;
+}
+
+/** A migration file: `<version>-<name>.ts|.sql`, e.g. `0003-fulltext-search-indexes.ts`. */
+export interface Migration extends MigrationSteps {
+  version: number;
+  name: string;
+}
+
+/** A row of the SchemaMigrations tracking table. */
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: Date;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: Date | null;
+  /** Recorded as applied, but its file no longer exists. */
+  missing: boolean;
+}
+
+async function count(
+  connection: PoolConnection,
+  sql: string,
+  params: string[],
+): Promise<boolean> {
+  const [rows] = await connection.query(sql, params);
+  const first = (rows as Array<{ count: number }>)[0];
+  return Number(first?.count ?? 0) > 0;
+}
+
+export function columnExists(
+  connection: PoolConnection,
+  table: string,
+  column: string,
+): Promise<boolean> {
+  return count(
+    connection,
+    `
+    SELECT COUNT(*) AS count
+    FROM INFORMATION_SCHEMA.COLUMNS
+    WHERE TABLE_SCHEMA = DATABASE()
+      AND TABLE_NAME = ?
+      AND COLUMN_NAME = ?
+    `,
+    [table, column],
+  );
+}
+
+export function indexExists(
+  connection: PoolConnection,
+  table: string,
+  index: string,
+): Promise<boolean> {
+  return count(
+    connection,
+    `
+    SELECT COUNT(*) AS count
+    FROM INFORMATION_SCHEMA.STATISTICS
+    WHERE TABLE_SCHEMA = DATABASE()
+      AND TABLE_NAME = ?
+      AND INDEX_NAME = ?
+    `,
+    [table, index],
+  );
+}
+
+export function foreignKeyExists(
+  connection: PoolConnection,
+  table: string,
+  constraint: string,
+): Promise<boolean> {
+  return count(
+    connection,
+    `
+    SELECT COUNT(*) AS count
+    FROM INFORMATION_SCHEMA.REFERENTIAL_CONSTRAINTS
+    WHERE CONSTRAINT_SCHEMA = DATABASE()
+      AND TABLE_NAME = ?
+      AND CONSTRAINT_NAME = ?
+    `,
+    [table, constraint],
+  );
+}
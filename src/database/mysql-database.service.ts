@@ -1,16 +1,31 @@
 import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { createPool, PoolConnection } from 'mysql2/promise';
+import { Pool, PoolConnection } from 'mysql2/promise';
 import * as bcrypt from 'bcrypt';
 import { v7 as uuidv7 } from 'uuid';
 import { UserType } from 'src/users/entities/user';
 import { DatabaseContextService } from './database-context.service';
-
-type Pool = Awaited<ReturnType<typeof createPool>>;
+import { createDatabasePool } from './database-pool';
+import { loadMigrations } from './migrations/migration-loader';
+import { MigrationRunner } from './migrations/migration-runner';
+import {
+  parseReadHosts,
+  READ_STRATEGIES,
+  ReadReplicaStatus,
+  ReadStrategy,
+  ReplicaRouter,
+} from './replica-router';
+import {
+  ISOLATION_LEVELS,
+  registerTransactionRunner,
+  Transaction,
+  TransactionOptions,
+} from './transaction';
 
 @Injectable()
 export class MysqlDatabaseService implements OnModuleInit, OnModuleDestroy {
   private pool: Pool | undefined;
+  private replicas: ReplicaRouter | undefined;
 
   constructor(
     private configService: ConfigService,
@@ -18,29 +33,53 @@ export class MysqlDatabaseService implements OnModuleInit, OnModuleDestroy {
   ) {}
 
   async onModuleInit() {
-    this.pool = createPool({
-      host: this.configService.get<string>('DB_HOST', 'localhost'),
-      port: this.configService.get<number>('DB_PORT', 3306),
-      user: this.configService.get<string>('DB_USERNAME', 'root'),
-      password: this.configService.get<string>('DB_PASSWORD', ''),
-      database: this.configService.get<string>('DB_DATABASE', 'nest_api'),
-      waitForConnections: true,
-      connectionLimit: 10,
-      queueLimit: 0,
-
-      multipleStatements: true,
-    });
-
-    // Create tasks table if it doesn't exist
+    this.pool = createDatabasePool(this.configService);
+    registerTransactionRunner(this);
+    this.replicas = this.createReplicaRouter();
+
     await this.initializeDatabase();
   }
 
   async onModuleDestroy() {
+    await this.replicas?.close();
     if (this.pool) {
       await this.pool.end();
     }
   }
 
+  /**
+   * Reader pools for DB_READ_HOSTS (without ProxySQL). Undefined when not
+   * configured: reads then use the main pool, which ProxySQL may route.
+   */
+  private createReplicaRouter(): ReplicaRouter | undefined {
+    const hosts = parseReadHosts(
+      this.configService.get<string>('DB_READ_HOSTS'),
+      this.configService.get<number>('DB_PORT', 3306),
+    );
+    if (hosts.length === 0) return undefined;
+
+    const strategy = this.configService.get<string>(
+      'DB_READ_STRATEGY',
+      'round-robin',
+    ) as ReadStrategy;
+    if (!READ_STRATEGIES.includes(strategy)) {
+      throw new Error(`Invalid DB_READ_STRATEGY: ${strategy}`);
+    }
+
+    const router = new ReplicaRouter(
+      hosts.map((h) => ({
+        ...h,
+        pool: createDatabasePool(this.configService, h),
+      })),
+      strategy,
+      this.configService.get<number>('DB_READ_EVICT_SECONDS', 30) * 1000,
+    );
+    router.startHealthChecks(
+      this.configService.get<number>('DB_READ_HEALTH_CHECK_SECONDS', 10) * 1000,
+    );
+    return router;
+  }
+
   /**
    * Health check method to verify database connection
    * @returns true if database is accessible, false otherwise
@@ -62,6 +101,11 @@ export class MysqlDatabaseService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  /** Health of the DB_READ_HOSTS replicas (empty when not configured). */
+  readReplicaStatus(): ReadReplicaStatus[] {
+    return this.replicas?.status() ?? [];
+  }
+
   getPool(): Pool {
     if (!this.pool) {
       throw new Error('[getPool] Database pool not initialized');
@@ -91,7 +135,11 @@ export class MysqlDatabaseService implements OnModuleInit, OnModuleDestroy {
       }
     }
 
-    // Otherwise, use the pool (which may route to a replica via ProxySQL)
+    // Otherwise read from a replica: one of DB_READ_HOSTS if configured
+    // (the writer when none is healthy), else the pool (ProxySQL may route it)
+    if (this.replicas) {
+      return this.replicas.query<T>(sql, params, this.pool);
+    }
     const [rows] = await this.pool.query(sql, params);
     return rows as T[];
   }
@@ -114,6 +162,13 @@ export class MysqlDatabaseService implements OnModuleInit, OnModuleDestroy {
       throw new Error('[execute] Database pool not initialized');
     }
 
+    // Outside a request/unit of work (RabbitMQ consumers, scripts) nothing would
+    // ever commit an implicit transaction: run in autocommit mode instead.
+    // Use withTransaction() when several writes must be atomic there.
+    if (!this.contextService.getContext()) {
+      return await this.pool.execute(sql, params);
+    }
+
     // Execute operations (INSERT, UPDATE, DELETE) always go to master
     // Reuse existing connection from context if available, otherwise get a new one
     let connection = this.contextService.getConnection();
@@ -176,6 +231,12 @@ export class MysqlDatabaseService implements OnModuleInit, OnModuleDestroy {
       throw new Error('[queryMaster] Database pool not initialized');
     }
 
+    // After a write (or inside withTransaction) the context connection is the
+    // master, and the only one that sees the uncommitted rows.
+    if (this.contextService.hasWrite() && this.contextService.getConnection()) {
+      return this.query<T>(sql, params);
+    }
+
     const connection = await this.pool.getConnection();
     try {
       // Force ProxySQL sticky routing to the master by opening a transaction
@@ -191,430 +252,171 @@ export class MysqlDatabaseService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
-  async initializeDatabase() {
+  /**
+   * Runs `work` as one unit of work: committed when it resolves, rolled back
+   * when it throws (the error is rethrown).
+   *
+   * - Not in a transaction yet: a master connection is taken from the pool and
+   *   a transaction started (with `isolationLevel` if given). Inside a request
+   *   the connection then stays as the request's sticky connection, with a new
+   *   implicit transaction that DatabaseContextInterceptor commits, so reads
+   *   after the commit still go to the master.
+   * - Already in a transaction (nested call, or the request wrote through
+   *   execute() before): runs under a SAVEPOINT of that transaction; a failure
+   *   only rolls back to the savepoint, success is committed with the outer one.
+   * - Outside any request (RabbitMQ consumers, startup) a context is created
+   *   for the duration of the call and the connection released afterwards.
+   * - `autonomous`: like outside a request, even inside one. The request's
+   *   own transaction is neither joined nor affected.
+   *
+   * Don't run several units of work in parallel (Promise.all) in one context:
+   * they would share the same connection.
+   */
+  async withTransaction<T>(
+    work: (tx: Transaction) => Promise<T>,
+    options: TransactionOptions = {},
+  ): Promise<T> {
     if (!this.pool) {
-      throw new Error('[initializeDatabase] Database pool not initialized');
+      throw new Error('[withTransaction] Database pool not initialized');
     }
-    const createAuditLogTableQuery = `
-      CREATE TABLE IF NOT EXISTS AuditLog (
-        id BIGINT AUTO_INCREMENT PRIMARY KEY,
-        eventType VARCHAR(100) NOT NULL,
-        entityType VARCHAR(50) NOT NULL,
-        entityId VARCHAR(64) NOT NULL,
-        actorUserId VARCHAR(64) NULL,
-        actorType VARCHAR(20) NULL,
-        ip VARCHAR(45) NULL,
-        userAgent VARCHAR(1024) NULL,
-        data JSON NULL,
-        createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
-        INDEX idx_entity (entityType, entityId),
-        INDEX idx_entity_createdAt (entityType, entityId, createdAt),
-        INDEX idx_actor (actorUserId),
-        INDEX idx_createdAt (createdAt)
-      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
-    `;
-    await this.pool.execute(createAuditLogTableQuery);
-
-    // If the table already existed (older schema), ensure key schema improvements exist.
-    const auditUserAgentLen = await this.query<{
-      maxLen: number | null;
-    }>(
-      `
-      SELECT CHARACTER_MAXIMUM_LENGTH AS maxLen
-      FROM INFORMATION_SCHEMA.COLUMNS
-      WHERE TABLE_SCHEMA = DATABASE()
-        AND TABLE_NAME = 'AuditLog'
-        AND COLUMN_NAME = 'userAgent'
-      `,
-    );
     if (
-      (auditUserAgentLen[0]?.maxLen ?? 0) > 0 &&
-      (auditUserAgentLen[0]?.maxLen ?? 0) < 1024
+      options.isolationLevel &&
+      !ISOLATION_LEVELS.includes(options.isolationLevel)
     ) {
-      await this.pool.execute(
-        `ALTER TABLE AuditLog MODIFY COLUMN userAgent VARCHAR(1024) NULL`,
+      throw new Error(
+        `[withTransaction] Invalid isolation level: ${String(options.isolationLevel)}`,
       );
     }
 
-    const auditIndex = await this.query<{ count: number }>(
-      `
-      SELECT COUNT(*) AS count
-      FROM INFORMATION_SCHEMA.STATISTICS
-      WHERE TABLE_SCHEMA = DATABASE()
-        AND TABLE_NAME = 'AuditLog'
-        AND INDEX_NAME = 'idx_entity_createdAt'
-      `,
-    );
-    if ((auditIndex[0]?.count ?? 0) === 0) {
-      await this.pool.execute(
-        `CREATE INDEX idx_entity_createdAt ON AuditLog (entityType, entityId, createdAt)`,
+    if (options.autonomous || !this.contextService.getContext()) {
+      return this.contextService.run(() =>
+        this.runTransaction(work, options, true),
       );
     }
+    return this.runTransaction(work, options, false);
+  }
 
-    const createDepartmentTableQuery = `
-      CREATE TABLE IF NOT EXISTS Department (
-        id INT AUTO_INCREMENT PRIMARY KEY,
-        name VARCHAR(255) NOT NULL,
-        createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
-        updatedAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
-      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
-    `;
-    await this.pool.execute(createDepartmentTableQuery);
-
-    // If the table already existed (older schema), ensure the new columns exist.
-    // MySQL doesn't alter existing tables when using CREATE TABLE IF NOT EXISTS.
-    const departmentCreatedAtColumn = await this.query<{ count: number }>(
-      `
-      SELECT COUNT(*) AS count
-      FROM INFORMATION_SCHEMA.COLUMNS
-      WHERE TABLE_SCHEMA = DATABASE()
-        AND TABLE_NAME = 'Department'
-        AND COLUMN_NAME = 'createdAt'
-      `,
-    );
-    if ((departmentCreatedAtColumn[0]?.count ?? 0) === 0) {
-      await this.pool.execute(
-        `ALTER TABLE Department ADD COLUMN createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP`,
-      );
-    }
+  private async runTransaction<T>(
+    work: (tx: Transaction) => Promise<T>,
+    options: TransactionOptions,
+    ownsContext: boolean,
+  ): Promise<T> {
+    const current = this.contextService.getConnection();
+    if (current && this.contextService.hasWrite()) {
+      if (options.isolationLevel) {
+        throw new Error(
+          '[withTransaction] isolationLevel can only be set on the outermost transaction',
+        );
+      }
 
-    const departmentUpdatedAtColumn = await this.query<{ count: number }>(
-      `
-      SELECT COUNT(*) AS count
-      FROM INFORMATION_SCHEMA.COLUMNS
-      WHERE TABLE_SCHEMA = DATABASE()
-        AND TABLE_NAME = 'Department'
-        AND COLUMN_NAME = 'updatedAt'
-      `,
-    );
-    if ((departmentUpdatedAtColumn[0]?.count ?? 0) === 0) {
-      await this.pool.execute(
-        `ALTER TABLE Department ADD COLUMN updatedAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP`,
-      );
+      const savepoint = this.contextService.nextSavepoint();
+      await current.query(`SAVEPOINT ${savepoint}`);
+      try {
+        const result = await work(this.transactionHandle(current, savepoint));
+        await current.query(`RELEASE SAVEPOINT ${savepoint}`);
+        return result;
+      } catch (error) {
+        await current
+          .query(`ROLLBACK TO SAVEPOINT ${savepoint}`)
+          .catch(() => undefined);
+        throw error;
+      }
     }
 
-    // Seed at least one department for demos/dev environments.
-    // (Idempotent: only seeds when the table is empty.)
+    const connection = await (this.pool as Pool).getConnection();
     try {
-      const existingDepartments = await this.query<{ count: number }>(
-        'SELECT COUNT(*) as count FROM Department',
-      );
-      if ((existingDepartments[0]?.count ?? 0) === 0) {
-        await this.pool.execute(`INSERT INTO Department (name) VALUES (?)`, [
-          'General',
-        ]);
+      if (options.isolationLevel) {
+        // Applies to the next transaction only
+        await connection.query(
+          `SET TRANSACTION ISOLATION LEVEL ${options.isolationLevel}`,
+        );
       }
+      await connection.query('START TRANSACTION');
     } catch (error) {
-      console.error('Error seeding Department table:', error);
+      connection.release();
+      throw error;
     }
+    this.contextService.markWrite(connection);
 
-    const createEmployeeTableQuery = `
-      CREATE TABLE IF NOT EXISTS Employee (
-        id INT AUTO_INCREMENT PRIMARY KEY,
-        name VARCHAR(255) NOT NULL,
-        email VARCHAR(255) NOT NULL UNIQUE,
-        role ENUM('INTERN', 'ENGINEER', 'ADMIN') NOT NULL,
-        departmentId INT NULL,
-        photoUrl VARCHAR(2048) NULL,
-        createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
-        updatedAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
-        INDEX idx_role (role),
-        INDEX idx_email (email),
-        INDEX idx_departmentId (departmentId),
-        CONSTRAINT fk_employee_department
-          FOREIGN KEY (departmentId)
-          REFERENCES Department(id)
-          ON UPDATE CASCADE
-          ON DELETE SET NULL
-      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
-    `;
-    await this.pool.execute(createEmployeeTableQuery);
-
-    // If the table already existed (older schema), ensure the new column exists.
-    // MySQL doesn't alter existing tables when using CREATE TABLE IF NOT EXISTS.
-    const photoUrlColumn = await this.query<{ count: number }>(
-      `
-      SELECT COUNT(*) AS count
-      FROM INFORMATION_SCHEMA.COLUMNS
-      WHERE TABLE_SCHEMA = DATABASE()
-        AND TABLE_NAME = 'Employee'
-        AND COLUMN_NAME = 'photoUrl'
-      `,
-    );
-    if ((photoUrlColumn[0]?.count ?? 0) === 0) {
-      await this.pool.execute(
-        `ALTER TABLE Employee ADD COLUMN photoUrl VARCHAR(2048) NULL`,
-      );
+    try {
+      const result = await work(this.transactionHandle(connection, null));
+      await connection.query('COMMIT');
+      return result;
+    } catch (error) {
+      await connection.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      if (ownsContext) {
+        this.contextService.clearConnection();
+        connection.release();
+      } else {
+        // Back to the implicit per-request transaction on the same connection.
+        // Logged, not thrown: it must not replace the unit of work's outcome
+        try {
+          await connection.query('SET autocommit = 0');
+          await connection.query('START TRANSACTION');
+        } catch (error) {
+          console.error(
+            '[MysqlDatabaseService.withTransaction] Could not reopen the request transaction:',
+            error,
+          );
+        }
+      }
     }
+  }
 
-    const departmentIdColumn = await this.query<{ count: number }>(
-      `
-      SELECT COUNT(*) AS count
-      FROM INFORMATION_SCHEMA.COLUMNS
-      WHERE TABLE_SCHEMA = DATABASE()
-        AND TABLE_NAME = 'Employee'
-        AND COLUMN_NAME = 'departmentId'
-      `,
-    );
-    if ((departmentIdColumn[0]?.count ?? 0) === 0) {
-      await this.pool.execute(
-        `ALTER TABLE Employee ADD COLUMN departmentId INT NULL`,
-      );
-    }
+  private transactionHandle(
+    connection: PoolConnection,
+    savepoint: string | null,
+  ): Transaction {
+    return {
+      connection,
+      savepoint,
+      query: async <T = any>(sql: string, params?: any[]) => {
+        const [rows] = await connection.execute(sql, params);
+        return (Array.isArray(rows) ? rows : []) as T[];
+      },
+      execute: (sql: string, params?: any[]) => connection.execute(sql, params),
+    };
+  }
 
-    const departmentIdIndex = await this.query<{ count: number }>(
-      `
-      SELECT COUNT(*) AS count
-      FROM INFORMATION_SCHEMA.STATISTICS
-      WHERE TABLE_SCHEMA = DATABASE()
-        AND TABLE_NAME = 'Employee'
-        AND INDEX_NAME = 'idx_departmentId'
-      `,
-    );
-    if ((departmentIdIndex[0]?.count ?? 0) === 0) {
-      await this.pool.execute(
-        `CREATE INDEX idx_departmentId ON Employee (departmentId)`,
-      );
+  /**
+   * Brings the schema up to date with the numbered migrations in
+   * ./migrations (unless DB_MIGRATE_ON_STARTUP=false, e.g. when deployments
+   * run `npm run migrate up` instead), then seeds demo data.
+   */
+  async initializeDatabase() {
+    if (!this.pool) {
+      throw new Error('[initializeDatabase] Database pool not initialized');
     }
 
-    // Add foreign key constraint if missing.
-    // Also sanitize any existing invalid values before enforcing the constraint.
-    const employeeDepartmentFk = await this.query<{ count: number }>(
-      `
-      SELECT COUNT(*) AS count
-      FROM INFORMATION_SCHEMA.REFERENTIAL_CONSTRAINTS
-      WHERE CONSTRAINT_SCHEMA = DATABASE()
-        AND TABLE_NAME = 'Employee'
-        AND CONSTRAINT_NAME = 'fk_employee_department'
-      `,
-    );
-    if ((employeeDepartmentFk[0]?.count ?? 0) === 0) {
-      await this.pool.execute(`
-        UPDATE Employee e
-        LEFT JOIN Department d ON e.departmentId = d.id
-        SET e.departmentId = NULL
-        WHERE e.departmentId IS NOT NULL
-          AND d.id IS NULL
-      `);
-      await this.pool.execute(`
-        ALTER TABLE Employee
-        ADD CONSTRAINT fk_employee_department
-          FOREIGN KEY (departmentId)
-          REFERENCES Department(id)
-          ON UPDATE CASCADE
-          ON DELETE SET NULL
-      `);
+    if (this.configService.get<boolean>('DB_MIGRATE_ON_STARTUP', true)) {
+      await new MigrationRunner(this.pool, loadMigrations()).up();
     }
 
-    const createUserTableQuery = `
-      CREATE TABLE IF NOT EXISTS Users (
-        id BINARY(16) PRIMARY KEY,
-        name VARCHAR(255) NOT NULL,
-        username VARCHAR(255) NOT NULL UNIQUE,
-        email VARCHAR(255) NOT NULL UNIQUE,
-        passwordHash VARCHAR(255) NOT NULL,
-        type ENUM('user', 'admin') NOT NULL DEFAULT 'user',
-        createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
-        updatedAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
-        INDEX idx_type (type),
-        INDEX idx_email (email),
-        INDEX idx_username (username)
-      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
-    `;
-    await this.pool.execute(createUserTableQuery);
-
-    // Create stored procedures for paginated listing
-    await this.createDepartmentsListProcedure();
-    await this.createEmployeesListProcedure();
-
+    await this.seedDepartments();
     // Seed users table with one user of each type
     await this.seedUsers();
   }
 
-  async createDepartmentsListProcedure() {
+  async seedDepartments() {
     if (!this.pool) {
-      throw new Error(
-        '[createDepartmentsListProcedure] Database pool not initialized',
-      );
+      throw new Error('[seedDepartments] Database pool not initialized');
     }
 
-    // ProxySQL note: ensure this runs on the writer by opening a transaction
-    // on a dedicated connection.
-    const connection = await this.pool.getConnection();
-
-    // Create the procedure without DELIMITER (MySQL2 doesn't support DELIMITER).
-    const createProcedureQueryWithoutDelimiter = `
-CREATE PROCEDURE \`Departments_List\`(
-    IN Page INT,
-    IN PageSize INT,
-    IN SearchName VARCHAR(255),
-    IN SortBy VARCHAR(50),
-    IN SortOrder VARCHAR(10)
-)
-BEGIN
-    IF (Page <= 0) THEN
-        SET @_page = 1;
-    ELSE
-        SET @_page = Page;
-    END IF;
-
-    SET @recordsOffset = (@_page - 1) * PageSize;
-    
-    SET @sqlMain = '';
-    
-    -- Add name search filter
-    IF SearchName IS NOT NULL AND NOT SearchName = '' THEN
-        SET @sqlMain = CONCAT(@sqlMain, ' AND name LIKE ''%', REPLACE(SearchName, '''', ''''''), '%''');
-    END IF;
-    
-    -- Set default sort column and order
-    -- Allowed: id, createdAt, name (or empty/null -> id)
-    IF SortBy IS NULL OR SortBy = '' THEN
-        SET @sortColumn = 'id';
-    ELSEIF SortBy = 'id' OR SortBy = 'createdAt' OR SortBy = 'name' THEN
-        SET @sortColumn = SortBy;
-    ELSE
-        SET @sortColumn = 'id';
-    END IF;
-    
-    IF SortOrder IS NULL OR SortOrder = '' THEN
-        SET @sortDirection = 'ASC';
-    ELSEIF UPPER(SortOrder) = 'DESC' THEN
-        SET @sortDirection = 'DESC';
-    ELSE
-        SET @sortDirection = 'ASC';
-    END IF;
-
-    SET @sqlTxt = CONCAT('
-        WITH _data AS (
-            SELECT * FROM Department WHERE 1=1 
-        ', @sqlMain, '
-        ),
-        _count AS (
-            SELECT COUNT(*) AS TotalCount FROM _data
-        )
-        SELECT * FROM _data, _count 
-        ORDER BY ', @sortColumn, ' ', @sortDirection, '
-        LIMIT ', PageSize, ' OFFSET ', @recordsOffset, ';');
-     
-    PREPARE execQuery FROM @sqlTxt;
-    EXECUTE execQuery;
-    DEALLOCATE PREPARE execQuery;
-END
-
-    `;
-
+    // Seed at least one department for demos/dev environments.
+    // (Idempotent: only seeds when the table is empty.)
     try {
-      await connection.query('SET autocommit = 0');
-      await connection.query('START TRANSACTION');
-      await connection.query('DROP PROCEDURE IF EXISTS Departments_List');
-      await connection.query(createProcedureQueryWithoutDelimiter);
-      await connection.query('COMMIT');
-    } finally {
-      await connection.query('SET autocommit = 1').catch(() => undefined);
-      connection.release();
-    }
-  }
-
-  async createEmployeesListProcedure() {
-    if (!this.pool) {
-      throw new Error(
-        '[createEmployeesListProcedure] Database pool not initialized',
+      const existingDepartments = await this.query<{ count: number }>(
+        'SELECT COUNT(*) as count FROM Department',
       );
-    }
-
-    // ProxySQL note: ensure this runs on the writer by opening a transaction
-    // on a dedicated connection.
-    const connection = await this.pool.getConnection();
-
-    // Then create the procedure without DELIMITER (MySQL2 doesn't support DELIMITER).
-    const createProcedureQueryWithoutDelimiter = `
-CREATE PROCEDURE \`Employees_List\`(
-    IN Page INT,
-    IN PageSize INT,
-    IN Role VARCHAR(20),
-    IN SearchName VARCHAR(255),
-    IN SearchEmail VARCHAR(255),
-    IN DepartmentId INT,
-    IN SortBy VARCHAR(50),
-    IN SortOrder VARCHAR(10)
-)
-BEGIN
-    IF (Page <= 0) THEN
-        SET @_page = 1;
-    ELSE
-        SET @_page = Page;
-    END IF;
-
-    SET @recordsOffset = (@_page - 1) * PageSize;
-    
-    SET @sqlMain = '';
-    
-    -- Add role filter
-    IF Role IS NOT NULL AND NOT Role = '' THEN
-        SET @sqlMain = CONCAT(@sqlMain, ' AND role = ''', Role, '''');
-    END IF;
-    
-    -- Add name search filter
-    IF SearchName IS NOT NULL AND NOT SearchName = '' THEN
-        SET @sqlMain = CONCAT(@sqlMain, ' AND name LIKE ''%', REPLACE(SearchName, '''', ''''''), '%''');
-    END IF;
-    
-    -- Add email search filter
-    IF SearchEmail IS NOT NULL AND NOT SearchEmail = '' THEN
-        SET @sqlMain = CONCAT(@sqlMain, ' AND email LIKE ''%', REPLACE(SearchEmail, '''', ''''''), '%''');
-    END IF;
-    
-    -- Add DepartmentId search filter
-    IF DepartmentId IS NOT NULL THEN
-        SET @sqlMain = CONCAT(@sqlMain, ' AND departmentId = ', DepartmentId );
-    END IF;
-
-    -- Set default sort column and order
-    IF SortBy IS NULL OR SortBy = '' THEN
-        SET @sortColumn = 'id';
-    ELSEIF SortBy = 'createdAt' OR SortBy = 'name' THEN
-        SET @sortColumn = SortBy;
-    ELSE
-        SET @sortColumn = 'id';
-    END IF;
-    
-    IF SortOrder IS NULL OR SortOrder = '' THEN
-        SET @sortDirection = 'ASC';
-    ELSEIF UPPER(SortOrder) = 'DESC' THEN
-        SET @sortDirection = 'DESC';
-    ELSE
-        SET @sortDirection = 'ASC';
-    END IF;
-
-    SET @sqlTxt = CONCAT('
-        WITH _data AS (
-            SELECT * FROM Employee WHERE 1=1 
-        ', @sqlMain, '
-        ),
-        _count AS (
-            SELECT COUNT(*) AS TotalCount FROM _data
-        )
-        SELECT * FROM _data, _count 
-        ORDER BY ', @sortColumn, ' ', @sortDirection, '
-        LIMIT ', PageSize, ' OFFSET ', @recordsOffset, ';');
-     
-    PREPARE execQuery FROM @sqlTxt;
-    EXECUTE execQuery;
-    DEALLOCATE PREPARE execQuery;
-END
-
-    `;
-
-    try {
-      await connection.query('SET autocommit = 0');
-      await connection.query('START TRANSACTION');
-      await connection.query('DROP PROCEDURE IF EXISTS Employees_List');
-      await connection.query(createProcedureQueryWithoutDelimiter);
-      await connection.query('COMMIT');
-    } finally {
-      await connection.query('SET autocommit = 1').catch(() => undefined);
-      connection.release();
+      if ((existingDepartments[0]?.count ?? 0) === 0) {
+        await this.pool.execute(`INSERT INTO Department (name) VALUES (?)`, [
+          'General',
+        ]);
+      }
+    } catch (error) {
+      console.error('Error seeding Department table:', error);
     }
   }
 
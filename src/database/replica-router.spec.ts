@@ -0,0 +1,123 @@
+import { parseReadHosts, ReplicaRouter } from './replica-router';
+
+function fakePool(name: string, reads: string[]) {
+  return {
+    query: jest.fn((): Promise<[unknown, []]> => {
+      reads.push(name);
+      return Promise.resolve([[{ from: name }], []]);
+    }),
+    end: jest.fn(() => Promise.resolve()),
+  };
+}
+
+function connectionError(): Error {
+  return Object.assign(new Error('connect ECONNREFUSED'), {
+    code: 'ECONNREFUSED',
+    fatal: true,
+  });
+}
+
+describe('parseReadHosts', () => {
+  it('parses host[:port] entries, defaulting the port', () => {
+    expect(parseReadHosts(' replica1:3307, replica2 ,', 3306)).toEqual([
+      { host: 'replica1', port: 3307 },
+      { host: 'replica2', port: 3306 },
+    ]);
+    expect(parseReadHosts(undefined, 3306)).toEqual([]);
+    expect(() => parseReadHosts('replica1:abc', 3306)).toThrow(
+      /Invalid DB_READ_HOSTS/,
+    );
+  });
+});
+
+describe('ReplicaRouter', () => {
+  let reads: string[];
+  let now: number;
+  let writer: ReturnType<typeof fakePool>;
+
+  beforeEach(() => {
+    reads = [];
+    now = 1_000;
+    writer = fakePool('writer', reads);
+  });
+
+  const router = (strategy: 'round-robin' | 'least-connections') => {
+    const pools = ['r1', 'r2'].map((name) => fakePool(name, reads));
+    return {
+      pools,
+      router: new ReplicaRouter(
+        pools.map((pool, i) => ({ host: `r${i + 1}`, port: 3306, pool })),
+        strategy,
+        30_000,
+        () => now,
+      ),
+    };
+  };
+
+  it('spreads reads round-robin over the replicas', async () => {
+    const { router: r } = router('round-robin');
+
+    for (let i = 0; i < 3; i++) {
+      await r.query('SELECT 1', [], writer);
+    }
+
+    expect(reads).toEqual(['r1', 'r2', 'r1']);
+  });
+
+  it('prefers the replica with the fewest reads in flight', () => {
+    const { router: r } = router('least-connections');
+    const first = r.pick();
+    if (first) first.inFlight = 2;
+
+    expect(r.pick()?.host).toBe('r2');
+  });
+
+  it('evicts a replica on connection errors and retries on the writer', async () => {
+    const { router: r, pools } = router('round-robin');
+    pools[0].query.mockRejectedValueOnce(connectionError());
+
+    const rows = await r.query('SELECT 1', [], writer);
+
+    expect(rows).toEqual([{ from: 'writer' }]);
+    expect(r.status().map((s) => s.healthy)).toEqual([false, true]);
+
+    await r.query('SELECT 1', [], writer);
+    await r.query('SELECT 1', [], writer);
+    expect(reads).toEqual(['writer', 'r2', 'r2']);
+
+    // Eviction expires...
+    now += 30_000;
+    expect(r.status().map((s) => s.healthy)).toEqual([true, true]);
+  });
+
+  it('does not evict on query errors', async () => {
+    const { router: r, pools } = router('round-robin');
+    pools[0].query.mockRejectedValueOnce(
+      Object.assign(new Error('syntax'), { code: 'ER_PARSE_ERROR' }),
+    );
+
+    await expect(r.query('SELEC 1', [], writer)).rejects.toThrow('syntax');
+    expect(r.status().every((s) => s.healthy)).toBe(true);
+  });
+
+  it('health checks evict failing replicas and bring recovered ones back', async () => {
+    const { router: r, pools } = router('round-robin');
+    pools[1].query.mockRejectedValueOnce(connectionError());
+
+    await r.checkHealth();
+    expect(r.status().map((s) => s.healthy)).toEqual([true, false]);
+
+    await r.checkHealth();
+    expect(r.status().map((s) => s.healthy)).toEqual([true, true]);
+  });
+
+  it('falls back to the writer when every replica is evicted', async () => {
+    const { router: r, pools } = router('round-robin');
+    pools.forEach((p) => p.query.mockRejectedValueOnce(connectionError()));
+    await r.checkHealth();
+
+    await r.query('SELECT 1', [], writer);
+
+    expect(reads.at(-1)).toBe('writer');
+  });
+});
@@ -0,0 +1,187 @@
+import { Logger } from '@nestjs/common';
+import { Pool } from 'mysql2/promise';
+
+export const READ_STRATEGIES = ['round-robin', 'least-connections'] as const;
+
+export type ReadStrategy = (typeof READ_STRATEGIES)[number];
+
+export interface ReadHost {
+  host: string;
+  port: number;
+}
+
+export interface ReadReplicaStatus extends ReadHost {
+  healthy: boolean;
+  inFlight: number;
+}
+
+type ReaderPool = Pick<Pool, 'query' | 'end'>;
+
+interface Reader extends ReadHost {
+  pool: ReaderPool;
+  inFlight: number;
+  /** Epoch ms until which the replica is skipped (0 = healthy). */
+  evictedUntil: number;
+}
+
+// Errors that say the replica itself is unusable (as opposed to a bad query)
+const CONNECTION_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'EHOSTUNREACH',
+  'ENOTFOUND',
+  'PROTOCOL_CONNECTION_LOST',
+  'ER_CON_COUNT_ERROR',
+]);
+
+function isConnectionError(error: unknown): boolean {
+  const e = error as { fatal?: boolean; code?: string } | null;
+  return !!e && (e.fatal === true || CONNECTION_ERROR_CODES.has(e.code ?? ''));
+}
+
+/**
+ * Parses DB_READ_HOSTS: comma separated `host` or `host:port` entries
+ * (port defaults to DB_PORT). Throws on an invalid port.
+ */
+export function parseReadHosts(
+  value: string | undefined,
+  defaultPort: number,
+): ReadHost[] {
+  if (!value) return [];
+
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [host, portText] = entry.split(':');
+      const port = portText === undefined ? defaultPort : Number(portText);
+      if (!host || !Number.isInteger(port) || port < 1 || port > 65535) {
+        throw new Error(`Invalid DB_READ_HOSTS entry: "${entry}"`);
+      }
+      return { host, port };
+    });
+}
+
+/**
+ * Spreads reads over the replica pools (DB_READ_HOSTS) when ProxySQL isn't
+ * there to do it. A replica that fails with a connection error is evicted for
+ * `evictMs` and the read is retried on the writer; periodic health checks
+ * (SELECT 1) evict failing replicas and bring recovered ones back early.
+ * With no healthy replica, reads go to the writer.
+ */
+export class ReplicaRouter {
+  private readonly logger = new Logger(ReplicaRouter.name);
+  private readonly readers: Reader[];
+  private nextIndex = 0;
+  private timer: NodeJS.Timeout | undefined;
+
+  constructor(
+    replicas: Array<ReadHost & { pool: ReaderPool }>,
+    private readonly strategy: ReadStrategy,
+    private readonly evictMs: number,
+    private readonly now: () => number = Date.now,
+  ) {
+    this.readers = replicas.map((r) => ({
+      ...r,
+      inFlight: 0,
+      evictedUntil: 0,
+    }));
+  }
+
+  /** Reads `sql` from a replica, or from `fallback` (the writer) when none is usable. */
+  async query<T>(
+    sql: string,
+    params: any[] | undefined,
+    fallback: ReaderPool,
+  ): Promise<T[]> {
+    const reader = this.pick();
+    if (!reader) {
+      const [rows] = await fallback.query(sql, params);
+      return rows as T[];
+    }
+
+    reader.inFlight += 1;
+    try {
+      const [rows] = await reader.pool.query(sql, params);
+      return rows as T[];
+    } catch (error) {
+      if (!isConnectionError(error)) throw error;
+
+      this.evict(reader, error);
+      const [rows] = await fallback.query(sql, params);
+      return rows as T[];
+    } finally {
+      reader.inFlight -= 1;
+    }
+  }
+
+  /** The replica for the next read, or undefined when all are evicted. */
+  pick(): Reader | undefined {
+    const now = this.now();
+    const healthy = this.readers.filter((r) => r.evictedUntil <= now);
+    if (healthy.length === 0) return undefined;
+
+    if (this.strategy === 'least-connections') {
+      return healthy.reduce((best, r) =>
+        r.inFlight < best.inFlight ? r : best,
+      );
+    }
+
+    const reader = healthy[this.nextIndex % healthy.length];
+    this.nextIndex = (this.nextIndex + 1) % healthy.length;
+    return reader;
+  }
+
+  async checkHealth(): Promise<void> {
+    await Promise.all(
+      this.readers.map(async (reader) => {
+        try {
+          await reader.pool.query('SELECT 1');
+          if (reader.evictedUntil > 0) {
+            this.logger.log(
+              `Read replica ${reader.host}:${reader.port} is back`,
+            );
+            reader.evictedUntil = 0;
+          }
+        } catch (error) {
+          this.evict(reader, error);
+        }
+      }),
+    );
+  }
+
+  startHealthChecks(intervalMs: number): void {
+    if (intervalMs <= 0 || this.readers.length === 0) return;
+    this.timer = setInterval(() => void this.checkHealth(), intervalMs);
+    // Don't keep the process alive just for health checks
+    this.timer.unref();
+  }
+
+  status(): ReadReplicaStatus[] {
+    const now = this.now();
+    return this.readers.map((r) => ({
+      host: r.host,
+      port: r.port,
+      healthy: r.evictedUntil <= now,
+      inFlight: r.inFlight,
+    }));
+  }
+
+  async close(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    await Promise.all(this.readers.map((r) => r.pool.end()));
+  }
+
+  private evict(reader: Reader, error: unknown): void {
+    if (reader.evictedUntil <= this.now()) {
+      this.logger.warn(
+        `Evicting read replica ${reader.host}:${reader.port} for ${this.evictMs}ms: ${
+          (error as Error)?.message ?? String(error)
+        }`,
+      );
+    }
+    reader.evictedUntil = this.now() + this.evictMs;
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * In-memory stand-in for the mysql2 pool, for specs that run the real
+ * MysqlDatabaseService. Each spec mocks the pool module with it:
+ *
+ *   const mysql = createFakeMysql();
+ *   jest.mock('../database/database-pool', () => ({
+ *     createDatabasePool: () => mysql.pool,
+ *   }));
+ */
+export interface FakeMysql {
+  pool: {
+    getConnection: jest.Mock;
+    execute: jest.Mock;
+    end: jest.Mock;
+  };
+  /** Connections handed out by the pool, in order. */
+  connections: FakeConnection[];
+  /** Every statement sent, as written (transaction control included). */
+  log: string[];
+  /** Executed statements that reached a COMMIT; rolled back ones are dropped. */
+  committed: string[];
+  /** Forgets the statements and connections of the previous test. */
+  reset(): void;
+}
+
+export interface FakeConnection {
+  query: jest.Mock;
+  execute: jest.Mock;
+  release: jest.Mock;
+}
+
+export function createFakeMysql(): FakeMysql {
+  const log: string[] = [];
+  const committed: string[] = [];
+  const connections: FakeConnection[] = [];
+
+  const createConnection = (): FakeConnection => {
+    let pending: string[] = [];
+    return {
+      query: jest.fn((sql: string) => {
+        log.push(sql);
+        if (sql === 'COMMIT') {
+          committed.push(...pending);
+          pending = [];
+        } else if (sql === 'ROLLBACK') {
+          pending = [];
+        }
+        return Promise.resolve([[], []]);
+      }),
+      execute: jest.fn((sql: string) => {
+        log.push(sql);
+        pending.push(sql.replace(/\s+/g, ' ').trim());
+        return Promise.resolve([{ affectedRows: 1, insertId: 1 }, []]);
+      }),
+      release: jest.fn(),
+    };
+  };
+
+  return {
+    pool: {
+      getConnection: jest.fn(() => {
+        const connection = createConnection();
+        connections.push(connection);
+        return Promise.resolve(connection);
+      }),
+      execute: jest.fn(),
+      end: jest.fn(),
+    },
+    connections,
+    log,
+    committed,
+    reset() {
+      log.length = 0;
+      committed.length = 0;
+      connections.length = 0;
+    },
+  };
+}
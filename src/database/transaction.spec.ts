@@ -0,0 +1,165 @@
+import { ConfigService } from '@nestjs/config';
+import { DatabaseContextService } from './database-context.service';
+import { MysqlDatabaseService } from './mysql-database.service';
+import { createFakeMysql, FakeConnection } from './testing/fake-mysql';
+import { Transactional } from './transaction';
+
+const mysql = createFakeMysql();
+const { log, pool } = mysql;
+
+jest.mock('./database-pool', () => ({
+  createDatabasePool: () => mysql.pool,
+}));
+
+describe('MysqlDatabaseService.withTransaction', () => {
+  let contextService: DatabaseContextService;
+  let db: MysqlDatabaseService;
+
+  beforeEach(async () => {
+    mysql.reset();
+    jest.clearAllMocks();
+    contextService = new DatabaseContextService();
+    db = new MysqlDatabaseService(new ConfigService(), contextService);
+    jest.spyOn(db, 'initializeDatabase').mockResolvedValue(undefined);
+    await db.onModuleInit();
+  });
+
+  it('commits outside a request, routing execute() through the transaction', async () => {
+    const result = await db.withTransaction(async () => {
+      await db.execute('INSERT INTO Department (name) VALUES (?)', ['Ops']);
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(log).toEqual([
+      'START TRANSACTION',
+      'INSERT INTO Department (name) VALUES (?)',
+      'COMMIT',
+    ]);
+    expect(mysql.connections).toHaveLength(1);
+    expect(mysql.connections[0].release).toHaveBeenCalledTimes(1);
+    expect(pool.execute).not.toHaveBeenCalled();
+  });
+
+  it('rolls a failed nested unit of work back to its savepoint only', async () => {
+    await db.withTransaction(
+      async () => {
+        await db
+          .withTransaction(() => Promise.reject(new Error('boom')))
+          .catch(() => undefined);
+        await db.withTransaction(() => Promise.resolve());
+      },
+      { isolationLevel: 'SERIALIZABLE' },
+    );
+
+    expect(log).toEqual([
+      'SET TRANSACTION ISOLATION LEVEL SERIALIZABLE',
+      'START TRANSACTION',
+      'SAVEPOINT sp_1',
+      'ROLLBACK TO SAVEPOINT sp_1',
+      'SAVEPOINT sp_2',
+      'RELEASE SAVEPOINT sp_2',
+      'COMMIT',
+    ]);
+  });
+
+  it('keeps the connection sticky for the rest of the request after committing', async () => {
+    await contextService.run(async () => {
+      await db.withTransaction(() => Promise.resolve());
+
+      expect(contextService.getConnection()).toBe(mysql.connections[0]);
+      expect(contextService.hasWrite()).toBe(true);
+    });
+
+    expect(log).toEqual([
+      'START TRANSACTION',
+      'COMMIT',
+      'SET autocommit = 0',
+      'START TRANSACTION',
+    ]);
+    // Released by DatabaseContextInterceptor at the end of the request
+    expect(mysql.connections[0].release).not.toHaveBeenCalled();
+  });
+
+  it('keeps the outcome of the unit of work when the request transaction cannot be reopened', async () => {
+    const errorSpy = jest
+      .spyOn(console, 'error')
+      .mockImplementation(() => undefined);
+    const getConnection = pool.getConnection.getMockImplementation()!;
+    const connectionLosingReopen = () =>
+      pool.getConnection.mockImplementationOnce(async () => {
+        const connection = (await getConnection()) as FakeConnection;
+        connection.query.mockImplementation((sql: string) =>
+          sql === 'SET autocommit = 0'
+            ? Promise.reject(new Error('connection lost'))
+            : Promise.resolve([[], []]),
+        );
+        return connection;
+      });
+
+    connectionLosingReopen();
+    await expect(
+      contextService.run(() =>
+        db.withTransaction(() => Promise.resolve('done')),
+      ),
+    ).resolves.toBe('done');
+
+    connectionLosingReopen();
+    await expect(
+      contextService.run(() =>
+        db.withTransaction(() => Promise.reject(new Error('boom'))),
+      ),
+    ).rejects.toThrow('boom');
+
+    expect(errorSpy).toHaveBeenCalledTimes(2);
+    errorSpy.mockRestore();
+  });
+
+  it('commits an autonomous unit of work on its own connection inside a request', async () => {
+    const requestConnection = {
+      query: jest.fn(),
+      execute: jest.fn(),
+      release: jest.fn(),
+    };
+
+    await contextService.run(async () => {
+      contextService.markWrite(requestConnection as never);
+
+      await db.withTransaction(
+        () => db.execute('INSERT INTO AuditLog (eventType) VALUES (?)', ['x']),
+        { autonomous: true },
+      );
+
+      // The request transaction is untouched and stays in the context
+      expect(contextService.getConnection()).toBe(requestConnection);
+    });
+
+    expect(log).toEqual([
+      'START TRANSACTION',
+      'INSERT INTO AuditLog (eventType) VALUES (?)',
+      'COMMIT',
+    ]);
+    expect(pool.getConnection).toHaveBeenCalledTimes(1);
+    expect(mysql.connections[0].release).toHaveBeenCalledTimes(1);
+    expect(requestConnection.release).not.toHaveBeenCalled();
+  });
+
+  it('rolls back a @Transactional() method that throws', async () => {
+    class Service {
+      constructor(private readonly database: MysqlDatabaseService) {}
+
+      @Transactional()
+      async rename(): Promise<void> {
+        await this.database.execute('UPDATE Department SET name = ?', ['x']);
+        throw new Error('validation failed');
+      }
+    }
+
+    await expect(new Service(db).rename()).rejects.toThrow('validation failed');
+    expect(log).toEqual([
+      'START TRANSACTION',
+      'UPDATE Department SET name = ?',
+      'ROLLBACK',
+    ]);
+  });
+});
@@ -0,0 +1,82 @@
+import { PoolConnection } from 'mysql2/promise';
+
+export const ISOLATION_LEVELS = [
+  'READ UNCOMMITTED',
+  'READ COMMITTED',
+  'REPEATABLE READ',
+  'SERIALIZABLE',
+] as const;
+
+export type IsolationLevel = (typeof ISOLATION_LEVELS)[number];
+
+export interface TransactionOptions {
+  /** Only for the outermost unit of work (MySQL can't change it mid-transaction). */
+  isolationLevel?: IsolationLevel;
+  /**
+   * Run on a connection of its own and commit independently of any request
+   * transaction, so the writes survive when the request fails afterwards
+   * (e.g. security events recorded before throwing a 401).
+   */
+  autonomous?: boolean;
+}
+
+/**
+ * Handle passed to a unit of work. Repositories don't need it: while the
+ * callback runs, MysqlDatabaseService.query()/execute()/queryMaster() use the
+ * same connection, so existing repository calls join the transaction.
+ */
+export interface Transaction {
+  connection: PoolConnection;
+  /** Savepoint name when nested inside another transaction, otherwise null. */
+  savepoint: string | null;
+  query<T = any>(sql: string, params?: any[]): Promise<T[]>;
+  execute(sql: string, params?: any[]): Promise<any>;
+}
+
+export interface TransactionRunner {
+  withTransaction<T>(
+    work: (tx: Transaction) => Promise<T>,
+    options?: TransactionOptions,
+  ): Promise<T>;
+}
+
+let transactionRunner: TransactionRunner | undefined;
+
+/** Called by MysqlDatabaseService on init so @Transactional() can reach it. */
+export function registerTransactionRunner(runner: TransactionRunner): void {
+  transactionRunner = runner;
+}
+
+/**
+ * Runs the decorated async method inside `withTransaction()`: it commits when
+ * the returned promise resolves and rolls back when it rejects. Nested calls
+ * (a transactional method calling another one) become savepoints.
+ */
+export function Transactional(options?: TransactionOptions): MethodDecorator {
+  return (_target, _propertyKey, descriptor: PropertyDescriptor) => {
+    const original = descriptor.value as (
+      ...args: unknown[]
+    ) => Promise<unknown>;
+
+    const wrapped = function (this: unknown, ...args: unknown[]) {
+      if (!transactionRunner) {
+        throw new Error(
+          '[Transactional] Database not initialized (is DatabaseModule imported?)',
+        );
+      }
+      return transactionRunner.withTransaction(
+        () => original.apply(this, args) as Promise<unknown>,
+        options,
+      );
+    };
+
+    // Keep metadata other decorators attached to the method (e.g. route handlers)
+    for (const key of Reflect.getMetadataKeys(original)) {
+      Reflect.defineMetadata(key, Reflect.getMetadata(key, original), wrapped);
+    }
+    Object.defineProperty(wrapped, 'name', { value: original.name });
+
+    descriptor.value = wrapped;
+    return descriptor;
+  };
+}
@@ -3,11 +3,13 @@ import {
   Controller,
   Delete,
   Get,
+  Headers,
   Param,
   Patch,
   Post,
   Query,
   Res,
+  StreamableFile,
   UnauthorizedException,
   UseGuards,
   ValidationPipe,
@@ -17,9 +19,11 @@ import type { Response } from 'express';
 import {
   ApiBody,
   ApiCookieAuth,
+  ApiBearerAuth,
   ApiHeader,
   ApiOperation,
   ApiParam,
+  ApiProduces,
   ApiQuery,
   ApiResponse,
   ApiTags,
@@ -34,7 +38,17 @@ import { ErrorResponseDto } from 'src/common/dto/error-response.dto';
 import { DepartmentsService } from './departments.service';
 import { CreateDepartmentDto } from './dto/create-department.dto';
 import { DepartmentResponseDto } from './dto/department-response.dto';
+import { DepartmentTreeResponseDto } from './dto/department-tree-response.dto';
+import { OrgChartResponseDto } from './dto/org-chart-response.dto';
+import { DepartmentStatsResponseDto } from './dto/department-stats-response.dto';
+import { orgChartToDot } from './org-chart/org-chart';
+import type { DepartmentDeleteStrategy } from './entities/department';
 import { UpdateDepartmentDto } from './dto/update-department.dto';
+import {
+  AcceptsFormat,
+  type ResponseFormat,
+} from 'src/auth/decorators/accept-format.decorator';
+import { exportFile } from 'src/common/export-formats';
 
 @ApiTags('departments')
 @SkipThrottle()
@@ -42,6 +56,22 @@ import { UpdateDepartmentDto } from './dto/update-department.dto';
 export class DepartmentsController {
   constructor(private readonly departmentsService: DepartmentsService) {}
 
+  /** The list body: JSON rows, or a file download for the other formats. */
+  private async respondWithDepartments(
+    departments: DepartmentResponseDto[],
+    format: ResponseFormat,
+  ) {
+    if (format !== 'json') {
+      const payload = await this.departmentsService.departmentsToFile(
+        departments,
+        format,
+      );
+      return exportFile(payload, format, 'departments');
+    }
+
+    return departments;
+  }
+
   @Post()
   @ApiOperation({
     summary: 'Create a new department',
@@ -78,6 +108,7 @@ export class DepartmentsController {
   })
   @UseGuards(SessionGuard)
   @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
   create(
     @Body(ValidationPipe) createDepartmentDto: CreateDepartmentDto,
     @CurrentUser() user: SessionUser | null,
@@ -120,8 +151,8 @@ export class DepartmentsController {
   @ApiQuery({
     name: 'sortBy',
     required: false,
-    type: String,
-    description: 'Column to sort by (default: id)',
+    enum: ['id', 'name', 'createdAt', 'updatedAt'],
+    description: 'Column to sort by (default: id; id breaks ties)',
     example: 'name',
   })
   @ApiQuery({
@@ -131,6 +162,29 @@ export class DepartmentsController {
     description: 'Sort order (default: ASC)',
     example: 'ASC',
   })
+  @ApiQuery({
+    name: 'pagination',
+    required: false,
+    enum: ['offset', 'cursor'],
+    description:
+      'Pagination mode (default: offset). In cursor mode page is ignored, the opaque X-Next-Cursor/X-Prev-Cursor headers point to the neighbour pages and X-Total-Count is only sent with withTotal=true.',
+    example: 'cursor',
+  })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    type: String,
+    description:
+      'X-Next-Cursor or X-Prev-Cursor of a previous page (implies pagination=cursor). Only valid with the same sort it was issued for.',
+  })
+  @ApiQuery({
+    name: 'withTotal',
+    required: false,
+    type: Boolean,
+    description:
+      'In cursor mode, also count the matching rows (X-Total-Count). Default: false',
+    example: false,
+  })
   @ApiHeader({
     name: 'X-Total-Count',
     description: 'Total number of matching records',
@@ -155,12 +209,50 @@ export class DepartmentsController {
     name: 'X-Has-Previous-Page',
     description: 'Whether there is a previous page (true/false)',
   })
+  @ApiHeader({
+    name: 'Accept',
+    required: false,
+    description:
+      'Response format via content negotiation. Use "text/csv" to download a CSV file, "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" for an Excel workbook or "application/x-ndjson" for newline-delimited JSON; otherwise JSON is returned.',
+    example: 'text/csv',
+  })
+  @ApiProduces(
+    'application/json',
+    'text/csv',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/x-ndjson',
+  )
   @ApiResponse({
     status: 200,
     description:
       'List of departments for the current page. Pagination metadata is returned via response headers.',
     type: [DepartmentResponseDto],
   })
+  @ApiResponse({
+    status: 200,
+    description:
+      'File download (when Accept is text/csv, the XLSX media type or application/x-ndjson).',
+    content: {
+      'text/csv': {
+        schema: {
+          type: 'string',
+          format: 'binary',
+        },
+      },
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': {
+        schema: {
+          type: 'string',
+          format: 'binary',
+        },
+      },
+      'application/x-ndjson': {
+        schema: {
+          type: 'string',
+          format: 'binary',
+        },
+      },
+    },
+  })
   @ApiResponse({
     status: 400,
     description: 'Invalid query parameters',
@@ -178,8 +270,10 @@ export class DepartmentsController {
   })
   @UseGuards(SessionGuard)
   @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
   async findAll(
     @CurrentUser() user: SessionUser | null,
+    @AcceptsFormat() format: ResponseFormat,
     @AuditMetaParam() auditMeta: AuditMetadata,
     @Res({ passthrough: true }) res: Response,
     @Query('page') page?: number,
@@ -187,11 +281,39 @@ export class DepartmentsController {
     @Query('searchName') searchName?: string,
     @Query('sortBy') sortBy?: string,
     @Query('sortOrder') sortOrder?: 'ASC' | 'DESC',
+    @Query('pagination') pagination?: 'offset' | 'cursor',
+    @Query('cursor') cursor?: string,
+    @Query('withTotal') withTotal?: string,
   ) {
     if (!user) {
       throw new UnauthorizedException('Unauthorized');
     }
 
+    if (pagination === 'cursor' || cursor !== undefined) {
+      const result = await this.departmentsService.findAllByCursor(
+        pageSize,
+        searchName,
+        sortBy,
+        sortOrder,
+        cursor,
+        withTotal === 'true',
+      );
+
+      res.setHeader('X-Page-Size', result.PageSize.toString());
+      res.setHeader('X-Has-Next-Page', (result.NextCursor !== null).toString());
+      res.setHeader(
+        'X-Has-Previous-Page',
+        (result.PrevCursor !== null).toString(),
+      );
+      if (result.NextCursor) res.setHeader('X-Next-Cursor', result.NextCursor);
+      if (result.PrevCursor) res.setHeader('X-Prev-Cursor', result.PrevCursor);
+      if (result.Total !== null) {
+        res.setHeader('X-Total-Count', result.Total.toString());
+      }
+
+      return this.respondWithDepartments(result.ReturnedObject ?? [], format);
+    }
+
     const result = await this.departmentsService.findAll(
       page,
       pageSize,
@@ -210,7 +332,104 @@ export class DepartmentsController {
     res.setHeader('X-Has-Next-Page', hasNextPage.toString());
     res.setHeader('X-Has-Previous-Page', hasPreviousPage.toString());
 
-    return result.ReturnedObject;
+    return this.respondWithDepartments(result.ReturnedObject ?? [], format);
+  }
+
+  @Get('stats')
+  @ApiOperation({
+    summary: 'Get department statistics',
+    description:
+      'Return headcount figures per department for dashboards: active employees by role, employees without a photo, the newest hire date and hires per month over the last 12 months (with the change from the previous month). Results are cached in Redis when CACHE_ENABLED is true.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Department statistics',
+    type: DepartmentStatsResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'Service unavailable (e.g., database connection error)',
+    type: ErrorResponseDto,
+  })
+  @UseGuards(SessionGuard)
+  @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
+  async getStats(
+    @CurrentUser() user: SessionUser | null,
+  ): Promise<DepartmentStatsResponseDto> {
+    if (!user) {
+      throw new UnauthorizedException('Unauthorized');
+    }
+
+    return this.departmentsService.getStats();
+  }
+
+  @Get('org-chart')
+  @ApiOperation({
+    summary: 'Get the organization chart',
+    description:
+      'Return the whole organization as a nested tree: departments (with their subdepartments) and the active employees of each one. With `Accept: text/vnd.graphviz` a Graphviz DOT document is returned instead (departments as clusters, reporting lines as edges).',
+  })
+  @ApiHeader({
+    name: 'Accept',
+    required: false,
+    description:
+      'Use "text/vnd.graphviz" to get a DOT document; otherwise JSON is returned.',
+    example: 'text/vnd.graphviz',
+  })
+  @ApiProduces('application/json', 'text/vnd.graphviz')
+  @ApiResponse({
+    status: 200,
+    description: 'Organization chart',
+    type: OrgChartResponseDto,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'DOT document (when Accept: text/vnd.graphviz).',
+    content: {
+      'text/vnd.graphviz': {
+        schema: {
+          type: 'string',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'Service unavailable (e.g., database connection error)',
+    type: ErrorResponseDto,
+  })
+  @UseGuards(SessionGuard)
+  @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
+  async getOrgChart(
+    @CurrentUser() user: SessionUser | null,
+    @Headers('accept') accept?: string,
+  ) {
+    if (!user) {
+      throw new UnauthorizedException('Unauthorized');
+    }
+
+    const chart = await this.departmentsService.getOrgChart();
+
+    if (accept?.toLowerCase().includes('text/vnd.graphviz')) {
+      return new StreamableFile(Buffer.from(orgChartToDot(chart), 'utf8'), {
+        type: 'text/vnd.graphviz; charset=utf-8',
+        disposition: 'inline; filename="org-chart.dot"',
+      });
+    }
+
+    return chart;
   }
 
   @Get(':id')
@@ -247,6 +466,7 @@ export class DepartmentsController {
   })
   @UseGuards(SessionGuard)
   @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
   findOne(@CurrentUser() user: SessionUser | null, @Param('id') id: string) {
     if (!user) {
       throw new UnauthorizedException('Unauthorized');
@@ -255,6 +475,49 @@ export class DepartmentsController {
     return this.departmentsService.findOne(+id);
   }
 
+  @Get(':id/tree')
+  @ApiOperation({
+    summary: 'Get department subtree',
+    description:
+      'Retrieve a department with all its subdepartments (at any depth) nested under `children`',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Department ID',
+    example: '1',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Department subtree retrieved successfully',
+    type: DepartmentTreeResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Department not found',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'Service unavailable (e.g., database connection error)',
+    type: ErrorResponseDto,
+  })
+  @UseGuards(SessionGuard)
+  @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
+  findTree(@CurrentUser() user: SessionUser | null, @Param('id') id: string) {
+    if (!user) {
+      throw new UnauthorizedException('Unauthorized');
+    }
+
+    return this.departmentsService.findTree(+id);
+  }
+
   @Patch(':id')
   @ApiOperation({
     summary: 'Update department',
@@ -283,7 +546,8 @@ export class DepartmentsController {
   })
   @ApiResponse({
     status: 400,
-    description: 'Invalid input data',
+    description:
+      'Invalid input data (e.g., invalid parentId or a parent that would create a cycle)',
     type: ErrorResponseDto,
   })
   @ApiResponse({
@@ -303,6 +567,7 @@ export class DepartmentsController {
   })
   @UseGuards(SessionGuard)
   @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
   update(
     @CurrentUser() user: SessionUser | null,
     @Param('id') id: string,
@@ -329,7 +594,7 @@ export class DepartmentsController {
   @ApiOperation({
     summary: 'Delete department',
     description:
-      'Delete a department record from the database by its unique identifier',
+      'Delete a department by its unique identifier. `strategy` decides what happens to its employees: `block` (default) refuses while it has employees, `reassign` moves them to `targetDepartmentId`, `nullify` leaves them without a department. Each moved employee is audited and an employee update event is published. Subdepartments become top-level.',
   })
   @ApiParam({
     name: 'id',
@@ -337,11 +602,37 @@ export class DepartmentsController {
     description: 'Department ID',
     example: '1',
   })
+  @ApiQuery({
+    name: 'strategy',
+    required: false,
+    enum: ['block', 'reassign', 'nullify'],
+    description:
+      'What to do with the employees of the department (default: block)',
+    example: 'reassign',
+  })
+  @ApiQuery({
+    name: 'targetDepartmentId',
+    required: false,
+    type: Number,
+    description: 'Department receiving the employees (required for reassign)',
+    example: 2,
+  })
   @ApiResponse({
     status: 200,
     description: 'Department deleted successfully',
     type: DepartmentResponseDto,
   })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Invalid strategy, or missing/invalid targetDepartmentId for reassign',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Department still has employees (strategy=block)',
+    type: ErrorResponseDto,
+  })
   @ApiResponse({
     status: 404,
     description: 'Department not found',
@@ -359,15 +650,39 @@ export class DepartmentsController {
   })
   @UseGuards(SessionGuard)
   @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
   remove(
     @CurrentUser() user: SessionUser | null,
     @Param('id') id: string,
     @AuditMetaParam() auditMeta: AuditMetadata,
+    @Query('strategy') strategy?: string,
+    @Query('targetDepartmentId') targetDepartmentId?: string,
   ) {
     if (!user) {
       throw new UnauthorizedException('Unauthorized');
     }
 
-    return this.departmentsService.remove(+id, user, auditMeta);
+    const deleteStrategy = (strategy || 'block') as DepartmentDeleteStrategy;
+    if (!['block', 'reassign', 'nullify'].includes(deleteStrategy)) {
+      throw new BadRequestException(
+        'strategy must be one of: block, reassign, nullify',
+      );
+    }
+
+    let target: number | undefined;
+    if (targetDepartmentId !== undefined && targetDepartmentId !== '') {
+      target = Number(targetDepartmentId);
+      if (!Number.isInteger(target)) {
+        throw new BadRequestException('targetDepartmentId must be an integer');
+      }
+    }
+
+    return this.departmentsService.remove(
+      +id,
+      user,
+      auditMeta,
+      deleteStrategy,
+      target,
+    );
   }
 }
@@ -3,10 +3,12 @@ import { AuditModule } from 'src/audit/audit.module';
 import { DepartmentsRepository } from './repository/departments.repository';
 import { DepartmentsService } from './departments.service';
 import { DepartmentsController } from './departments.controller';
-import { Module } from '@nestjs/common';
+import { forwardRef, Module } from '@nestjs/common';
+import { EmployeesModule } from 'src/employees/employees.module';
 
 @Module({
-  imports: [DatabaseModule, AuditModule],
+  // EmployeesModule also imports this module (for DepartmentsRepository)
+  imports: [DatabaseModule, AuditModule, forwardRef(() => EmployeesModule)],
   controllers: [DepartmentsController],
   providers: [DepartmentsService, DepartmentsRepository],
   exports: [DepartmentsRepository],
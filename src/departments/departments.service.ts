@@ -1,20 +1,80 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { DepartmentsRepository } from './repository/departments.repository';
+import {
+  BadRequestException,
+  ConflictException,
+  forwardRef,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  DEPARTMENT_LIST_QUERY,
+  DepartmentsRepository,
+} from './repository/departments.repository';
+import { cursorMatchesSort, decodeCursor } from 'src/database/list-query';
 import { CreateDepartmentDto } from './dto/create-department.dto';
 import { handleRepositoryError } from 'src/common/error-handlers';
-import { AuditMetadata } from 'src/audit/entities/auditMetadata';
-import { SessionUser } from 'src/types/session-user.interface';
+import type { AuditMetadata } from 'src/audit/entities/auditMetadata';
+import type { SessionUser } from 'src/types/session-user.interface';
 import { DepartmentResponseDto } from './dto/department-response.dto';
 import { AuditContext } from 'src/audit/entities/AuditContext';
-import { PaginationResult } from 'src/common/result';
-import { Department } from './entities/department';
+import { CursorPaginationResult, PaginationResult } from 'src/common/result';
+import type {
+  Department,
+  DepartmentDeleteStrategy,
+} from './entities/department';
+import { EmployeesService } from 'src/employees/employees.service';
 import { UpdateDepartmentDto } from './dto/update-department.dto';
+import { DepartmentTreeResponseDto } from './dto/department-tree-response.dto';
+import { OrgChartResponseDto } from './dto/org-chart-response.dto';
+import { buildOrgChart } from './org-chart/org-chart';
+import { DepartmentStatsResponseDto } from './dto/department-stats-response.dto';
+import { buildDepartmentStats } from './stats/department-stats';
+import { ConfigService } from '@nestjs/config';
+import { RedisService } from 'src/redis/redis.service';
+import { Transactional } from 'src/database/transaction';
+import { EmployeeResponseDto } from 'src/employees/dto/employee-response.dto';
+import {
+  ExportColumn,
+  ExportFormat,
+  rowsToFile,
+} from 'src/common/export-formats';
+
+export const DEPARTMENT_EXPORT_COLUMNS: ExportColumn<DepartmentResponseDto>[] =
+  [
+    { key: 'id', type: 'number' },
+    { key: 'name', type: 'string' },
+    { key: 'parentId', type: 'number' },
+    { key: 'managerEmployeeId', type: 'number' },
+    { key: 'createdAt', type: 'date' },
+    { key: 'updatedAt', type: 'date' },
+  ];
 
 @Injectable()
 export class DepartmentsService {
   private readonly logger = new Logger(DepartmentsService.name);
 
-  constructor(private readonly departmentsRepository: DepartmentsRepository) {}
+  private CACHE_TTL_SECONDS = 60;
+  private CACHE_ENABLED = false;
+  private readonly STATS_MONTHS = 12;
+  private readonly STATS_CACHE_KEY = 'departments:stats';
+
+  constructor(
+    private readonly departmentsRepository: DepartmentsRepository,
+    @Inject(forwardRef(() => EmployeesService))
+    private readonly employeesService: EmployeesService,
+    private readonly configService: ConfigService,
+    private readonly redisService: RedisService,
+  ) {
+    this.CACHE_TTL_SECONDS = this.configService.get<number>(
+      'CACHE_TTL_SECONDS',
+      60,
+    );
+    this.CACHE_ENABLED = this.configService.get<boolean>(
+      'CACHE_ENABLED',
+      false,
+    );
+  }
 
   async create(
     createDepartmentDto: CreateDepartmentDto,
@@ -33,6 +93,19 @@ export class DepartmentsService {
       userAgent: meta.userAgent ?? null,
     };
 
+    if (
+      createDepartmentDto.parentId !== undefined &&
+      createDepartmentDto.parentId !== null
+    ) {
+      await this.ensureParentExists(createDepartmentDto.parentId);
+    }
+    if (
+      createDepartmentDto.managerEmployeeId !== undefined &&
+      createDepartmentDto.managerEmployeeId !== null
+    ) {
+      await this.ensureManagerExists(createDepartmentDto.managerEmployeeId);
+    }
+
     const result = await this.departmentsRepository.create(
       createDepartmentDto,
       auditContext,
@@ -57,6 +130,157 @@ export class DepartmentsService {
     return result.ReturnedObject as DepartmentResponseDto;
   }
 
+  /** The department with its subdepartments nested under `children`, at any depth. */
+  async findTree(id: number): Promise<DepartmentTreeResponseDto> {
+    const result = await this.departmentsRepository.findSubtree(id);
+    if (!result.Success) {
+      handleRepositoryError(result);
+    }
+
+    const departments = result.ReturnedObject ?? [];
+    if (departments.length === 0) {
+      throw new NotFoundException(`Department with id ${id} not found`);
+    }
+
+    // Rows come ordered by depth, so a parent is always seen before its children
+    const nodes = new Map<number, DepartmentTreeResponseDto>();
+    for (const row of departments) {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { depth, ...department } = row;
+      const node: DepartmentTreeResponseDto = { ...department, children: [] };
+      nodes.set(node.id, node);
+      if (node.id !== id && node.parentId) {
+        nodes.get(node.parentId)?.children.push(node);
+      }
+    }
+
+    return nodes.get(id) as DepartmentTreeResponseDto;
+  }
+
+  /** The whole organization: department hierarchy with the employees of each department. */
+  async getOrgChart(): Promise<OrgChartResponseDto> {
+    const result = await this.departmentsRepository.findOrgChartData();
+    if (!result.Success) {
+      handleRepositoryError(result);
+    }
+
+    const { departments, employees } = result.ReturnedObject ?? {
+      departments: [],
+      employees: [],
+    };
+    return buildOrgChart(departments, employees);
+  }
+
+  /**
+   * Headcount dashboard: per department, active employees by role, those
+   * without a photo, the newest hire and the hires of the last 12 months.
+   * Cached like the employee list (CACHE_ENABLED / CACHE_TTL_SECONDS).
+   */
+  async getStats(): Promise<DepartmentStatsResponseDto> {
+    if (this.CACHE_ENABLED) {
+      const cachedResult = await this.redisService.get(this.STATS_CACHE_KEY);
+      if (cachedResult) {
+        this.logger.log(
+          `DepartmentsService.getStats. Cache hit for key: ${this.STATS_CACHE_KEY}`,
+        );
+        return JSON.parse(cachedResult) as DepartmentStatsResponseDto;
+      }
+      this.logger.warn(
+        `DepartmentsService.getStats. Cache miss for key: ${this.STATS_CACHE_KEY}`,
+      );
+    }
+
+    const result = await this.departmentsRepository.findStatsData(
+      this.STATS_MONTHS,
+    );
+    if (!result.Success) {
+      handleRepositoryError(result);
+    }
+
+    const { rows, hires, currentMonth } = result.ReturnedObject ?? {
+      rows: [],
+      hires: [],
+      currentMonth: '',
+    };
+    const stats: DepartmentStatsResponseDto = {
+      months: this.STATS_MONTHS,
+      departments: buildDepartmentStats(
+        rows,
+        hires,
+        currentMonth,
+        this.STATS_MONTHS,
+      ),
+    };
+
+    if (this.CACHE_ENABLED) {
+      await this.redisService.set(
+        this.STATS_CACHE_KEY,
+        JSON.stringify(stats),
+        this.CACHE_TTL_SECONDS,
+      );
+    }
+
+    return stats;
+  }
+
+  private async ensureParentExists(parentId: number): Promise<void> {
+    await this.ensureDepartmentExists(parentId, 'Invalid parentId');
+  }
+
+  private async ensureDepartmentExists(
+    id: number,
+    invalidMessage: string,
+  ): Promise<void> {
+    const departmentResult = await this.departmentsRepository.findOne(id);
+    if (!departmentResult.Success) {
+      if (departmentResult.ErrorCode === 404) {
+        throw new BadRequestException(invalidMessage);
+      }
+      handleRepositoryError(departmentResult);
+    }
+  }
+
+  private async ensureManagerExists(managerEmployeeId: number): Promise<void> {
+    const managerResult =
+      await this.departmentsRepository.activeEmployeeExists(managerEmployeeId);
+    if (!managerResult.Success) {
+      if (managerResult.ErrorCode === 404) {
+        throw new BadRequestException('Invalid managerEmployeeId');
+      }
+      handleRepositoryError(managerResult);
+    }
+  }
+
+  /**
+   * A department can't be its own parent, nor be moved under one of its
+   * subdepartments (that would create a cycle in the hierarchy).
+   */
+  private async ensureValidParent(id: number, parentId: number): Promise<void> {
+    if (parentId === id) {
+      throw new BadRequestException('A department cannot be its own parent');
+    }
+
+    await this.ensureParentExists(parentId);
+
+    const subtreeResult = await this.departmentsRepository.findSubtree(id);
+    if (!subtreeResult.Success) {
+      handleRepositoryError(subtreeResult);
+    }
+    if ((subtreeResult.ReturnedObject ?? []).some((d) => d.id === parentId)) {
+      throw new BadRequestException(
+        `Department ${parentId} is a subdepartment of ${id} (would create a cycle)`,
+      );
+    }
+  }
+
+  /** Serializes a list of departments in one of the file formats (same columns for all). */
+  async departmentsToFile(
+    rows: DepartmentResponseDto[],
+    format: ExportFormat,
+  ): Promise<Buffer | string> {
+    return rowsToFile(rows, DEPARTMENT_EXPORT_COLUMNS, format, 'Departments');
+  }
+
   async findAll(
     page?: number,
     pageSize?: number,
@@ -92,6 +316,43 @@ export class DepartmentsService {
     );
   }
 
+  /**
+   * Keyset (cursor) variant of findAll: `cursor` is the nextCursor/prevCursor
+   * of a previous page (undefined for the first one).
+   */
+  async findAllByCursor(
+    pageSize?: number,
+    searchName?: string,
+    sortBy?: string,
+    sortOrder?: 'ASC' | 'DESC',
+    cursor?: string,
+    withTotal: boolean = false,
+  ): Promise<CursorPaginationResult<DepartmentResponseDto[]>> {
+    const after = cursor ? decodeCursor(cursor) : null;
+    if (
+      cursor &&
+      (!after ||
+        !cursorMatchesSort(DEPARTMENT_LIST_QUERY, { sortBy, sortOrder }, after))
+    ) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    const result = await this.departmentsRepository.findAllByCursor(
+      pageSize,
+      searchName,
+      sortBy,
+      sortOrder,
+      after,
+      withTotal,
+    );
+
+    if (!result.Success) {
+      handleRepositoryError(result);
+    }
+
+    return result as CursorPaginationResult<DepartmentResponseDto[]>;
+  }
+
   async update(
     id: number,
     updateDepartmentDto: UpdateDepartmentDto,
@@ -106,6 +367,19 @@ export class DepartmentsService {
     }
     const before = result.ReturnedObject as Department;
 
+    if (
+      updateDepartmentDto.parentId !== undefined &&
+      updateDepartmentDto.parentId !== null
+    ) {
+      await this.ensureValidParent(id, updateDepartmentDto.parentId);
+    }
+    if (
+      updateDepartmentDto.managerEmployeeId !== undefined &&
+      updateDepartmentDto.managerEmployeeId !== null
+    ) {
+      await this.ensureManagerExists(updateDepartmentDto.managerEmployeeId);
+    }
+
     const resultUpdate = await this.departmentsRepository.update(
       id,
       updateDepartmentDto,
@@ -126,10 +400,20 @@ export class DepartmentsService {
     return updated;
   }
 
+  /**
+   * Deletes a department. Its active employees are handled by `strategy`:
+   * - block: refuse (409) while the department has employees
+   * - reassign: move them to `targetDepartmentId`
+   * - nullify: leave them without a department
+   * Moved employees get one audited update each, and `update` events are
+   * published after the department is gone. Subdepartments become top-level.
+   */
   async remove(
     id: number,
     actor: SessionUser,
     meta: AuditMetadata,
+    strategy: DepartmentDeleteStrategy = 'block',
+    targetDepartmentId?: number,
   ): Promise<DepartmentResponseDto> {
     const result = await this.departmentsRepository.findOneMaster(id);
 
@@ -138,18 +422,93 @@ export class DepartmentsService {
     }
 
     const departmentDto = result.ReturnedObject as DepartmentResponseDto;
+
+    const moved = await this.deleteWithEmployees(
+      id,
+      departmentDto,
+      actor,
+      meta,
+      strategy,
+      targetDepartmentId,
+    );
+
+    await this.employeesService.publishUpdated(moved);
+
+    return departmentDto;
+  }
+
+  /**
+   * The writes of remove(): employee moves and the department delete commit
+   * together, before remove() publishes the employee events.
+   */
+  @Transactional()
+  private async deleteWithEmployees(
+    id: number,
+    departmentDto: DepartmentResponseDto,
+    actor: SessionUser,
+    meta: AuditMetadata,
+    strategy: DepartmentDeleteStrategy,
+    targetDepartmentId?: number,
+  ): Promise<EmployeeResponseDto[]> {
+    let moved: EmployeeResponseDto[] = [];
+    if (strategy === 'block') {
+      const countResult =
+        await this.departmentsRepository.countActiveEmployees(id);
+      if (!countResult.Success) {
+        handleRepositoryError(countResult);
+      }
+      const count = countResult.ReturnedObject ?? 0;
+      if (count > 0) {
+        throw new ConflictException(
+          `Department ${id} still has ${count} employee(s). Use strategy=reassign or strategy=nullify`,
+        );
+      }
+    } else {
+      let target: number | null = null;
+      if (strategy === 'reassign') {
+        if (targetDepartmentId === undefined) {
+          throw new BadRequestException(
+            'targetDepartmentId is required for strategy=reassign',
+          );
+        }
+        if (targetDepartmentId === id) {
+          throw new BadRequestException(
+            'targetDepartmentId must be a different department',
+          );
+        }
+        await this.ensureDepartmentExists(
+          targetDepartmentId,
+          'Invalid targetDepartmentId',
+        );
+        target = targetDepartmentId;
+      }
+
+      moved = await this.employeesService.moveDepartmentEmployees(
+        id,
+        target,
+        actor,
+        meta,
+        { reason: 'department.deleted', departmentId: id, strategy },
+      );
+    }
+
     const resultDelete = await this.departmentsRepository.delete(id, {
       actorUserId: actor.id,
       actorType: actor.type,
       ip: meta.ip ?? null,
       userAgent: meta.userAgent ?? null,
-      data: { before: departmentDto },
+      data: {
+        before: departmentDto,
+        strategy,
+        targetDepartmentId: targetDepartmentId ?? null,
+        movedEmployeeIds: moved.map((e) => e.id),
+      },
     });
 
     if (!resultDelete.Success) {
       handleRepositoryError(resultDelete);
     }
 
-    return departmentDto;
+    return moved;
   }
 }
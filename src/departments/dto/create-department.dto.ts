@@ -1,5 +1,5 @@
-import { IsString, IsNotEmpty } from 'class-validator';
-import { ApiProperty } from '@nestjs/swagger';
+import { IsString, IsNotEmpty, IsInt, IsOptional } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 export class CreateDepartmentDto {
   @ApiProperty({
@@ -10,4 +10,22 @@ export class CreateDepartmentDto {
   @IsString()
   @IsNotEmpty()
   name: string;
+
+  @ApiPropertyOptional({
+    description: 'The parent department (null/omitted for a top-level one)',
+    example: 1,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsInt()
+  parentId?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'The employee who manages the department (null for none)',
+    example: 1,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsInt()
+  managerEmployeeId?: number | null;
 }
@@ -1,4 +1,4 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 export class DepartmentResponseDto {
   @ApiProperty({
@@ -13,6 +13,22 @@ export class DepartmentResponseDto {
   })
   name: string;
 
+  @ApiPropertyOptional({
+    description: 'The parent department (null for a top-level department)',
+    example: null,
+    nullable: true,
+    type: Number,
+  })
+  parentId?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'The employee who manages the department (null for none)',
+    example: null,
+    nullable: true,
+    type: Number,
+  })
+  managerEmployeeId?: number | null;
+
   @ApiProperty({
     description: 'The date and time when the department was created',
     example: '2024-01-15T10:30:00.000Z',
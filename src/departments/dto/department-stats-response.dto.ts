@@ -0,0 +1,86 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class HeadcountByRoleDto {
+  @ApiProperty({ description: 'Active interns', example: 1 })
+  INTERN: number;
+
+  @ApiProperty({ description: 'Active engineers', example: 5 })
+  ENGINEER: number;
+
+  @ApiProperty({ description: 'Active admins', example: 0 })
+  ADMIN: number;
+}
+
+export class MonthlyHiresDto {
+  @ApiProperty({ description: 'Calendar month (YYYY-MM)', example: '2024-05' })
+  month: string;
+
+  @ApiProperty({
+    description: 'Employees created in that month (still active)',
+    example: 3,
+  })
+  hires: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Difference with the previous month (null for the first month of the range)',
+    example: 1,
+    nullable: true,
+    type: Number,
+  })
+  change: number | null;
+}
+
+export class DepartmentStatsDto {
+  @ApiProperty({ description: 'Department ID', example: 1 })
+  departmentId: number;
+
+  @ApiProperty({ description: 'Department name', example: 'Engineering' })
+  departmentName: string;
+
+  @ApiProperty({
+    description: 'Active employees of the department',
+    example: 6,
+  })
+  headcount: number;
+
+  @ApiProperty({
+    description: 'Active employees per role',
+    type: HeadcountByRoleDto,
+  })
+  headcountByRole: HeadcountByRoleDto;
+
+  @ApiProperty({
+    description: 'Active employees without a profile photo',
+    example: 2,
+  })
+  withoutPhoto: number;
+
+  @ApiPropertyOptional({
+    description: 'Creation date of the newest active employee',
+    example: '2024-05-20T10:30:00.000Z',
+    nullable: true,
+    type: Date,
+  })
+  newestHireDate: Date | null;
+
+  @ApiProperty({
+    description: 'Hires per month, oldest first, including months with none',
+    type: [MonthlyHiresDto],
+  })
+  monthlyHires: MonthlyHiresDto[];
+}
+
+export class DepartmentStatsResponseDto {
+  @ApiProperty({
+    description: 'Number of months covered by `monthlyHires`',
+    example: 12,
+  })
+  months: number;
+
+  @ApiProperty({
+    description: 'One entry per department, ordered by name',
+    type: [DepartmentStatsDto],
+  })
+  departments: DepartmentStatsDto[];
+}
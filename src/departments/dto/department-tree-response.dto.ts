@@ -0,0 +1,10 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { DepartmentResponseDto } from './department-response.dto';
+
+export class DepartmentTreeResponseDto extends DepartmentResponseDto {
+  @ApiProperty({
+    description: 'Direct subdepartments, each with its own subtree',
+    type: () => [DepartmentTreeResponseDto],
+  })
+  children: DepartmentTreeResponseDto[];
+}
@@ -0,0 +1,81 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Role } from 'src/employees/entities/employee';
+
+export class OrgChartEmployeeDto {
+  @ApiProperty({ description: 'Employee ID', example: 1 })
+  id: number;
+
+  @ApiProperty({ description: 'Full name', example: 'Jane Smith' })
+  name: string;
+
+  @ApiProperty({
+    description: 'Email address',
+    example: 'jane.smith@example.com',
+  })
+  email: string;
+
+  @ApiProperty({
+    description: 'Role of the employee',
+    enum: Role,
+    example: Role.ENGINEER,
+  })
+  role: Role;
+
+  @ApiPropertyOptional({
+    description: 'Profile photo URL',
+    example: null,
+    nullable: true,
+    type: String,
+  })
+  photoUrl: string | null;
+
+  @ApiPropertyOptional({
+    description: 'The employee this one reports to',
+    example: null,
+    nullable: true,
+    type: Number,
+  })
+  managerId: number | null;
+}
+
+export class OrgChartDepartmentDto {
+  @ApiProperty({ description: 'Department ID', example: 1 })
+  id: number;
+
+  @ApiProperty({ description: 'Department name', example: 'Engineering' })
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'The employee who manages the department',
+    example: null,
+    nullable: true,
+    type: Number,
+  })
+  managerEmployeeId: number | null;
+
+  @ApiProperty({
+    description: 'Active employees of the department (not of subdepartments)',
+    type: [OrgChartEmployeeDto],
+  })
+  employees: OrgChartEmployeeDto[];
+
+  @ApiProperty({
+    description: 'Subdepartments, each with its own employees and children',
+    type: () => [OrgChartDepartmentDto],
+  })
+  children: OrgChartDepartmentDto[];
+}
+
+export class OrgChartResponseDto {
+  @ApiProperty({
+    description: 'Top-level departments (no parent)',
+    type: [OrgChartDepartmentDto],
+  })
+  departments: OrgChartDepartmentDto[];
+
+  @ApiProperty({
+    description: 'Active employees without a department',
+    type: [OrgChartEmployeeDto],
+  })
+  unassignedEmployees: OrgChartEmployeeDto[];
+}
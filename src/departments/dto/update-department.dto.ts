@@ -1,13 +1,33 @@
-import { IsString, IsNotEmpty } from 'class-validator';
-import { ApiProperty } from '@nestjs/swagger';
+import { IsString, IsNotEmpty, IsInt, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
 
 export class UpdateDepartmentDto {
-  @ApiProperty({
+  @ApiPropertyOptional({
     description: 'The name of the department',
     example: 'Sales',
     minLength: 3,
   })
+  @IsOptional()
   @IsString()
   @IsNotEmpty()
-  name: string;
+  name?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'The parent department (null to make it top-level). Cannot be the department itself or one of its subdepartments.',
+    example: 1,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsInt()
+  parentId?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'The employee who manages the department (null for none)',
+    example: 1,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsInt()
+  managerEmployeeId?: number | null;
 }
@@ -1,10 +1,37 @@
 export interface Department {
   id: number;
   name: string;
+  parentId?: number | null;
+  managerEmployeeId?: number | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
-export interface DepartmentWithTotalCount extends Department {
-  TotalCount: number;
+export interface DepartmentListFilter {
+  searchName?: string;
+}
+
+/** Fields the department list can be sorted by. */
+export type DepartmentSortField = 'id' | 'name' | 'createdAt' | 'updatedAt';
+
+/** What happens to a department's employees when it is deleted. */
+export type DepartmentDeleteStrategy = 'block' | 'reassign' | 'nullify';
+
+/** Aggregated counts of the active employees of one department. */
+export interface DepartmentStatsRow {
+  departmentId: number;
+  departmentName: string;
+  headcount: number;
+  interns: number;
+  engineers: number;
+  admins: number;
+  withoutPhoto: number;
+  newestHireDate: Date | null;
+}
+
+/** Active employees created in a given month (YYYY-MM) in one department. */
+export interface DepartmentMonthlyHiresRow {
+  departmentId: number;
+  month: string;
+  hires: number;
 }
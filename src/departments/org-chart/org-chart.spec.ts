@@ -0,0 +1,65 @@
+import { Role } from 'src/employees/entities/employee';
+import { Department } from '../entities/department';
+import { buildOrgChart, OrgChartEmployeeRow, orgChartToDot } from './org-chart';
+
+function department(id: number, name: string, parentId: number | null) {
+  return {
+    id,
+    name,
+    parentId,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  } as Department;
+}
+
+function employee(
+  id: number,
+  name: string,
+  departmentId: number | null,
+  managerId: number | null = null,
+): OrgChartEmployeeRow {
+  return {
+    id,
+    name,
+    email: `${id}@example.com`,
+    role: Role.ENGINEER,
+    photoUrl: null,
+    managerId,
+    departmentId,
+  };
+}
+
+describe('org chart', () => {
+  const departments = [
+    department(1, 'Engineering', null),
+    department(2, 'Platform', 1),
+    department(3, 'Orphan', 99),
+  ];
+  const employees = [
+    employee(10, 'Ada', 1),
+    employee(11, 'Linus "The" Dev', 2, 10),
+    employee(12, 'Nobody', null),
+  ];
+
+  it('nests departments and places employees in their department', () => {
+    const chart = buildOrgChart(departments, employees);
+
+    expect(chart.departments.map((d) => d.id)).toEqual([1, 3]);
+    expect(chart.departments[0].employees.map((e) => e.id)).toEqual([10]);
+    expect(chart.departments[0].children[0].id).toBe(2);
+    expect(chart.departments[0].children[0].employees[0]).not.toHaveProperty(
+      'departmentId',
+    );
+    expect(chart.unassignedEmployees.map((e) => e.id)).toEqual([12]);
+  });
+
+  it('renders nested clusters, escaped labels and reporting edges as DOT', () => {
+    const dot = orgChartToDot(buildOrgChart(departments, employees));
+
+    expect(dot).toContain('subgraph cluster_dept_1 {');
+    expect(dot).toContain('    subgraph cluster_dept_2 {');
+    expect(dot).toContain('emp_11 [label="Linus \\"The\\" Dev\\nENGINEER"];');
+    expect(dot).toContain('  emp_10 -> emp_11;');
+    expect(dot.trim().endsWith('}')).toBe(true);
+  });
+});
@@ -0,0 +1,114 @@
+import { Department } from '../entities/department';
+import {
+  OrgChartDepartmentDto,
+  OrgChartEmployeeDto,
+  OrgChartResponseDto,
+} from '../dto/org-chart-response.dto';
+
+export type OrgChartEmployeeRow = OrgChartEmployeeDto & {
+  departmentId: number | null;
+};
+
+/**
+ * Nests departments under their parents and places each employee in its
+ * department. Departments whose parent is missing are treated as top-level.
+ * Input order is kept, so sort the rows (e.g. by name) before calling this.
+ */
+export function buildOrgChart(
+  departments: Department[],
+  employees: OrgChartEmployeeRow[],
+): OrgChartResponseDto {
+  const nodes = new Map<number, OrgChartDepartmentDto>();
+  for (const d of departments) {
+    nodes.set(d.id, {
+      id: d.id,
+      name: d.name,
+      managerEmployeeId: d.managerEmployeeId ?? null,
+      employees: [],
+      children: [],
+    });
+  }
+
+  const roots: OrgChartDepartmentDto[] = [];
+  for (const d of departments) {
+    const node = nodes.get(d.id) as OrgChartDepartmentDto;
+    const parent = d.parentId ? nodes.get(d.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  const unassignedEmployees: OrgChartEmployeeDto[] = [];
+  for (const row of employees) {
+    const { departmentId, ...employee } = row;
+    const department = departmentId ? nodes.get(departmentId) : undefined;
+    if (department) {
+      department.employees.push(employee);
+    } else {
+      unassignedEmployees.push(employee);
+    }
+  }
+
+  return { departments: roots, unassignedEmployees };
+}
+
+function dotString(value: string): string {
+  return `"${value.replaceAll('\\', '\\\\').replaceAll('"', '\\"').replaceAll('\n', '\\n')}"`;
+}
+
+/**
+ * Renders the org chart as a Graphviz DOT digraph: departments are nested
+ * clusters, employees are nodes and reporting lines (managerId) are edges.
+ */
+export function orgChartToDot(chart: OrgChartResponseDto): string {
+  const lines: string[] = [
+    'digraph OrgChart {',
+    '  rankdir=TB;',
+    '  node [shape=box, style=rounded];',
+  ];
+  const employeeIds = new Set<number>();
+  const edges: string[] = [];
+
+  const addEmployees = (employees: OrgChartEmployeeDto[], indent: string) => {
+    for (const e of employees) {
+      employeeIds.add(e.id);
+      lines.push(
+        `${indent}emp_${e.id} [label=${dotString(`${e.name}\n${e.role}`)}];`,
+      );
+    }
+  };
+
+  const addDepartment = (department: OrgChartDepartmentDto, depth: number) => {
+    const indent = '  '.repeat(depth);
+    lines.push(`${indent}subgraph cluster_dept_${department.id} {`);
+    lines.push(`${indent}  label=${dotString(department.name)};`);
+    addEmployees(department.employees, `${indent}  `);
+    for (const child of department.children) {
+      addDepartment(child, depth + 1);
+    }
+    lines.push(`${indent}}`);
+  };
+
+  for (const department of chart.departments) {
+    addDepartment(department, 1);
+  }
+  addEmployees(chart.unassignedEmployees, '  ');
+
+  const collectEdges = (employees: OrgChartEmployeeDto[]) => {
+    for (const e of employees) {
+      if (e.managerId && employeeIds.has(e.managerId)) {
+        edges.push(`  emp_${e.managerId} -> emp_${e.id};`);
+      }
+    }
+  };
+  const walk = (department: OrgChartDepartmentDto) => {
+    collectEdges(department.employees);
+    department.children.forEach(walk);
+  };
+  chart.departments.forEach(walk);
+  collectEdges(chart.unassignedEmployees);
+
+  return [...lines, ...edges, '}', ''].join('\n');
+}
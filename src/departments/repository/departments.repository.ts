@@ -2,15 +2,49 @@ import { Injectable } from '@nestjs/common';
 import { MysqlDatabaseService } from 'src/database/mysql-database.service';
 import { handleDatabaseError } from 'src/common/error-handlers';
 import {
+  CursorPaginationResult,
   PaginationResult,
   ResultNoData,
   ResultWithData,
 } from 'src/common/result';
-import { Department, DepartmentWithTotalCount } from '../entities/department';
+import {
+  Department,
+  DepartmentListFilter,
+  DepartmentMonthlyHiresRow,
+  DepartmentSortField,
+  DepartmentStatsRow,
+} from '../entities/department';
 import { AuditContext } from 'src/audit/entities/AuditContext';
 import { CreateDepartmentDto } from '../dto/create-department.dto';
 import { AuditRepository } from 'src/audit/audit.repository';
 import { UpdateDepartmentDto } from '../dto/update-department.dto';
+import { OrgChartEmployeeRow } from '../org-chart/org-chart';
+import {
+  buildCursorQuery,
+  buildListQuery,
+  contains,
+  ListCursor,
+  ListQueryDefinition,
+  toCursorPage,
+} from 'src/database/list-query';
+
+/** Filters and sort fields accepted by the department listing. */
+export const DEPARTMENT_LIST_QUERY: ListQueryDefinition<
+  DepartmentListFilter,
+  DepartmentSortField
+> = {
+  table: 'Department',
+  filters: {
+    searchName: contains('name'),
+  },
+  sortFields: {
+    id: 'id',
+    name: 'name',
+    createdAt: 'createdAt',
+    updatedAt: 'updatedAt',
+  },
+  defaultSort: 'id',
+};
 
 @Injectable()
 export class DepartmentsRepository {
@@ -66,40 +100,26 @@ export class DepartmentsRepository {
   ): Promise<PaginationResult<Department[]>> {
     const result = new PaginationResult<Department[]>();
     try {
-      const currentPage = page && page > 0 ? page : 1;
-      const currentPageSize = pageSize && pageSize > 0 ? pageSize : 10;
+      const listQuery = buildListQuery(DEPARTMENT_LIST_QUERY, {
+        filter: { searchName },
+        page,
+        pageSize,
+        sortBy,
+        sortOrder,
+      });
 
-      const sql = 'CALL Departments_List(?, ?, ?, ?, ?)';
-      const rows = await this.databaseService.query<DepartmentWithTotalCount>(
-        sql,
-        [
-          currentPage,
-          currentPageSize,
-          searchName || null,
-          sortBy || null,
-          sortOrder || null,
-        ],
-      );
-
-      let departments: Department[] = [];
-      let totalCount = 0;
-
-      if (rows && rows.length > 0) {
-        const resultRows = Array.isArray(rows[0])
-          ? (rows[0] as DepartmentWithTotalCount[])
-          : rows;
-
-        if (resultRows.length > 0) {
-          totalCount = resultRows[0].TotalCount || 0;
-
-          departments = resultRows.map((row) => {
-            // eslint-disable-next-line @typescript-eslint/no-unused-vars
-            const { TotalCount, ...department } = row;
-            return department as Department;
-          });
-        }
-      }
+      const countRow = await this.databaseService.queryOne<{ count: number }>(
+        listQuery.countSql,
+        listQuery.countParams,
+      );
+      const totalCount = Number(countRow?.count ?? 0);
 
+      const departments = await this.databaseService.query<Department>(
+        listQuery.sql,
+        listQuery.params,
+      );
+      const currentPage = listQuery.page;
+      const currentPageSize = listQuery.pageSize;
       const totalPages = Math.ceil(totalCount / currentPageSize);
 
       result.Success = true;
@@ -131,6 +151,70 @@ export class DepartmentsRepository {
     }
   }
 
+  /**
+   * One page of a keyset (cursor) listing with the same filter and sorts as
+   * findAll. `cursor` is null for the first page; the COUNT(*) only runs when
+   * `withTotal` is set.
+   */
+  async findAllByCursor(
+    pageSize: number | undefined,
+    searchName: string | undefined,
+    sortBy: string | undefined,
+    sortOrder: 'ASC' | 'DESC' | undefined,
+    cursor: ListCursor | null,
+    withTotal: boolean,
+  ): Promise<CursorPaginationResult<Department[]>> {
+    const result = new CursorPaginationResult<Department[]>();
+    try {
+      const cursorQuery = buildCursorQuery(
+        DEPARTMENT_LIST_QUERY,
+        { filter: { searchName }, pageSize, sortBy, sortOrder },
+        cursor,
+      );
+
+      let totalCount: number | null = null;
+      if (withTotal) {
+        const countRow = await this.databaseService.queryOne<{
+          count: number;
+        }>(cursorQuery.countSql, cursorQuery.countParams);
+        totalCount = Number(countRow?.count ?? 0);
+      }
+
+      const rows = await this.databaseService.query<Department>(
+        cursorQuery.sql,
+        cursorQuery.params,
+      );
+      const page = toCursorPage(rows, cursorQuery, cursor !== null);
+
+      result.Success = true;
+      result.Message = 'Departments retrieved successfully';
+      result.ErrorCode = 0;
+      result.PageSize = cursorQuery.pageSize;
+      result.NextCursor = page.nextCursor;
+      result.PrevCursor = page.prevCursor;
+      result.Total = totalCount;
+      result.ReturnedObject = page.rows;
+      return result;
+    } catch (error) {
+      console.log('DepartmentsRepository.findAllByCursor. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to retrieve departments',
+      );
+      return new CursorPaginationResult<Department[]>(
+        errorResult.Success,
+        errorResult.Message,
+        pageSize && pageSize > 0 ? pageSize : 10,
+        null,
+        null,
+        null,
+        [],
+        errorResult.ErrorCode,
+      );
+    }
+  }
+
   async findOne(id: number): Promise<ResultWithData<Department | null>> {
     const result = new ResultWithData<Department | null>();
     try {
@@ -168,6 +252,230 @@ export class DepartmentsRepository {
     }
   }
 
+  /**
+   * The department and all its descendants (following parentId), ordered by
+   * depth then name. Empty when the department doesn't exist.
+   */
+  async findSubtree(
+    id: number,
+  ): Promise<ResultWithData<Array<Department & { depth: number }>>> {
+    const result = new ResultWithData<Array<Department & { depth: number }>>();
+    try {
+      const departments = await this.databaseService.query<
+        Department & { depth: number }
+      >(
+        `WITH RECURSIVE _tree AS (
+           SELECT d.*, 0 AS depth FROM Department d WHERE d.id = ?
+           UNION ALL
+           SELECT d.*, t.depth + 1 FROM Department d JOIN _tree t ON d.parentId = t.id
+         )
+         SELECT * FROM _tree ORDER BY depth, name, id`,
+        [id],
+      );
+
+      result.Success = true;
+      result.Message = 'Departments retrieved successfully';
+      result.ErrorCode = 0;
+      result.ReturnedObject = departments;
+      return result;
+    } catch (error) {
+      console.log('DepartmentsRepository.findSubtree. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to retrieve departments',
+      );
+      return new ResultWithData<Array<Department & { depth: number }>>(
+        errorResult.Success,
+        errorResult.Message,
+        [],
+        errorResult.ErrorCode,
+      );
+    }
+  }
+
+  /**
+   * Every department and every active employee (only the fields shown in the
+   * org chart), both ordered by name.
+   */
+  async findOrgChartData(): Promise<
+    ResultWithData<{
+      departments: Department[];
+      employees: OrgChartEmployeeRow[];
+    }>
+  > {
+    const result = new ResultWithData<{
+      departments: Department[];
+      employees: OrgChartEmployeeRow[];
+    }>();
+    try {
+      const departments = await this.databaseService.query<Department>(
+        'SELECT * FROM Department ORDER BY name, id',
+      );
+      const employees = await this.databaseService.query<OrgChartEmployeeRow>(
+        `SELECT id, name, email, role, photoUrl, managerId, departmentId
+         FROM Employee
+         WHERE deletedAt IS NULL
+         ORDER BY name, id`,
+      );
+
+      result.Success = true;
+      result.Message = 'Org chart retrieved successfully';
+      result.ErrorCode = 0;
+      result.ReturnedObject = { departments, employees };
+      return result;
+    } catch (error) {
+      console.log('DepartmentsRepository.findOrgChartData. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to retrieve org chart',
+      );
+      return new ResultWithData<{
+        departments: Department[];
+        employees: OrgChartEmployeeRow[];
+      }>(
+        errorResult.Success,
+        errorResult.Message,
+        { departments: [], employees: [] },
+        errorResult.ErrorCode,
+      );
+    }
+  }
+
+  /** Number of active (not soft deleted) employees directly in the department. */
+  /**
+   * Per-department aggregates of the active employees, plus their hires per
+   * month over the last `months` months (including the current one).
+   * `currentMonth` comes from the database clock so the month buckets agree.
+   */
+  async findStatsData(months: number): Promise<
+    ResultWithData<{
+      rows: DepartmentStatsRow[];
+      hires: DepartmentMonthlyHiresRow[];
+      currentMonth: string;
+    }>
+  > {
+    const result = new ResultWithData<{
+      rows: DepartmentStatsRow[];
+      hires: DepartmentMonthlyHiresRow[];
+      currentMonth: string;
+    }>();
+    try {
+      const rows = await this.databaseService.query<DepartmentStatsRow>(
+        `SELECT d.id AS departmentId, d.name AS departmentName,
+                COUNT(e.id) AS headcount,
+                SUM(e.role = 'INTERN') AS interns,
+                SUM(e.role = 'ENGINEER') AS engineers,
+                SUM(e.role = 'ADMIN') AS admins,
+                SUM(e.id IS NOT NULL AND (e.photoUrl IS NULL OR e.photoUrl = '')) AS withoutPhoto,
+                MAX(e.createdAt) AS newestHireDate
+         FROM Department d
+         LEFT JOIN Employee e ON e.departmentId = d.id AND e.deletedAt IS NULL
+         GROUP BY d.id, d.name
+         ORDER BY d.name, d.id`,
+      );
+      const hires = await this.databaseService.query<DepartmentMonthlyHiresRow>(
+        `SELECT departmentId, DATE_FORMAT(createdAt, '%Y-%m') AS month, COUNT(*) AS hires
+         FROM Employee
+         WHERE deletedAt IS NULL
+           AND departmentId IS NOT NULL
+           AND createdAt >= DATE_FORMAT(NOW() - INTERVAL ? MONTH, '%Y-%m-01')
+         GROUP BY departmentId, month`,
+        [months - 1],
+      );
+      const now = await this.databaseService.queryOne<{ currentMonth: string }>(
+        "SELECT DATE_FORMAT(NOW(), '%Y-%m') AS currentMonth",
+      );
+
+      result.Success = true;
+      result.Message = 'Department stats retrieved successfully';
+      result.ErrorCode = 0;
+      result.ReturnedObject = {
+        rows,
+        hires,
+        currentMonth: now?.currentMonth ?? new Date().toISOString().slice(0, 7),
+      };
+      return result;
+    } catch (error) {
+      console.log('DepartmentsRepository.findStatsData. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to retrieve department stats',
+      );
+      return new ResultWithData<{
+        rows: DepartmentStatsRow[];
+        hires: DepartmentMonthlyHiresRow[];
+        currentMonth: string;
+      }>(
+        errorResult.Success,
+        errorResult.Message,
+        { rows: [], hires: [], currentMonth: '' },
+        errorResult.ErrorCode,
+      );
+    }
+  }
+
+  async countActiveEmployees(id: number): Promise<ResultWithData<number>> {
+    const result = new ResultWithData<number>();
+    try {
+      const row = await this.databaseService.queryOneMaster<{ count: number }>(
+        'SELECT COUNT(*) AS count FROM Employee WHERE departmentId = ? AND deletedAt IS NULL',
+        [id],
+      );
+
+      result.Success = true;
+      result.Message = 'Employees counted successfully';
+      result.ErrorCode = 0;
+      result.ReturnedObject = Number(row?.count ?? 0);
+      return result;
+    } catch (error) {
+      console.log('DepartmentsRepository.countActiveEmployees. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to count employees',
+      );
+      return new ResultWithData<number>(
+        errorResult.Success,
+        errorResult.Message,
+        0,
+        errorResult.ErrorCode,
+      );
+    }
+  }
+
+  /** Checks that an active (not soft deleted) employee exists, e.g. to be a department manager. */
+  async activeEmployeeExists(employeeId: number): Promise<ResultNoData> {
+    const result = new ResultNoData();
+    try {
+      const row = await this.databaseService.queryOneMaster<{ id: number }>(
+        'SELECT id FROM Employee WHERE id = ? AND deletedAt IS NULL',
+        [employeeId],
+      );
+
+      result.Success = !!row;
+      result.Message = row
+        ? 'Employee exists'
+        : `Employee with id ${employeeId} not found`;
+      result.ErrorCode = row ? 0 : 404;
+      return result;
+    } catch (error) {
+      console.log('DepartmentsRepository.activeEmployeeExists. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to retrieve employee',
+      );
+      return new ResultNoData(
+        errorResult.Success,
+        errorResult.Message,
+        errorResult.ErrorCode,
+      );
+    }
+  }
+
   async create(
     createEmployeeDto: CreateDepartmentDto,
     audit?: AuditContext,
@@ -176,14 +484,16 @@ export class DepartmentsRepository {
 
     try {
       const sql = `
-        INSERT INTO Department (name, createdAt, updatedAt)
-        VALUES (?, NOW(), NOW())
+        INSERT INTO Department (name, parentId, managerEmployeeId, createdAt, updatedAt)
+        VALUES (?, ?, ?, NOW(), NOW())
       `;
 
       // execute() automatically handles sticky session - it marks a write and stores the connection
       // Subsequent query() calls in the same request will use the same connection (master)
       const resultDb = (await this.databaseService.execute(sql, [
         createEmployeeDto.name,
+        createEmployeeDto.parentId ?? null,
+        createEmployeeDto.managerEmployeeId ?? null,
       ])) as [{ insertId: number }, unknown];
 
       // resultDb from execute() is [ResultSetHeader, FieldPacket[]]
@@ -263,6 +573,16 @@ export class DepartmentsRepository {
         values.push(updateDepartmentDto.name);
       }
 
+      if (updateDepartmentDto.parentId !== undefined) {
+        updates.push('parentId = ?');
+        values.push(updateDepartmentDto.parentId);
+      }
+
+      if (updateDepartmentDto.managerEmployeeId !== undefined) {
+        updates.push('managerEmployeeId = ?');
+        values.push(updateDepartmentDto.managerEmployeeId);
+      }
+
       if (updates.length === 0) {
         result.Success = false;
         result.Message = 'No fields to update';
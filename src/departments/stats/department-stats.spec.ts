@@ -0,0 +1,66 @@
+import { DepartmentStatsRow } from '../entities/department';
+import { buildDepartmentStats, monthRange } from './department-stats';
+
+function row(departmentId: number, headcount: number): DepartmentStatsRow {
+  return {
+    departmentId,
+    departmentName: `Department ${departmentId}`,
+    headcount,
+    interns: 0,
+    engineers: headcount,
+    admins: 0,
+    withoutPhoto: 0,
+    newestHireDate: null,
+  };
+}
+
+describe('department stats', () => {
+  it('lists the months of the range oldest first, across a year change', () => {
+    expect(monthRange('2024-02', 4)).toEqual([
+      '2023-11',
+      '2023-12',
+      '2024-01',
+      '2024-02',
+    ]);
+  });
+
+  it('fills months without hires and computes the month-over-month change', () => {
+    const [stats] = buildDepartmentStats(
+      [row(1, 5)],
+      [
+        { departmentId: 1, month: '2024-01', hires: 2 },
+        { departmentId: 1, month: '2024-03', hires: 3 },
+      ],
+      '2024-03',
+      3,
+    );
+
+    expect(stats.monthlyHires).toEqual([
+      { month: '2024-01', hires: 2, change: null },
+      { month: '2024-02', hires: 0, change: -2 },
+      { month: '2024-03', hires: 3, change: 3 },
+    ]);
+  });
+
+  it('converts the string sums returned by MySQL to numbers', () => {
+    const [stats] = buildDepartmentStats(
+      [
+        {
+          ...row(2, 3),
+          interns: '1' as unknown as number,
+          engineers: '2' as unknown as number,
+          withoutPhoto: '1' as unknown as number,
+        },
+      ],
+      [],
+      '2024-03',
+      1,
+    );
+
+    expect(stats.headcountByRole).toEqual({ INTERN: 1, ENGINEER: 2, ADMIN: 0 });
+    expect(stats.withoutPhoto).toBe(1);
+    expect(stats.monthlyHires).toEqual([
+      { month: '2024-03', hires: 0, change: null },
+    ]);
+  });
+});
@@ -0,0 +1,71 @@
+import {
+  DepartmentMonthlyHiresRow,
+  DepartmentStatsRow,
+} from '../entities/department';
+import {
+  DepartmentStatsDto,
+  MonthlyHiresDto,
+} from '../dto/department-stats-response.dto';
+
+/** The `count` months (YYYY-MM) ending with `currentMonth`, oldest first. */
+export function monthRange(currentMonth: string, count: number): string[] {
+  const [year, month] = currentMonth.split('-').map(Number);
+  const months: string[] = [];
+  for (let i = count - 1; i >= 0; i--) {
+    const date = new Date(Date.UTC(year, month - 1 - i, 1));
+    months.push(
+      `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`,
+    );
+  }
+  return months;
+}
+
+/**
+ * Combines the per-department counts with the monthly hires. Every department
+ * gets one entry per month of the range (0 when nobody was hired), and
+ * `change` is the difference with the previous month.
+ * MySQL returns SUM() as a string, so every count goes through Number().
+ */
+export function buildDepartmentStats(
+  rows: DepartmentStatsRow[],
+  hires: DepartmentMonthlyHiresRow[],
+  currentMonth: string,
+  months: number,
+): DepartmentStatsDto[] {
+  const range = monthRange(currentMonth, months);
+
+  const hiresByDepartment = new Map<number, Map<string, number>>();
+  for (const h of hires) {
+    let byMonth = hiresByDepartment.get(h.departmentId);
+    if (!byMonth) {
+      byMonth = new Map<string, number>();
+      hiresByDepartment.set(h.departmentId, byMonth);
+    }
+    byMonth.set(h.month, Number(h.hires));
+  }
+
+  return rows.map((row) => {
+    const byMonth = hiresByDepartment.get(row.departmentId);
+    let previous: number | null = null;
+    const monthlyHires: MonthlyHiresDto[] = range.map((month) => {
+      const count = byMonth?.get(month) ?? 0;
+      const change = previous === null ? null : count - previous;
+      previous = count;
+      return { month, hires: count, change };
+    });
+
+    return {
+      departmentId: row.departmentId,
+      departmentName: row.departmentName,
+      headcount: Number(row.headcount),
+      headcountByRole: {
+        INTERN: Number(row.interns ?? 0),
+        ENGINEER: Number(row.engineers ?? 0),
+        ADMIN: Number(row.admins ?? 0),
+      },
+      withoutPhoto: Number(row.withoutPhoto ?? 0),
+      newestHireDate: row.newestHireDate ?? null,
+      monthlyHires,
+    };
+  });
+}
@@ -1,4 +1,11 @@
-import { IsString, IsEmail, IsEnum, IsNotEmpty, IsInt } from 'class-validator';
+import {
+  IsString,
+  IsEmail,
+  IsEnum,
+  IsNotEmpty,
+  IsInt,
+  IsOptional,
+} from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Role } from '../entities/employee';
 
@@ -45,4 +52,14 @@ export class CreateEmployeeDto {
     nullable: true,
   })
   photoUrl?: string | null;
+
+  @ApiPropertyOptional({
+    description:
+      'The employee this one reports to (null for no manager). Cannot create a reporting cycle.',
+    example: 1,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsInt()
+  managerId?: number | null;
 }
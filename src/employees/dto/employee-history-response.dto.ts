@@ -0,0 +1,86 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class EmployeeHistoryResponseDto {
+  @ApiProperty({
+    description: 'The moment the record was reconstructed for',
+    example: '2024-01-15T10:30:00.000Z',
+    type: String,
+    format: 'date-time',
+  })
+  asOf: Date;
+
+  @ApiProperty({
+    description: 'Whether the employee existed (and was not deleted) then',
+    example: true,
+  })
+  exists: boolean;
+
+  @ApiProperty({
+    description: 'Whether the employee was soft deleted then',
+    example: false,
+  })
+  deleted: boolean;
+
+  @ApiPropertyOptional({
+    description: 'The employee record as it was at that moment',
+    type: 'object',
+    additionalProperties: true,
+    nullable: true,
+  })
+  employee: Record<string, unknown> | null;
+
+  @ApiPropertyOptional({
+    description: 'The id of the last audit entry applied',
+    example: 120,
+    nullable: true,
+  })
+  lastEventId: number | null;
+
+  @ApiPropertyOptional({
+    description: 'When the last applied audit entry was recorded',
+    example: '2024-01-15T10:30:00.000Z',
+    type: String,
+    format: 'date-time',
+    nullable: true,
+  })
+  lastEventAt: Date | null;
+}
+
+export class EmployeeFieldChangeDto {
+  @ApiProperty({ description: 'The field name', example: 'email' })
+  field: string;
+
+  @ApiPropertyOptional({
+    description: 'The value at the start of the interval',
+    example: 'jane@old.example.com',
+    nullable: true,
+  })
+  from: unknown;
+
+  @ApiPropertyOptional({
+    description: 'The value at the end of the interval',
+    example: 'jane@example.com',
+    nullable: true,
+  })
+  to: unknown;
+}
+
+export class EmployeeHistoryDiffResponseDto {
+  @ApiProperty({
+    description: 'State of the employee at the start of the interval',
+    type: EmployeeHistoryResponseDto,
+  })
+  from: EmployeeHistoryResponseDto;
+
+  @ApiProperty({
+    description: 'State of the employee at the end of the interval',
+    type: EmployeeHistoryResponseDto,
+  })
+  to: EmployeeHistoryResponseDto;
+
+  @ApiProperty({
+    description: 'Fields whose value differs between the two moments',
+    type: [EmployeeFieldChangeDto],
+  })
+  changes: EmployeeFieldChangeDto[];
+}
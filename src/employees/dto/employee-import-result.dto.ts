@@ -0,0 +1,80 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export type EmployeeImportAction = 'create' | 'update' | 'unchanged' | 'reject';
+
+export class EmployeeImportRowDto {
+  @ApiProperty({
+    description: 'Line number in the CSV file (the header is line 1)',
+    example: 2,
+  })
+  line: number;
+
+  @ApiProperty({
+    description: 'What the import does (or would do) with the row',
+    enum: ['create', 'update', 'unchanged', 'reject'],
+    example: 'create',
+  })
+  action: EmployeeImportAction;
+
+  @ApiPropertyOptional({
+    description: 'The email of the row, used to match existing employees',
+    example: 'jane.smith@example.com',
+    nullable: true,
+  })
+  email: string | null;
+
+  @ApiPropertyOptional({
+    description: 'The id of the created/updated employee',
+    example: 42,
+    nullable: true,
+  })
+  employeeId: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Fields that change for updated rows',
+    type: [String],
+    example: ['name', 'role'],
+  })
+  changedFields?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Why the row was rejected',
+    type: [String],
+    example: [
+      'role must be one of the following values: INTERN, ENGINEER, ADMIN',
+    ],
+  })
+  errors?: string[];
+}
+
+export class EmployeeImportResultDto {
+  @ApiProperty({
+    description: 'Whether this was a dry run (nothing written)',
+    example: true,
+  })
+  dryRun: boolean;
+
+  @ApiProperty({ description: 'Number of data rows in the file', example: 3 })
+  total: number;
+
+  @ApiProperty({ description: 'Rows created', example: 1 })
+  created: number;
+
+  @ApiProperty({ description: 'Rows updated (matched by email)', example: 1 })
+  updated: number;
+
+  @ApiProperty({
+    description: 'Rows matching an employee with no changes',
+    example: 0,
+  })
+  unchanged: number;
+
+  @ApiProperty({ description: 'Rows rejected', example: 1 })
+  rejected: number;
+
+  @ApiProperty({
+    description: 'Row-by-row report',
+    type: [EmployeeImportRowDto],
+  })
+  rows: EmployeeImportRowDto[];
+}
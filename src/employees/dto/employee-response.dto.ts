@@ -45,6 +45,14 @@ export class EmployeeResponseDto {
   })
   photoUrl?: string | null;
 
+  @ApiPropertyOptional({
+    description: 'The employee this one reports to (null for no manager)',
+    example: null,
+    nullable: true,
+    type: Number,
+  })
+  managerId?: number | null;
+
   @ApiProperty({
     description: 'The date and time when the employee was created',
     example: '2024-01-15T10:30:00.000Z',
@@ -60,4 +68,30 @@ export class EmployeeResponseDto {
     format: 'date-time',
   })
   updatedAt: Date;
+
+  @ApiPropertyOptional({
+    description:
+      'The date and time when the employee was soft deleted (null when active)',
+    example: null,
+    type: String,
+    format: 'date-time',
+    nullable: true,
+  })
+  deletedAt?: Date | null;
+
+  @ApiPropertyOptional({
+    description: 'The id of the user who soft deleted the employee',
+    example: null,
+    nullable: true,
+  })
+  deletedBy?: string | null;
+}
+
+export class EmployeeReportingLineDto extends EmployeeResponseDto {
+  @ApiProperty({
+    description:
+      'Steps away from the requested employee (1 = direct report / direct manager)',
+    example: 1,
+  })
+  level: number;
 }
@@ -27,16 +27,25 @@ import {
   ApiBody,
   ApiConsumes,
   ApiCookieAuth,
+  ApiBearerAuth,
   ApiHeader,
   ApiProduces,
 } from '@nestjs/swagger';
 import { EmployeesService } from './employees.service';
 import { CreateEmployeeDto } from './dto/create-employee.dto';
 import { UpdateEmployeeDto } from './dto/update-employee.dto';
-import { EmployeeResponseDto } from './dto/employee-response.dto';
+import {
+  EmployeeReportingLineDto,
+  EmployeeResponseDto,
+} from './dto/employee-response.dto';
 import { Throttle, SkipThrottle } from '@nestjs/throttler';
 import { MyLoggerService } from 'src/my-logger/my-logger.service';
-import { Role } from './entities/employee';
+import {
+  EMPLOYEE_SORT_FIELDS,
+  EmployeeListFilter,
+  type EmployeeSortField,
+  Role,
+} from './entities/employee';
 import { SessionGuard } from 'src/auth/guards/session.guard';
 import { CurrentUser } from 'src/auth/decorators/current-user.decorator';
 import { SessionUser } from 'src/types/session-user.interface';
@@ -45,7 +54,23 @@ import { StorageService } from 'src/storage/storage.service';
 import { AuditMetaParam } from 'src/audit/decorators/audit-meta.decorator';
 import type { AuditMetadata } from 'src/audit/entities/auditMetadata';
 import { ErrorResponseDto } from 'src/common/dto/error-response.dto';
-import { AcceptsFormat } from 'src/auth/decorators/accept-format.decorator';
+import {
+  AcceptsFormat,
+  type ResponseFormat,
+} from 'src/auth/decorators/accept-format.decorator';
+import { exportFile } from 'src/common/export-formats';
+import {
+  EmployeeHistoryDiffResponseDto,
+  EmployeeHistoryResponseDto,
+} from './dto/employee-history-response.dto';
+import { EmployeeImportResultDto } from './dto/employee-import-result.dto';
+import {
+  parseBooleanParam,
+  parseDateParam,
+  parseEnumListParam,
+  parseIdListParam,
+  parseSortParam,
+} from 'src/common/tools';
 
 @ApiTags('employees')
 @SkipThrottle()
@@ -58,6 +83,49 @@ export class EmployeesController {
 
   private readonly logger = new MyLoggerService(EmployeesController.name);
 
+  /** The list body: JSON rows, or a file download for the other formats. */
+  private async respondWithEmployees(
+    employees: EmployeeResponseDto[],
+    format: ResponseFormat,
+  ) {
+    if (format !== 'json') {
+      const payload = await this.employeesService.employeesToFile(
+        employees,
+        format,
+      );
+      return exportFile(payload, format, 'employees');
+    }
+
+    return employees;
+  }
+
+  /** Validates the list/export filter query parameters (400 on bad values). */
+  private parseListFilter(query: {
+    role?: string;
+    searchName?: string;
+    searchEmail?: string;
+    departmentId?: string;
+    includeSubdepartments?: string;
+    createdFrom?: string;
+    createdTo?: string;
+    updatedFrom?: string;
+    updatedTo?: string;
+    hasPhoto?: string;
+  }): EmployeeListFilter {
+    return {
+      roles: parseEnumListParam(query.role, 'role', Object.values(Role)),
+      searchName: query.searchName,
+      searchEmail: query.searchEmail,
+      departmentIds: parseIdListParam(query.departmentId, 'departmentId'),
+      includeSubdepartments: query.includeSubdepartments === 'true',
+      createdFrom: parseDateParam(query.createdFrom, 'createdFrom'),
+      createdTo: parseDateParam(query.createdTo, 'createdTo'),
+      updatedFrom: parseDateParam(query.updatedFrom, 'updatedFrom'),
+      updatedTo: parseDateParam(query.updatedTo, 'updatedTo'),
+      hasPhoto: parseBooleanParam(query.hasPhoto, 'hasPhoto'),
+    };
+  }
+
   @Post()
   @ApiOperation({
     summary: 'Create a new employee',
@@ -98,6 +166,7 @@ export class EmployeesController {
   // authenticated user
   @UseGuards(SessionGuard)
   @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
   create(
     @Body(ValidationPipe) createEmployeeDto: CreateEmployeeDto,
     @CurrentUser() user: SessionUser | null,
@@ -117,18 +186,109 @@ export class EmployeesController {
     return this.employeesService.create(createEmployeeDto, user, auditMeta);
   }
 
+  @Post('import')
+  @ApiOperation({
+    summary: 'Import employees from CSV',
+    description:
+      'Bulk create/update employees from a CSV file (columns: name, email, role, departmentId and optionally photoUrl; other columns are ignored). Existing employees are matched by email. With dryRun=true nothing is written and a row-by-row report is returned. The real import runs in a single transaction and is refused if any row is rejected.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: 'CSV file (max 5MB)',
+        },
+      },
+    },
+  })
+  @ApiQuery({
+    name: 'dryRun',
+    required: false,
+    type: Boolean,
+    description: 'Validate only and return the report without writing',
+    example: true,
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Import report',
+    type: EmployeeImportResultDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Invalid file, missing columns or rejected rows (the report is included in the response)',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden (insufficient permissions)',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'Service unavailable (e.g., database connection error)',
+    type: ErrorResponseDto,
+  })
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: 5 * 1024 * 1024 } }),
+  )
+  @UseGuards(SessionGuard)
+  @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
+  async importCsv(
+    @CurrentUser() user: SessionUser | null,
+    @UploadedFile() file: Express.Multer.File,
+    @AuditMetaParam() auditMeta: AuditMetadata,
+    @Query('dryRun') dryRun?: string,
+  ): Promise<EmployeeImportResultDto> {
+    console.log('EmployeesController.importCsv. user', user);
+    if (!user) {
+      throw new UnauthorizedException('Unauthorized');
+    }
+
+    if (!file) {
+      throw new BadRequestException('No file provided');
+    }
+
+    const isCsv =
+      file.originalname?.toLowerCase().endsWith('.csv') ||
+      ['text/csv', 'application/vnd.ms-excel', 'text/plain'].includes(
+        file.mimetype,
+      );
+    if (!isCsv) {
+      throw new BadRequestException('Invalid file type. Expected a CSV file');
+    }
+
+    return this.employeesService.importCsv(
+      file,
+      dryRun === 'true',
+      user,
+      auditMeta,
+    );
+  }
+
   @SkipThrottle({ default: false })
   @Get()
   @ApiOperation({
     summary: 'Get all employees',
     description:
-      'Retrieve a list of all employees from the database. Supports filtering by role, searching by name/email, and sorting by createdAt or name.',
+      'Retrieve a list of all employees from the database. Supports filtering by roles, departments, created/updated date windows and photo presence, searching by name/email, and multi-column sorting.',
   })
   @ApiQuery({
     name: 'role',
     required: false,
-    enum: Role,
-    description: 'Filter employees by role',
+    type: String,
+    description: `Filter employees by role; comma separated for any of several (${Object.values(Role).join(', ')})`,
+    example: 'ENGINEER,ADMIN',
   })
   @ApiQuery({
     name: 'page',
@@ -161,15 +321,59 @@ export class EmployeesController {
   @ApiQuery({
     name: 'departmentId',
     required: false,
-    type: Number,
-    description: 'Filter employees by department ID',
-    example: 1,
+    type: String,
+    description:
+      'Filter employees by department ID; comma separated for any of several',
+    example: '1,4,7',
+  })
+  @ApiQuery({
+    name: 'includeSubdepartments',
+    required: false,
+    type: Boolean,
+    description:
+      'With departmentId, also include employees of all their subdepartments (default: false)',
+    example: true,
+  })
+  @ApiQuery({
+    name: 'createdFrom',
+    required: false,
+    type: String,
+    description: 'Only employees created at or after this date (ISO 8601)',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  @ApiQuery({
+    name: 'createdTo',
+    required: false,
+    type: String,
+    description: 'Only employees created at or before this date (ISO 8601)',
+    example: '2024-03-31T23:59:59.999Z',
+  })
+  @ApiQuery({
+    name: 'updatedFrom',
+    required: false,
+    type: String,
+    description: 'Only employees updated at or after this date (ISO 8601)',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  @ApiQuery({
+    name: 'updatedTo',
+    required: false,
+    type: String,
+    description: 'Only employees updated at or before this date (ISO 8601)',
+    example: '2024-03-31T23:59:59.999Z',
+  })
+  @ApiQuery({
+    name: 'hasPhoto',
+    required: false,
+    type: Boolean,
+    description: 'Only employees with (true) or without (false) a photo',
+    example: false,
   })
   @ApiQuery({
     name: 'sortBy',
     required: false,
-    enum: ['createdAt', 'name'],
-    description: 'Column to sort by (default: id)',
+    enum: ['id', 'name', 'email', 'role', 'createdAt', 'updatedAt'],
+    description: 'Column to sort by (default: id; id breaks ties)',
     example: 'createdAt',
   })
   @ApiQuery({
@@ -179,14 +383,50 @@ export class EmployeesController {
     description: 'Sort order (default: ASC)',
     example: 'ASC',
   })
+  @ApiQuery({
+    name: 'sort',
+    required: false,
+    type: String,
+    description:
+      'Multi-column sort, applied in order; prefix a field with "-" for descending (id, name, email, role, createdAt, updatedAt). Takes precedence over sortBy/sortOrder.',
+    example: '-createdAt,name',
+  })
+  @ApiQuery({
+    name: 'pagination',
+    required: false,
+    enum: ['offset', 'cursor'],
+    description:
+      'Pagination mode (default: offset). In cursor mode page is ignored, the opaque X-Next-Cursor/X-Prev-Cursor headers point to the neighbour pages and X-Total-Count is only sent with withTotal=true.',
+    example: 'cursor',
+  })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    type: String,
+    description:
+      'X-Next-Cursor or X-Prev-Cursor of a previous page (implies pagination=cursor). Only valid with the same sort it was issued for.',
+  })
+  @ApiQuery({
+    name: 'withTotal',
+    required: false,
+    type: Boolean,
+    description:
+      'In cursor mode, also count the matching rows (X-Total-Count). Default: false',
+    example: false,
+  })
   @ApiHeader({
     name: 'Accept',
     required: false,
     description:
-      'Response format via content negotiation. Use "text/csv" to download a CSV file; otherwise JSON is returned.',
+      'Response format via content negotiation. Use "text/csv" to download a CSV file, "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" for an Excel workbook or "application/x-ndjson" for newline-delimited JSON; otherwise JSON is returned.',
     example: 'text/csv',
   })
-  @ApiProduces('application/json', 'text/csv')
+  @ApiProduces(
+    'application/json',
+    'text/csv',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/x-ndjson',
+  )
   @ApiResponse({
     status: 200,
     description:
@@ -195,7 +435,8 @@ export class EmployeesController {
   })
   @ApiResponse({
     status: 200,
-    description: 'CSV file download (when Accept: text/csv).',
+    description:
+      'File download (when Accept is text/csv, the XLSX media type or application/x-ndjson).',
     content: {
       'text/csv': {
         schema: {
@@ -203,6 +444,18 @@ export class EmployeesController {
           format: 'binary',
         },
       },
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': {
+        schema: {
+          type: 'string',
+          format: 'binary',
+        },
+      },
+      'application/x-ndjson': {
+        schema: {
+          type: 'string',
+          format: 'binary',
+        },
+      },
     },
   })
   @ApiResponse({
@@ -227,20 +480,31 @@ export class EmployeesController {
   })
   @UseGuards(SessionGuard)
   @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
   @AllowedUserTypes('user')
   async findAll(
     @CurrentUser() user: SessionUser | null,
-    @AcceptsFormat() format: 'json' | 'csv',
+    @AcceptsFormat() format: ResponseFormat,
     @AuditMetaParam() auditMeta: AuditMetadata,
     @Res({ passthrough: true }) res: Response,
-    @Query('role') role?: Role,
+    @Query('role') role?: string,
     @Query('page') page?: number,
     @Query('pageSize') pageSize?: number,
     @Query('searchName') searchName?: string,
     @Query('searchEmail') searchEmail?: string,
-    @Query('departmentId') departmentId?: number,
-    @Query('sortBy') sortBy?: 'createdAt' | 'name',
+    @Query('departmentId') departmentId?: string,
+    @Query('sortBy') sortBy?: EmployeeSortField,
     @Query('sortOrder') sortOrder?: 'ASC' | 'DESC',
+    @Query('includeSubdepartments') includeSubdepartments?: string,
+    @Query('createdFrom') createdFrom?: string,
+    @Query('createdTo') createdTo?: string,
+    @Query('updatedFrom') updatedFrom?: string,
+    @Query('updatedTo') updatedTo?: string,
+    @Query('hasPhoto') hasPhoto?: string,
+    @Query('sort') sort?: string,
+    @Query('pagination') pagination?: 'offset' | 'cursor',
+    @Query('cursor') cursor?: string,
+    @Query('withTotal') withTotal?: string,
   ) {
     console.log('EmployeesController.findAll. user', user);
     console.log('EmployeesController.findAll. role', role);
@@ -254,15 +518,55 @@ export class EmployeesController {
       `Request for all Employees\t from ip: ${auditMeta.ip} | accept format: ${format}`,
     );
 
-    const result = await this.employeesService.findAll(
+    const filter = this.parseListFilter({
       role,
-      page,
-      pageSize,
       searchName,
       searchEmail,
       departmentId,
-      sortBy,
-      sortOrder,
+      includeSubdepartments,
+      createdFrom,
+      createdTo,
+      updatedFrom,
+      updatedTo,
+      hasPhoto,
+    });
+    // `sort` supersedes the single-column sortBy/sortOrder pair
+    const sortSpec =
+      parseSortParam(sort, EMPLOYEE_SORT_FIELDS) ??
+      parseSortParam(
+        `${sortOrder?.toUpperCase() === 'DESC' ? '-' : ''}${sortBy || 'id'}`,
+        EMPLOYEE_SORT_FIELDS,
+      );
+
+    if (pagination === 'cursor' || cursor !== undefined) {
+      const result = await this.employeesService.findAllByCursor(
+        filter,
+        pageSize,
+        sortSpec,
+        cursor,
+        withTotal === 'true',
+      );
+
+      res.setHeader('X-Page-Size', result.PageSize.toString());
+      res.setHeader('X-Has-Next-Page', (result.NextCursor !== null).toString());
+      res.setHeader(
+        'X-Has-Previous-Page',
+        (result.PrevCursor !== null).toString(),
+      );
+      if (result.NextCursor) res.setHeader('X-Next-Cursor', result.NextCursor);
+      if (result.PrevCursor) res.setHeader('X-Prev-Cursor', result.PrevCursor);
+      if (result.Total !== null) {
+        res.setHeader('X-Total-Count', result.Total.toString());
+      }
+
+      return this.respondWithEmployees(result.ReturnedObject ?? [], format);
+    }
+
+    const result = await this.employeesService.findAll(
+      filter,
+      page,
+      pageSize,
+      sortSpec,
     );
 
     const hasNextPage = result.Page < result.TotalPages;
@@ -275,42 +579,125 @@ export class EmployeesController {
     res.setHeader('X-Has-Next-Page', hasNextPage.toString());
     res.setHeader('X-Has-Previous-Page', hasPreviousPage.toString());
 
-    if (format === 'csv') {
-      const employees = result.ReturnedObject ?? [];
-      const csv = this.employeesService.employeesToCsv(employees);
-
-      // Prefix with UTF-8 BOM to improve Excel compatibility
-      const payload = Buffer.from(`\uFEFF${csv}`, 'utf8');
-      return new StreamableFile(payload, {
-        type: 'text/csv; charset=utf-8',
-        disposition: 'attachment; filename="employees.csv"',
-      });
-    }
-
-    return result.ReturnedObject;
+    return this.respondWithEmployees(result.ReturnedObject ?? [], format);
   }
 
-  @Throttle({ short: { ttl: 1000, limit: 1 } })
-  @Get(':id')
+  @Get('export')
   @ApiOperation({
-    summary: 'Get employee by ID',
+    summary: 'Export all employees as CSV',
     description:
-      'Retrieve a specific employee by their unique identifier from the database',
+      'Streams every employee matching the filters as a CSV file, ignoring pagination. Rows are read in batches with a keyset scan, so large exports do not need to fit in memory. Use `columns` to choose which columns to include.',
   })
-  @ApiParam({
-    name: 'id',
+  @ApiQuery({
+    name: 'role',
+    required: false,
     type: String,
-    description: 'Employee ID',
-    example: '1',
+    description: `Filter employees by role; comma separated for any of several (${Object.values(Role).join(', ')})`,
+    example: 'ENGINEER,ADMIN',
+  })
+  @ApiQuery({
+    name: 'searchName',
+    required: false,
+    type: String,
+    description: 'Search employees by name (partial match)',
+    example: 'John',
+  })
+  @ApiQuery({
+    name: 'searchEmail',
+    required: false,
+    type: String,
+    description: 'Search employees by email (partial match)',
+    example: 'john@example.com',
+  })
+  @ApiQuery({
+    name: 'departmentId',
+    required: false,
+    type: String,
+    description:
+      'Filter employees by department ID; comma separated for any of several',
+    example: '1,4,7',
+  })
+  @ApiQuery({
+    name: 'includeSubdepartments',
+    required: false,
+    type: Boolean,
+    description:
+      'With departmentId, also include employees of all their subdepartments (default: false)',
+    example: true,
+  })
+  @ApiQuery({
+    name: 'createdFrom',
+    required: false,
+    type: String,
+    description: 'Only employees created at or after this date (ISO 8601)',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  @ApiQuery({
+    name: 'createdTo',
+    required: false,
+    type: String,
+    description: 'Only employees created at or before this date (ISO 8601)',
+    example: '2024-03-31T23:59:59.999Z',
+  })
+  @ApiQuery({
+    name: 'updatedFrom',
+    required: false,
+    type: String,
+    description: 'Only employees updated at or after this date (ISO 8601)',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  @ApiQuery({
+    name: 'updatedTo',
+    required: false,
+    type: String,
+    description: 'Only employees updated at or before this date (ISO 8601)',
+    example: '2024-03-31T23:59:59.999Z',
+  })
+  @ApiQuery({
+    name: 'hasPhoto',
+    required: false,
+    type: Boolean,
+    description: 'Only employees with (true) or without (false) a photo',
+    example: false,
+  })
+  @ApiQuery({
+    name: 'sortBy',
+    required: false,
+    enum: ['createdAt', 'name'],
+    description: 'Column to sort by (default: id)',
+    example: 'createdAt',
+  })
+  @ApiQuery({
+    name: 'sortOrder',
+    required: false,
+    enum: ['ASC', 'DESC'],
+    description: 'Sort order (default: ASC)',
+    example: 'ASC',
+  })
+  @ApiQuery({
+    name: 'columns',
+    required: false,
+    type: String,
+    description:
+      'Comma separated list of columns to include (default: id,name,email,role,departmentId,photoUrl,createdAt,updatedAt,managerId)',
+    example: 'id,name,email',
   })
+  @ApiProduces('text/csv')
   @ApiResponse({
     status: 200,
-    description: 'Employee retrieved successfully',
-    type: EmployeeResponseDto,
+    description: 'CSV file download',
+    content: {
+      'text/csv': {
+        schema: {
+          type: 'string',
+          format: 'binary',
+        },
+      },
+    },
   })
   @ApiResponse({
-    status: 404,
-    description: 'Employee not found',
+    status: 400,
+    description: 'Invalid query parameters (e.g., unknown column)',
     type: ErrorResponseDto,
   })
   @ApiResponse({
@@ -323,25 +710,408 @@ export class EmployeesController {
     description: 'Forbidden (insufficient permissions)',
     type: ErrorResponseDto,
   })
-  @ApiResponse({
-    status: 503,
-    description: 'Service unavailable (e.g., database connection error)',
-    type: ErrorResponseDto,
-  })
   @UseGuards(SessionGuard)
   @ApiCookieAuth('session-id')
-  findOne(@CurrentUser() user: SessionUser | null, @Param('id') id: string) {
-    console.log('EmployeesController.findOne. user', user);
-    console.log('EmployeesController.findOne. id', id);
+  @ApiBearerAuth()
+  @AllowedUserTypes('user')
+  exportCsv(
+    @CurrentUser() user: SessionUser | null,
+    @AuditMetaParam() auditMeta: AuditMetadata,
+    @Query('role') role?: string,
+    @Query('searchName') searchName?: string,
+    @Query('searchEmail') searchEmail?: string,
+    @Query('departmentId') departmentId?: string,
+    @Query('sortBy') sortBy?: 'createdAt' | 'name',
+    @Query('sortOrder') sortOrder?: 'ASC' | 'DESC',
+    @Query('columns') columns?: string,
+    @Query('includeSubdepartments') includeSubdepartments?: string,
+    @Query('createdFrom') createdFrom?: string,
+    @Query('createdTo') createdTo?: string,
+    @Query('updatedFrom') updatedFrom?: string,
+    @Query('updatedTo') updatedTo?: string,
+    @Query('hasPhoto') hasPhoto?: string,
+  ) {
     if (!user) {
       throw new UnauthorizedException('Unauthorized');
     }
 
-    return this.employeesService.findOne(+id);
-  }
+    this.logger.log(`Request for Employees export\t from ip: ${auditMeta.ip}`);
 
-  @Patch(':id')
-  @ApiOperation({
+    const selectedColumns = this.employeesService.parseExportColumns(columns);
+    const stream = this.employeesService.exportCsvStream(
+      this.parseListFilter({
+        role,
+        searchName,
+        searchEmail,
+        departmentId,
+        includeSubdepartments,
+        createdFrom,
+        createdTo,
+        updatedFrom,
+        updatedTo,
+        hasPhoto,
+      }),
+      selectedColumns,
+      sortBy,
+      sortOrder,
+    );
+
+    return new StreamableFile(stream, {
+      type: 'text/csv; charset=utf-8',
+      disposition: 'attachment; filename="employees.csv"',
+    });
+  }
+
+  @Get('deleted')
+  @ApiOperation({
+    summary: 'List deleted employees',
+    description:
+      'Retrieve a paginated list of soft deleted employees (trash), most recently deleted first. Pagination metadata is returned via response headers.',
+  })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Page number (default: 1)',
+    example: 1,
+  })
+  @ApiQuery({
+    name: 'pageSize',
+    required: false,
+    type: Number,
+    description: 'Number of items per page (default: 10)',
+    example: 10,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'List of deleted employees for the current page',
+    type: [EmployeeResponseDto],
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'Service unavailable (e.g., database connection error)',
+    type: ErrorResponseDto,
+  })
+  @UseGuards(SessionGuard)
+  @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
+  async findDeleted(
+    @CurrentUser() user: SessionUser | null,
+    @Res({ passthrough: true }) res: Response,
+    @Query('page') page?: number,
+    @Query('pageSize') pageSize?: number,
+  ) {
+    if (!user) {
+      throw new UnauthorizedException('Unauthorized');
+    }
+
+    const result = await this.employeesService.findAllDeleted(page, pageSize);
+
+    const hasNextPage = result.Page < result.TotalPages;
+    const hasPreviousPage = result.Page > 1;
+    res.setHeader('X-Total-Count', result.Total.toString());
+    res.setHeader('X-Page', result.Page.toString());
+    res.setHeader('X-Page-Size', result.PageSize.toString());
+    res.setHeader('X-Total-Pages', result.TotalPages.toString());
+    res.setHeader('X-Has-Next-Page', hasNextPage.toString());
+    res.setHeader('X-Has-Previous-Page', hasPreviousPage.toString());
+
+    return result.ReturnedObject;
+  }
+
+  @Throttle({ short: { ttl: 1000, limit: 1 } })
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get employee by ID',
+    description:
+      'Retrieve a specific employee by their unique identifier from the database',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Employee ID',
+    example: '1',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Employee retrieved successfully',
+    type: EmployeeResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Employee not found',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden (insufficient permissions)',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'Service unavailable (e.g., database connection error)',
+    type: ErrorResponseDto,
+  })
+  @UseGuards(SessionGuard)
+  @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
+  findOne(@CurrentUser() user: SessionUser | null, @Param('id') id: string) {
+    console.log('EmployeesController.findOne. user', user);
+    console.log('EmployeesController.findOne. id', id);
+    if (!user) {
+      throw new UnauthorizedException('Unauthorized');
+    }
+
+    return this.employeesService.findOne(+id);
+  }
+
+  @Get(':id/history')
+  @ApiOperation({
+    summary: 'Get employee as of a point in time',
+    description:
+      'Reconstruct what the employee record looked like at a given moment by replaying its audit history.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Employee ID',
+    example: '1',
+  })
+  @ApiQuery({
+    name: 'asOf',
+    required: false,
+    type: String,
+    description: 'Point in time (ISO 8601, default: now)',
+    example: '2024-01-15T10:30:00.000Z',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Employee record at the given moment',
+    type: EmployeeHistoryResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid query parameters',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'No history recorded for the employee at that moment',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'Service unavailable (e.g., database connection error)',
+    type: ErrorResponseDto,
+  })
+  @UseGuards(SessionGuard)
+  @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
+  getHistory(
+    @CurrentUser() user: SessionUser | null,
+    @Param('id') id: string,
+    @Query('asOf') asOf?: string,
+  ) {
+    if (!user) {
+      throw new UnauthorizedException('Unauthorized');
+    }
+
+    return this.employeesService.getHistory(+id, parseDateParam(asOf, 'asOf'));
+  }
+
+  @Get(':id/history/diff')
+  @ApiOperation({
+    summary: 'Compare employee between two points in time',
+    description:
+      'Reconstruct the employee record at two moments from its audit history and return the field-level differences.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Employee ID',
+    example: '1',
+  })
+  @ApiQuery({
+    name: 'from',
+    required: true,
+    type: String,
+    description: 'Start of the interval (ISO 8601)',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  @ApiQuery({
+    name: 'to',
+    required: false,
+    type: String,
+    description: 'End of the interval (ISO 8601, default: now)',
+    example: '2024-02-01T00:00:00.000Z',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Employee records at both moments and their differences',
+    type: EmployeeHistoryDiffResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid query parameters',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'No history recorded for the employee in that interval',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'Service unavailable (e.g., database connection error)',
+    type: ErrorResponseDto,
+  })
+  @UseGuards(SessionGuard)
+  @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
+  getHistoryDiff(
+    @CurrentUser() user: SessionUser | null,
+    @Param('id') id: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ) {
+    if (!user) {
+      throw new UnauthorizedException('Unauthorized');
+    }
+
+    const fromDate = parseDateParam(from, 'from');
+    if (!fromDate) {
+      throw new BadRequestException('from is required');
+    }
+
+    return this.employeesService.getHistoryDiff(
+      +id,
+      fromDate,
+      parseDateParam(to, 'to'),
+    );
+  }
+
+  @Get(':id/reports')
+  @ApiOperation({
+    summary: 'Get employee reports',
+    description:
+      'List the employees reporting to this one, directly (level 1) and transitively through their managers.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Employee ID',
+    example: '1',
+  })
+  @ApiQuery({
+    name: 'directOnly',
+    required: false,
+    type: Boolean,
+    description: 'Only return direct reports (default: false)',
+    example: false,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Reports ordered by level, then name',
+    type: [EmployeeReportingLineDto],
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Employee not found',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'Service unavailable (e.g., database connection error)',
+    type: ErrorResponseDto,
+  })
+  @UseGuards(SessionGuard)
+  @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
+  findReports(
+    @CurrentUser() user: SessionUser | null,
+    @Param('id') id: string,
+    @Query('directOnly') directOnly?: string,
+  ) {
+    if (!user) {
+      throw new UnauthorizedException('Unauthorized');
+    }
+
+    return this.employeesService.findReports(+id, directOnly === 'true');
+  }
+
+  @Get(':id/chain')
+  @ApiOperation({
+    summary: 'Get employee management chain',
+    description:
+      'List the managers above this employee, from the direct manager (level 1) up to the top of the organization.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Employee ID',
+    example: '1',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Managers ordered from the direct manager upwards',
+    type: [EmployeeReportingLineDto],
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Employee not found',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'Service unavailable (e.g., database connection error)',
+    type: ErrorResponseDto,
+  })
+  @UseGuards(SessionGuard)
+  @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
+  findManagementChain(
+    @CurrentUser() user: SessionUser | null,
+    @Param('id') id: string,
+  ) {
+    if (!user) {
+      throw new UnauthorizedException('Unauthorized');
+    }
+
+    return this.employeesService.findManagementChain(+id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({
     summary: 'Update employee',
     description:
       'Update an existing employee record. Only provided fields will be updated.',
@@ -393,6 +1163,7 @@ export class EmployeesController {
   })
   @UseGuards(SessionGuard)
   @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
   update(
     @CurrentUser() user: SessionUser | null,
     @Param('id') id: string,
@@ -421,7 +1192,7 @@ export class EmployeesController {
   @ApiOperation({
     summary: 'Delete employee',
     description:
-      'Delete an employee record from the database by their unique identifier',
+      'Soft delete an employee by their unique identifier. The record is hidden from listings and lookups but can be restored via POST /employees/{id}/restore.',
   })
   @ApiParam({
     name: 'id',
@@ -468,6 +1239,124 @@ export class EmployeesController {
     return this.employeesService.remove(+id, user, auditMeta);
   }
 
+  @Post(':id/restore')
+  @ApiOperation({
+    summary: 'Restore deleted employee',
+    description:
+      'Restore a soft deleted employee so it shows up again in listings and lookups',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Employee ID',
+    example: '1',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Employee restored successfully',
+    type: EmployeeResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Employee not found',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict (employee is not deleted)',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'Service unavailable (e.g., database connection error)',
+    type: ErrorResponseDto,
+  })
+  @UseGuards(SessionGuard)
+  @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
+  restore(
+    @CurrentUser() user: SessionUser | null,
+    @Param('id') id: string,
+    @AuditMetaParam() auditMeta: AuditMetadata,
+  ) {
+    if (!user) {
+      throw new UnauthorizedException('Unauthorized');
+    }
+
+    return this.employeesService.restore(+id, user, auditMeta);
+  }
+
+  @Post(':id/revert/:auditId')
+  @ApiOperation({
+    summary: 'Revert employee to a previous version',
+    description:
+      'Restore the employee fields (name, email, role, department, manager) to the "before" snapshot stored in an audit entry. The revert is applied as a regular update, so it is audited and published as an update event.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Employee ID',
+    example: '1',
+  })
+  @ApiParam({
+    name: 'auditId',
+    type: String,
+    description: 'Audit entry ID whose "before" snapshot should be restored',
+    example: '120',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Employee reverted successfully',
+    type: EmployeeResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Audit entry does not belong to the employee or has no previous version',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Employee or audit entry not found',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description:
+      'Conflict (the previous email is now used by another employee)',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'Service unavailable (e.g., database connection error)',
+    type: ErrorResponseDto,
+  })
+  @UseGuards(SessionGuard)
+  @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
+  revert(
+    @CurrentUser() user: SessionUser | null,
+    @Param('id') id: string,
+    @Param('auditId') auditId: string,
+    @AuditMetaParam() auditMeta: AuditMetadata,
+  ) {
+    if (!user) {
+      throw new UnauthorizedException('Unauthorized');
+    }
+
+    return this.employeesService.revert(+id, +auditId, user, auditMeta);
+  }
+
   @Post(':id/photo')
   @ApiOperation({
     summary: 'Upload employee photo',
@@ -526,6 +1415,7 @@ export class EmployeesController {
   @UseInterceptors(FileInterceptor('file'))
   @UseGuards(SessionGuard)
   @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
   async uploadPhoto(
     @CurrentUser() user: SessionUser | null,
     @Param('id') id: string,
@@ -583,6 +1473,7 @@ export class EmployeesController {
   })
   @UseGuards(SessionGuard)
   @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
   async deletePhoto(
     @CurrentUser() user: SessionUser | null,
     @Param('id') id: string,
@@ -1,4 +1,4 @@
-import { Module } from '@nestjs/common';
+import { forwardRef, Module } from '@nestjs/common';
 import { EmployeesService } from './employees.service';
 import { EmployeesController } from './employees.controller';
 import { EmployeesRepository } from './repository/employees.repository';
@@ -16,9 +16,10 @@ import { DepartmentsModule } from 'src/departments/departments.module';
     AuditModule,
     RabbitMQSenderModule,
     RabbitMQConsumerModule,
-    DepartmentsModule,
+    forwardRef(() => DepartmentsModule),
   ],
   controllers: [EmployeesController],
   providers: [EmployeesService, EmployeesRepository],
+  exports: [EmployeesService],
 })
 export class EmployeesModule {}
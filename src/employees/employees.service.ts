@@ -1,20 +1,82 @@
-import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { EmployeesRepository } from './repository/employees.repository';
+import {
+  EMPLOYEE_LIST_QUERY,
+  EmployeesRepository,
+} from './repository/employees.repository';
+import { cursorMatchesSort, decodeCursor } from 'src/database/list-query';
 import { CreateEmployeeDto } from './dto/create-employee.dto';
 import { UpdateEmployeeDto } from './dto/update-employee.dto';
-import { Employee, Role } from './entities/employee';
+import {
+  Employee,
+  EmployeeChanges,
+  EmployeeKeysetCursor,
+  EmployeeListFilter,
+  EmployeeSortField,
+} from './entities/employee';
+import { Readable } from 'stream';
+import {
+  csvLine,
+  ExportColumn,
+  ExportFormat,
+  rowsToFile,
+} from 'src/common/export-formats';
 import { handleRepositoryError } from 'src/common/error-handlers';
-import { EmployeeResponseDto } from './dto/employee-response.dto';
-import { PaginationResult } from 'src/common/result';
+import {
+  EmployeeReportingLineDto,
+  EmployeeResponseDto,
+} from './dto/employee-response.dto';
+import { CursorPaginationResult, PaginationResult } from 'src/common/result';
 import { StorageService } from 'src/storage/storage.service';
 import { SessionUser } from 'src/types/session-user.interface';
-import { AuditContext } from 'src/audit/entities/AuditContext';
+import type { AuditContext } from 'src/audit/entities/AuditContext';
 import { AuditMetadata } from 'src/audit/entities/auditMetadata';
 import { RabbitMqSenderService } from 'src/rabbiMQ/sender/rabbitMqSender.service';
 import { DepartmentsRepository } from 'src/departments/repository/departments.repository';
-import { csvEscape } from 'src/common/tools';
+import { parseCsv, SortSpec } from 'src/common/tools';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
 import { RedisService } from 'src/redis/redis.service';
+import { AuditRepository } from 'src/audit/audit.repository';
+import { AuditLog } from 'src/audit/entities/auditLog';
+import {
+  diffEmployeeSnapshots,
+  replayEmployeeHistory,
+} from './history/employee-history';
+import {
+  EmployeeImportResultDto,
+  EmployeeImportRowDto,
+} from './dto/employee-import-result.dto';
+import {
+  EmployeeHistoryDiffResponseDto,
+  EmployeeHistoryResponseDto,
+} from './dto/employee-history-response.dto';
+import { Transactional } from 'src/database/transaction';
+
+/** One CSV row of an import with what will be written for it. */
+type ImportPlanEntry = {
+  report: EmployeeImportRowDto;
+  createDto?: CreateEmployeeDto;
+  existing?: Employee;
+  changes?: UpdateEmployeeDto;
+};
+
+export const EMPLOYEE_EXPORT_COLUMNS: ExportColumn<EmployeeResponseDto>[] = [
+  { key: 'id', type: 'number' },
+  { key: 'name', type: 'string' },
+  { key: 'email', type: 'string' },
+  { key: 'role', type: 'string' },
+  { key: 'departmentId', type: 'number' },
+  { key: 'photoUrl', type: 'string' },
+  { key: 'createdAt', type: 'date' },
+  { key: 'updatedAt', type: 'date' },
+  { key: 'managerId', type: 'number' },
+];
 
 @Injectable()
 export class EmployeesService {
@@ -22,6 +84,8 @@ export class EmployeesService {
 
   private CACHE_TTL_SECONDS = 60;
   private CACHE_ENABLED = false;
+  private readonly IMPORT_MAX_ROWS = 5000;
+  private readonly EXPORT_BATCH_SIZE = 1000;
 
   constructor(
     private readonly employeesRepository: EmployeesRepository,
@@ -30,6 +94,7 @@ export class EmployeesService {
     private readonly configService: ConfigService,
     private readonly departmentsRepository: DepartmentsRepository,
     private readonly redisService: RedisService,
+    private readonly auditRepository: AuditRepository,
   ) {
     this.CACHE_TTL_SECONDS = this.configService.get<number>(
       'CACHE_TTL_SECONDS',
@@ -45,28 +110,22 @@ export class EmployeesService {
     );
   }
 
-  public employeesToCsv(rows: EmployeeResponseDto[]): string {
-    const columns: Array<keyof EmployeeResponseDto> = [
-      'id',
-      'name',
-      'email',
-      'role',
-      'departmentId',
-      'photoUrl',
-      'createdAt',
-      'updatedAt',
-    ];
-
-    const header = columns.join(',');
-    const lines = rows.map((r) =>
-      columns.map((c) => csvEscape(r?.[c])).join(','),
-    );
-
-    return [header, ...lines].join('\r\n');
+  /** Serializes a list of employees in one of the file formats (same columns for all). */
+  public async employeesToFile(
+    rows: EmployeeResponseDto[],
+    format: ExportFormat,
+  ): Promise<Buffer | string> {
+    return rowsToFile(rows, EMPLOYEE_EXPORT_COLUMNS, format, 'Employees');
   }
 
   private async publishEmployeeEvent(
-    eventType: 'create' | 'update' | 'delete' | 'photo_upload' | 'photo_delete',
+    eventType:
+      | 'create'
+      | 'update'
+      | 'delete'
+      | 'restore'
+      | 'photo_upload'
+      | 'photo_delete',
     content: EmployeeResponseDto,
   ): Promise<void> {
     // Publishing is controlled by env var:
@@ -134,6 +193,13 @@ export class EmployeesService {
       }
     }
 
+    if (
+      createEmployeeDto.managerId !== undefined &&
+      createEmployeeDto.managerId !== null
+    ) {
+      await this.ensureManagerExists(createEmployeeDto.managerId);
+    }
+
     const result = await this.employeesRepository.create(
       createEmployeeDto,
       auditContext,
@@ -159,39 +225,44 @@ export class EmployeesService {
     return result.ReturnedObject as EmployeeResponseDto;
   }
 
+  private ensureValidDateWindows(filter: EmployeeListFilter): void {
+    if (
+      filter.createdFrom &&
+      filter.createdTo &&
+      filter.createdFrom > filter.createdTo
+    ) {
+      throw new BadRequestException('createdFrom must be before createdTo');
+    }
+    if (
+      filter.updatedFrom &&
+      filter.updatedTo &&
+      filter.updatedFrom > filter.updatedTo
+    ) {
+      throw new BadRequestException('updatedFrom must be before updatedTo');
+    }
+  }
+
   private getCacheKey(
-    role?: Role,
+    filter: EmployeeListFilter,
     page?: number,
     pageSize?: number,
-    searchName?: string,
-    searchEmail?: string,
-    departmentId?: number,
-    sortBy?: string,
-    sortOrder?: 'ASC' | 'DESC',
+    sort?: SortSpec<EmployeeSortField>[],
   ): string {
-    return `employees:${role}:${page}:${pageSize}:${searchName}:${searchEmail}:${departmentId}:${sortBy}:${sortOrder}`;
+    const sortKey = (sort ?? [])
+      .map((s) => `${s.order === 'DESC' ? '-' : ''}${s.field}`)
+      .join(',');
+    return `employees:${page}:${pageSize}:${sortKey}:${JSON.stringify(filter)}`;
   }
 
   async findAll(
-    role?: Role,
+    filter: EmployeeListFilter,
     page?: number,
     pageSize?: number,
-    searchName?: string,
-    searchEmail?: string,
-    departmentId?: number,
-    sortBy?: string,
-    sortOrder?: 'ASC' | 'DESC',
+    sort?: SortSpec<EmployeeSortField>[],
   ): Promise<PaginationResult<EmployeeResponseDto[]>> {
-    const cacheKey = this.getCacheKey(
-      role,
-      page,
-      pageSize,
-      searchName,
-      searchEmail,
-      departmentId,
-      sortBy,
-      sortOrder,
-    );
+    this.ensureValidDateWindows(filter);
+
+    const cacheKey = this.getCacheKey(filter, page, pageSize, sort);
 
     if (this.CACHE_ENABLED) {
       const cachedResult = await this.redisService.get(cacheKey);
@@ -209,14 +280,10 @@ export class EmployeesService {
     }
 
     const result = await this.employeesRepository.findAll(
-      role,
+      filter,
       page,
       pageSize,
-      searchName,
-      searchEmail,
-      departmentId,
-      sortBy,
-      sortOrder,
+      sort,
     );
 
     if (!result.Success) {
@@ -249,11 +316,182 @@ export class EmployeesService {
     return resultObject;
   }
 
+  /**
+   * Keyset (cursor) variant of findAll: `cursor` is the nextCursor/prevCursor
+   * of a previous page (undefined for the first one). Cached like findAll.
+   */
+  async findAllByCursor(
+    filter: EmployeeListFilter,
+    pageSize?: number,
+    sort?: SortSpec<EmployeeSortField>[],
+    cursor?: string,
+    withTotal: boolean = false,
+  ): Promise<CursorPaginationResult<EmployeeResponseDto[]>> {
+    this.ensureValidDateWindows(filter);
+
+    const after = cursor ? decodeCursor(cursor) : null;
+    if (
+      cursor &&
+      (!after || !cursorMatchesSort(EMPLOYEE_LIST_QUERY, { sort }, after))
+    ) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    const cacheKey = `${this.getCacheKey(filter, undefined, pageSize, sort)}:cursor:${cursor ?? ''}:${withTotal}`;
+
+    if (this.CACHE_ENABLED) {
+      const cachedResult = await this.redisService.get(cacheKey);
+      if (cachedResult) {
+        this.logger.log(
+          `EmployeesService.findAllByCursor. Cache hit for key: ${cacheKey}`,
+        );
+        return JSON.parse(cachedResult) as CursorPaginationResult<
+          EmployeeResponseDto[]
+        >;
+      }
+      this.logger.warn(
+        `EmployeesService.findAllByCursor. Cache miss for key: ${cacheKey}`,
+      );
+    }
+
+    const result = await this.employeesRepository.findAllByCursor(
+      filter,
+      pageSize,
+      sort,
+      after,
+      withTotal,
+    );
+
+    if (!result.Success) {
+      handleRepositoryError(result);
+    }
+
+    if (this.CACHE_ENABLED) {
+      await this.redisService.set(
+        cacheKey,
+        JSON.stringify(result),
+        this.CACHE_TTL_SECONDS,
+      );
+    }
+
+    return result as CursorPaginationResult<EmployeeResponseDto[]>;
+  }
+
+  /**
+   * Parses a comma separated list of export columns (e.g. "id,name,email").
+   * Returns all columns when empty; unknown columns are a 400.
+   */
+  parseExportColumns(columns?: string): ExportColumn<EmployeeResponseDto>[] {
+    if (!columns || columns.trim() === '') {
+      return EMPLOYEE_EXPORT_COLUMNS;
+    }
+
+    const requested = [
+      ...new Set(
+        columns
+          .split(',')
+          .map((c) => c.trim())
+          .filter(Boolean),
+      ),
+    ];
+    const allowed = EMPLOYEE_EXPORT_COLUMNS.map((c) => c.key as string);
+    const unknown = requested.filter((c) => !allowed.includes(c));
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Unknown export column(s): ${unknown.join(', ')}. Allowed: ${allowed.join(', ')}`,
+      );
+    }
+
+    return requested.map(
+      (key) => EMPLOYEE_EXPORT_COLUMNS.find((c) => c.key === key)!,
+    );
+  }
+
+  /**
+   * Streams every active employee matching the filters as CSV, ignoring pagination.
+   * Rows are read in batches with a keyset scan (sort column + id), so memory use
+   * doesn't depend on the number of employees and deep pages stay cheap.
+   */
+  exportCsvStream(
+    filter: EmployeeListFilter,
+    columns: ExportColumn<EmployeeResponseDto>[],
+    sortBy?: string,
+    sortOrder?: 'ASC' | 'DESC',
+  ): Readable {
+    this.ensureValidDateWindows(filter);
+
+    const sortColumn =
+      sortBy === 'createdAt' || sortBy === 'name' ? sortBy : 'id';
+    const direction = sortOrder?.toUpperCase() === 'DESC' ? 'DESC' : 'ASC';
+
+    const batches = this.exportBatches(filter, sortColumn, direction);
+
+    async function* csvChunks() {
+      // Prefix with UTF-8 BOM to improve Excel compatibility
+      yield `\uFEFF${columns.map((c) => c.key).join(',')}\r\n`;
+      for await (const batch of batches) {
+        yield batch.map((r) => `${csvLine(r, columns)}\r\n`).join('');
+      }
+    }
+
+    return Readable.from(csvChunks());
+  }
+
+  private async *exportBatches(
+    filter: EmployeeListFilter,
+    sortBy: 'id' | 'createdAt' | 'name',
+    sortOrder: 'ASC' | 'DESC',
+  ): AsyncGenerator<EmployeeResponseDto[]> {
+    let after: EmployeeKeysetCursor | null = null;
+
+    while (true) {
+      const result = await this.employeesRepository.findBatchAfter(
+        filter,
+        sortBy,
+        sortOrder,
+        after,
+        this.EXPORT_BATCH_SIZE,
+      );
+      if (!result.Success) {
+        handleRepositoryError(result);
+      }
+
+      const rows = result.ReturnedObject ?? [];
+      if (rows.length > 0) {
+        yield rows as EmployeeResponseDto[];
+      }
+      if (rows.length < this.EXPORT_BATCH_SIZE) {
+        return;
+      }
+
+      const last = rows[rows.length - 1];
+      after = { sortValue: last[sortBy], id: last.id };
+    }
+  }
+
   async update(
     id: number,
     updateEmployeeDto: UpdateEmployeeDto,
     actor: SessionUser,
     meta: AuditMetadata,
+  ): Promise<EmployeeResponseDto> {
+    // @IsOptional lets null through, but an employee needs a department
+    if (updateEmployeeDto.departmentId === null) {
+      throw new BadRequestException('Invalid departmentId');
+    }
+    return this.applyUpdate(id, updateEmployeeDto, actor, meta);
+  }
+
+  /**
+   * Validates and writes the changes, audited and published. A null
+   * departmentId moves the employee out of any department (revert only).
+   */
+  private async applyUpdate(
+    id: number,
+    changes: EmployeeChanges,
+    actor: SessionUser,
+    meta: AuditMetadata,
+    auditData?: Record<string, unknown>,
   ): Promise<EmployeeResponseDto> {
     // Check if employee exists
     const result = await this.employeesRepository.findOneMaster(id);
@@ -263,9 +501,9 @@ export class EmployeesService {
     }
     const before = result.ReturnedObject as Employee;
 
-    if (updateEmployeeDto.departmentId !== undefined) {
+    if (changes.departmentId !== undefined && changes.departmentId !== null) {
       const departmentResult = await this.departmentsRepository.findOne(
-        updateEmployeeDto.departmentId,
+        changes.departmentId,
       );
       if (!departmentResult.Success) {
         if (departmentResult.ErrorCode === 404) {
@@ -276,17 +514,21 @@ export class EmployeesService {
       }
     }
 
+    if (changes.managerId !== undefined && changes.managerId !== null) {
+      await this.ensureValidManager(id, changes.managerId);
+    }
+
     const auditContext: AuditContext = {
       actorUserId: actor.id,
       actorType: actor.type,
       ip: meta.ip ?? null,
       userAgent: meta.userAgent ?? null,
-      data: { before, changes: updateEmployeeDto },
+      data: { ...auditData, before, changes },
     };
 
     const resultUpdate = await this.employeesRepository.update(
       id,
-      updateEmployeeDto,
+      changes,
       auditContext,
     );
 
@@ -299,6 +541,131 @@ export class EmployeesService {
     return updated;
   }
 
+  /**
+   * Moves every active employee of a department to another one (or to no
+   * department when targetDepartmentId is null), writing one audited update
+   * per employee. Events are not published here: call publishUpdated() once
+   * the surrounding operation has succeeded.
+   */
+  async moveDepartmentEmployees(
+    departmentId: number,
+    targetDepartmentId: number | null,
+    actor: SessionUser,
+    meta: AuditMetadata,
+    auditData?: Record<string, unknown>,
+  ): Promise<EmployeeResponseDto[]> {
+    const result =
+      await this.employeesRepository.findActiveByDepartmentMaster(departmentId);
+    if (!result.Success) {
+      handleRepositoryError(result);
+    }
+
+    const moved: EmployeeResponseDto[] = [];
+    for (const before of result.ReturnedObject ?? []) {
+      const changes: EmployeeChanges = { departmentId: targetDepartmentId };
+      const updateResult = await this.employeesRepository.update(
+        before.id,
+        changes,
+        {
+          actorUserId: actor.id,
+          actorType: actor.type,
+          ip: meta.ip ?? null,
+          userAgent: meta.userAgent ?? null,
+          data: { ...auditData, before, changes },
+        },
+      );
+      if (!updateResult.Success) {
+        handleRepositoryError(updateResult);
+      }
+      moved.push(await this.findOne(before.id));
+    }
+
+    return moved;
+  }
+
+  /** Publishes an `update` event for each employee (e.g. after a bulk change). */
+  async publishUpdated(employees: EmployeeResponseDto[]): Promise<void> {
+    for (const employee of employees) {
+      await this.publishEmployeeEvent('update', employee);
+    }
+  }
+
+  /** Employees reporting to the given one (transitively unless directOnly), with their level. */
+  async findReports(
+    id: number,
+    directOnly: boolean,
+  ): Promise<EmployeeReportingLineDto[]> {
+    await this.findOne(id);
+
+    const result = await this.employeesRepository.findReports(id, directOnly);
+    if (!result.Success) {
+      handleRepositoryError(result);
+    }
+    return (result.ReturnedObject ?? []) as EmployeeReportingLineDto[];
+  }
+
+  /** The managers above an employee, from the direct manager (level 1) up to the top. */
+  async findManagementChain(id: number): Promise<EmployeeReportingLineDto[]> {
+    await this.findOne(id);
+
+    const result = await this.employeesRepository.findManagementChain(id);
+    if (!result.Success) {
+      handleRepositoryError(result);
+    }
+    return (result.ReturnedObject ?? []) as EmployeeReportingLineDto[];
+  }
+
+  private async ensureManagerExists(managerId: number): Promise<void> {
+    const managerResult =
+      await this.employeesRepository.findOneMaster(managerId);
+    if (!managerResult.Success) {
+      if (managerResult.ErrorCode === 404) {
+        throw new BadRequestException('Invalid managerId');
+      }
+      handleRepositoryError(managerResult);
+    }
+  }
+
+  /**
+   * An employee can't manage themselves, nor report to someone who (directly
+   * or transitively) reports to them, since that would create a cycle.
+   */
+  private async ensureValidManager(
+    id: number,
+    managerId: number,
+  ): Promise<void> {
+    if (managerId === id) {
+      throw new BadRequestException('An employee cannot be their own manager');
+    }
+
+    await this.ensureManagerExists(managerId);
+
+    if (await this.reportsTo(managerId, id)) {
+      throw new BadRequestException(
+        `Employee ${managerId} reports to ${id} (would create a reporting cycle)`,
+      );
+    }
+  }
+
+  /**
+   * Whether `employeeId` reports (transitively) to `managerId`. Soft deleted
+   * employees in between count, since they can be restored.
+   */
+  private async reportsTo(
+    employeeId: number,
+    managerId: number,
+  ): Promise<boolean> {
+    const chainResult = await this.employeesRepository.findManagementChain(
+      employeeId,
+      true,
+      true,
+    );
+    if (!chainResult.Success) {
+      handleRepositoryError(chainResult);
+    }
+    return (chainResult.ReturnedObject ?? []).some((m) => m.id === managerId);
+  }
+
   async remove(
     id: number,
     actor: SessionUser,
@@ -327,6 +694,415 @@ export class EmployeesService {
     return employeeDto;
   }
 
+  async findAllDeleted(
+    page?: number,
+    pageSize?: number,
+  ): Promise<PaginationResult<EmployeeResponseDto[]>> {
+    const result = await this.employeesRepository.findAllDeleted(
+      page,
+      pageSize,
+    );
+
+    if (!result.Success) {
+      handleRepositoryError(result);
+    }
+
+    return new PaginationResult<EmployeeResponseDto[]>(
+      result.Success,
+      result.Message,
+      result.Page,
+      result.PageSize,
+      result.Total,
+      result.TotalPages,
+      (result.ReturnedObject ?? []) as EmployeeResponseDto[],
+      result.ErrorCode,
+    );
+  }
+
+  async restore(
+    id: number,
+    actor: SessionUser,
+    meta: AuditMetadata,
+  ): Promise<EmployeeResponseDto> {
+    const result = await this.employeesRepository.findOneMaster(id, true);
+
+    if (!result.Success) {
+      handleRepositoryError(result);
+    }
+
+    const before = result.ReturnedObject as Employee;
+    // Reporting lines may have changed while deleted: don't bring back a cycle
+    const detachManager =
+      before.managerId != null &&
+      (before.managerId === id || (await this.reportsTo(before.managerId, id)));
+    const resultRestore = await this.employeesRepository.restore(
+      id,
+      {
+        actorUserId: actor.id,
+        actorType: actor.type,
+        ip: meta.ip ?? null,
+        userAgent: meta.userAgent ?? null,
+        data: detachManager
+          ? { before, detachedManagerId: before.managerId }
+          : { before },
+      },
+      detachManager,
+    );
+
+    if (!resultRestore.Success) {
+      handleRepositoryError(resultRestore);
+    }
+
+    const restored = await this.findOne(id);
+    await this.publishEmployeeEvent('restore', restored);
+    return restored;
+  }
+
+  /**
+   * Reconstructs the employee record as it was at `asOf` by replaying its audit history.
+   */
+  async getHistory(
+    id: number,
+    asOf: Date = new Date(),
+  ): Promise<EmployeeHistoryResponseDto> {
+    const result = await this.auditRepository.findByEntity(
+      'Employee',
+      String(id),
+      asOf,
+    );
+
+    if (!result.Success) {
+      handleRepositoryError(result);
+    }
+
+    const state = replayEmployeeHistory(result.ReturnedObject ?? [], asOf);
+    if (!state.employee) {
+      throw new NotFoundException(
+        `No history recorded for employee ${id} at ${asOf.toISOString()}`,
+      );
+    }
+
+    return { asOf, ...state };
+  }
+
+  /**
+   * Field-level differences of the employee record between two moments.
+   */
+  async getHistoryDiff(
+    id: number,
+    from: Date,
+    to: Date = new Date(),
+  ): Promise<EmployeeHistoryDiffResponseDto> {
+    if (from > to) {
+      throw new BadRequestException('from must be before to');
+    }
+
+    const result = await this.auditRepository.findByEntity(
+      'Employee',
+      String(id),
+      to,
+    );
+
+    if (!result.Success) {
+      handleRepositoryError(result);
+    }
+
+    const events = result.ReturnedObject ?? [];
+    const fromState = replayEmployeeHistory(events, from);
+    const toState = replayEmployeeHistory(events, to);
+
+    if (!fromState.employee && !toState.employee) {
+      throw new NotFoundException(
+        `No history recorded for employee ${id} up to ${to.toISOString()}`,
+      );
+    }
+
+    return {
+      from: { asOf: from, ...fromState },
+      to: { asOf: to, ...toState },
+      changes: diffEmployeeSnapshots(fromState.employee, toState.employee),
+    };
+  }
+
+  /**
+   * Restores the employee's fields to the `before` snapshot of an audit entry.
+   * Goes through applyUpdate() so the revert is audited and published like any other edit.
+   * The photo is left untouched: replaced photos are removed from storage on upload.
+   */
+  async revert(
+    id: number,
+    auditId: number,
+    actor: SessionUser,
+    meta: AuditMetadata,
+  ): Promise<EmployeeResponseDto> {
+    const auditResult = await this.auditRepository.findOne(auditId);
+
+    if (!auditResult.Success) {
+      handleRepositoryError(auditResult);
+    }
+
+    const auditLog = auditResult.ReturnedObject as AuditLog;
+    if (
+      auditLog.entityType !== 'Employee' ||
+      auditLog.entityId !== String(id)
+    ) {
+      throw new BadRequestException(
+        `Audit entry ${auditId} does not belong to employee ${id}`,
+      );
+    }
+
+    const data = (
+      typeof auditLog.data === 'string'
+        ? JSON.parse(auditLog.data)
+        : auditLog.data
+    ) as { before?: Partial<Employee> } | null;
+    const before = data?.before;
+    if (!before) {
+      throw new BadRequestException(
+        `Audit entry ${auditId} has no previous version to revert to`,
+      );
+    }
+
+    // A null departmentId (nulled by a department deletion) or managerId is
+    // restored as such; versions recorded before managerId existed leave it as is
+    const changes: EmployeeChanges = {
+      name: before.name,
+      email: before.email,
+      role: before.role,
+      departmentId: before.departmentId,
+      managerId: before.managerId,
+    };
+
+    if (changes.email) {
+      const emailResult = await this.employeesRepository.checkEmailAvailable(
+        changes.email,
+        id,
+      );
+      if (!emailResult.Success) {
+        handleRepositoryError(emailResult);
+      }
+    }
+
+    return this.applyUpdate(id, changes, actor, meta, {
+      revertedFromAuditId: auditId,
+    });
+  }
+
+  /**
+   * Imports employees from a CSV file (same columns as the CSV export; unknown columns are ignored).
+   * Rows are validated with CreateEmployeeDto, departments are checked and existing employees are
+   * matched by email (-> update). With dryRun nothing is written and only the report is returned.
+   *
+   * The real import is all-or-nothing: it's refused if any row is rejected, and all rows are
+   * written in one transaction (applyImport) that is rolled back if any write fails.
+   */
+  async importCsv(
+    file: Express.Multer.File,
+    dryRun: boolean,
+    actor: SessionUser,
+    meta: AuditMetadata,
+  ): Promise<EmployeeImportResultDto> {
+    const records = parseCsv(file.buffer.toString('utf8'));
+    if (records.length === 0) {
+      throw new BadRequestException('CSV file is empty');
+    }
+
+    const header = records[0].map((h) => h.trim());
+    for (const column of ['name', 'email', 'role', 'departmentId']) {
+      if (!header.includes(column)) {
+        throw new BadRequestException(`Missing CSV column: ${column}`);
+      }
+    }
+
+    const dataRows = records.slice(1);
+    if (dataRows.length > this.IMPORT_MAX_ROWS) {
+      throw new BadRequestException(
+        `Too many rows (max ${this.IMPORT_MAX_ROWS})`,
+      );
+    }
+
+    const hasPhotoUrl = header.includes('photoUrl');
+    const cell = (row: string[], column: string) =>
+      (row[header.indexOf(column)] ?? '').trim();
+
+    const emails = dataRows.map((row) => cell(row, 'email')).filter(Boolean);
+    const existingResult =
+      await this.employeesRepository.findByEmailsMaster(emails);
+    if (!existingResult.Success) {
+      handleRepositoryError(existingResult);
+    }
+    // Email matching is case-insensitive, like the column collation.
+    const existingByEmail = new Map<string, Employee>();
+    for (const employee of existingResult.ReturnedObject ?? []) {
+      existingByEmail.set(employee.email.toLowerCase(), employee);
+    }
+
+    const departmentExists = new Map<number, boolean>();
+    const seenEmails = new Map<string, number>();
+
+    const planned: ImportPlanEntry[] = [];
+
+    for (const [index, row] of dataRows.entries()) {
+      const line = index + 2;
+      const departmentIdText = cell(row, 'departmentId');
+      const photoUrl = hasPhotoUrl ? cell(row, 'photoUrl') : '';
+
+      const createDto = plainToInstance(CreateEmployeeDto, {
+        name: cell(row, 'name'),
+        email: cell(row, 'email'),
+        role: cell(row, 'role'),
+        departmentId: /^\d+$/.test(departmentIdText)
+          ? Number(departmentIdText)
+          : departmentIdText,
+        photoUrl: photoUrl || null,
+      });
+
+      const validationErrors = await validate(createDto);
+      const errors = validationErrors.flatMap((e) =>
+        Object.values(e.constraints ?? {}),
+      );
+
+      const emailKey = createDto.email.toLowerCase();
+      const firstLine = seenEmails.get(emailKey);
+      if (createDto.email && firstLine !== undefined) {
+        errors.push(
+          `Duplicate email in file (first seen on line ${firstLine})`,
+        );
+      } else if (createDto.email) {
+        seenEmails.set(emailKey, line);
+      }
+
+      if (Number.isInteger(createDto.departmentId)) {
+        if (!departmentExists.has(createDto.departmentId)) {
+          const departmentResult = await this.departmentsRepository.findOne(
+            createDto.departmentId,
+          );
+          if (!departmentResult.Success && departmentResult.ErrorCode !== 404) {
+            handleRepositoryError(departmentResult);
+          }
+          departmentExists.set(
+            createDto.departmentId,
+            departmentResult.Success,
+          );
+        }
+        if (!departmentExists.get(createDto.departmentId)) {
+          errors.push('Invalid departmentId');
+        }
+      }
+
+      const existing = existingByEmail.get(emailKey);
+      if (existing?.deletedAt) {
+        errors.push(
+          `Email belongs to deleted employee ${existing.id} (restore it first)`,
+        );
+      }
+
+      const report: EmployeeImportRowDto = {
+        line,
+        action: 'reject',
+        email: createDto.email || null,
+        employeeId: existing?.id ?? null,
+      };
+
+      if (errors.length > 0) {
+        report.errors = errors;
+        planned.push({ report });
+        continue;
+      }
+
+      if (!existing) {
+        report.action = 'create';
+        planned.push({ report, createDto });
+        continue;
+      }
+
+      const changes: UpdateEmployeeDto = {};
+      if (createDto.name !== existing.name) changes.name = createDto.name;
+      if (createDto.role !== existing.role) changes.role = createDto.role;
+      if (createDto.departmentId !== existing.departmentId) {
+        changes.departmentId = createDto.departmentId;
+      }
+      if (hasPhotoUrl && photoUrl !== (existing.photoUrl ?? '')) {
+        changes.photoUrl = photoUrl;
+      }
+
+      report.changedFields = Object.keys(changes);
+      report.action = report.changedFields.length > 0 ? 'update' : 'unchanged';
+      planned.push({ report, existing, changes });
+    }
+
+    const rows = planned.map((p) => p.report);
+    const result: EmployeeImportResultDto = {
+      dryRun,
+      total: rows.length,
+      created: rows.filter((r) => r.action === 'create').length,
+      updated: rows.filter((r) => r.action === 'update').length,
+      unchanged: rows.filter((r) => r.action === 'unchanged').length,
+      rejected: rows.filter((r) => r.action === 'reject').length,
+      rows,
+    };
+
+    if (dryRun) {
+      return result;
+    }
+
+    if (result.rejected > 0) {
+      throw new BadRequestException({
+        message: `Import aborted: ${result.rejected} row(s) rejected`,
+        ...result,
+      });
+    }
+
+    const auditContext: AuditContext = {
+      actorUserId: actor.id,
+      actorType: actor.type,
+      ip: meta.ip ?? null,
+      userAgent: meta.userAgent ?? null,
+    };
+
+    const events = await this.applyImport(planned, auditContext);
+
+    for (const { eventType, id } of events) {
+      await this.publishEmployeeEvent(eventType, await this.findOne(id));
+    }
+
+    return result;
+  }
+
+  /** The writes of importCsv(), committed together before its events are published. */
+  @Transactional()
+  private async applyImport(
+    planned: ImportPlanEntry[],
+    auditContext: AuditContext,
+  ): Promise<Array<{ eventType: 'create' | 'update'; id: number }>> {
+    const events: Array<{ eventType: 'create' | 'update'; id: number }> = [];
+    for (const { report, createDto, existing, changes } of planned) {
+      if (report.action === 'create' && createDto) {
+        const createResult = await this.employeesRepository.create(
+          createDto,
+          auditContext,
+        );
+        if (!createResult.Success) {
+          handleRepositoryError(createResult);
+        }
+        report.employeeId = (createResult.ReturnedObject as Employee).id;
+        events.push({ eventType: 'create', id: report.employeeId });
+      } else if (report.action === 'update' && existing && changes) {
+        const updateResult = await this.employeesRepository.update(
+          existing.id,
+          changes,
+          { ...auditContext, data: { before: existing, changes } },
+        );
+        if (!updateResult.Success) {
+          handleRepositoryError(updateResult);
+        }
+        events.push({ eventType: 'update', id: existing.id });
+      }
+    }
+
+    return events;
+  }
+
   async uploadPhoto(
     id: number,
     file: Express.Multer.File,
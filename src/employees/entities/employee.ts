@@ -5,12 +5,58 @@ export interface Employee {
   role: Role;
   photoUrl?: string;
   departmentId?: number;
+  managerId?: number | null;
   createdAt: Date;
   updatedAt: Date;
+  deletedAt?: Date | null;
+  deletedBy?: string | null;
 }
 
-export interface EmployeeWithTotalCount extends Employee {
-  TotalCount: number;
+/**
+ * Columns written by an employee update. Unlike the API, a null departmentId is
+ * allowed here: internal changes (department deletion, revert) can clear it.
+ */
+export type EmployeeChanges = Partial<
+  Pick<Employee, 'name' | 'email' | 'role' | 'managerId'>
+> & { photoUrl?: string | null; departmentId?: number | null };
+
+/** Fields the employee list can be sorted by. */
+export const EMPLOYEE_SORT_FIELDS = [
+  'id',
+  'name',
+  'email',
+  'role',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+export type EmployeeSortField = (typeof EMPLOYEE_SORT_FIELDS)[number];
+
+/** An employee in a reporting line, `level` steps away (1 = direct report / direct manager). */
+export interface EmployeeWithLevel extends Employee {
+  level: number;
+}
+
+export interface EmployeeListFilter {
+  /** Any of these roles. */
+  roles?: Role[];
+  searchName?: string;
+  searchEmail?: string;
+  /** In any of these departments (and their subdepartments with includeSubdepartments). */
+  departmentIds?: number[];
+  includeSubdepartments?: boolean;
+  /** createdAt/updatedAt windows, bounds included. */
+  createdFrom?: Date;
+  createdTo?: Date;
+  updatedFrom?: Date;
+  updatedTo?: Date;
+  hasPhoto?: boolean;
+}
+
+/** Position of the last row of a keyset scan (value of the sort column + id as tie-breaker). */
+export interface EmployeeKeysetCursor {
+  sortValue: string | number | Date;
+  id: number;
 }
 
 export enum Role {
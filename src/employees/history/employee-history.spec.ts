@@ -0,0 +1,93 @@
+import { AuditLog } from 'src/audit/entities/auditLog';
+import {
+  diffEmployeeSnapshots,
+  replayEmployeeHistory,
+} from './employee-history';
+
+function event(
+  id: number,
+  eventType: string,
+  createdAt: string,
+  data: unknown,
+): AuditLog {
+  return {
+    id,
+    eventType,
+    entityType: 'Employee',
+    entityId: '42',
+    actorUserId: 'actor-1',
+    actorType: 'user',
+    ip: null,
+    userAgent: null,
+    data,
+    createdAt: new Date(createdAt),
+  };
+}
+
+describe('employee history', () => {
+  const employee = {
+    id: 42,
+    name: 'Jane',
+    email: 'jane@example.com',
+    role: 'ENGINEER',
+    departmentId: 1,
+  };
+
+  const events = [
+    event(1, 'employee.created', '2024-01-01T10:00:00.000Z', { employee }),
+    event(2, 'employee.updated', '2024-02-01T10:00:00.000Z', {
+      before: employee,
+      changes: { email: 'jane.smith@example.com' },
+    }),
+    event(3, 'employee.deleted', '2024-03-01T10:00:00.000Z', {
+      before: { ...employee, email: 'jane.smith@example.com' },
+    }),
+  ];
+
+  it('returns no record before the employee was created', () => {
+    const state = replayEmployeeHistory(
+      events,
+      new Date('2023-12-31T00:00:00.000Z'),
+    );
+    expect(state.employee).toBeNull();
+    expect(state.exists).toBe(false);
+  });
+
+  it('applies updates up to the requested moment', () => {
+    const before = replayEmployeeHistory(
+      events,
+      new Date('2024-01-15T00:00:00.000Z'),
+    );
+    expect(before.employee?.email).toBe('jane@example.com');
+    expect(before.lastEventId).toBe(1);
+
+    const after = replayEmployeeHistory(
+      events,
+      new Date('2024-02-15T00:00:00.000Z'),
+    );
+    expect(after.employee?.email).toBe('jane.smith@example.com');
+    expect(after.exists).toBe(true);
+  });
+
+  it('marks the record as deleted after a delete event', () => {
+    const state = replayEmployeeHistory(events);
+    expect(state.exists).toBe(false);
+    expect(state.deleted).toBe(true);
+    expect(state.employee?.deletedBy).toBe('actor-1');
+  });
+
+  it('lists changed fields between two snapshots', () => {
+    const changes = diffEmployeeSnapshots(employee, {
+      ...employee,
+      email: 'jane.smith@example.com',
+      photoUrl: '',
+    });
+    expect(changes).toEqual([
+      {
+        field: 'email',
+        from: 'jane@example.com',
+        to: 'jane.smith@example.com',
+      },
+    ]);
+  });
+});
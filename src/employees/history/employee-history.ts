@@ -0,0 +1,145 @@
+import { AuditLog } from 'src/audit/entities/auditLog';
+
+export type EmployeeSnapshot = Record<string, unknown>;
+
+export interface EmployeeHistoryState {
+  /** Whether the employee existed (created and not yet deleted) at the given moment */
+  exists: boolean;
+  /** Whether the employee was soft deleted at the given moment */
+  deleted: boolean;
+  /** The reconstructed record, or null if nothing was recorded yet */
+  employee: EmployeeSnapshot | null;
+  lastEventId: number | null;
+  lastEventAt: Date | null;
+}
+
+export interface EmployeeFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+interface EmployeeAuditData {
+  employee?: EmployeeSnapshot;
+  before?: EmployeeSnapshot;
+  changes?: EmployeeSnapshot;
+}
+
+function readData(data: unknown): EmployeeAuditData {
+  // mysql2 parses JSON columns, but be lenient with drivers returning raw strings.
+  if (typeof data === 'string') {
+    try {
+      return JSON.parse(data) as EmployeeAuditData;
+    } catch {
+      return {};
+    }
+  }
+  if (data && typeof data === 'object') return data as EmployeeAuditData;
+  return {};
+}
+
+/**
+ * Rebuilds the state of an employee by replaying its audit events
+ * (as written by EmployeesRepository) up to `asOf`.
+ *
+ * - employee.created  -> { employee } (full snapshot)
+ * - employee.updated  -> { before, changes }
+ * - employee.deleted  -> { before }
+ * - employee.restored -> { before }
+ *
+ * `before` is taken as the authoritative base for each event, so gaps in the
+ * log (e.g. records created before auditing existed) are filled in as soon as
+ * the first event with a snapshot is seen.
+ */
+export function replayEmployeeHistory(
+  events: AuditLog[],
+  asOf?: Date,
+): EmployeeHistoryState {
+  const state: EmployeeHistoryState = {
+    exists: false,
+    deleted: false,
+    employee: null,
+    lastEventId: null,
+    lastEventAt: null,
+  };
+
+  for (const event of events) {
+    const at = new Date(event.createdAt);
+    if (asOf && at > asOf) break;
+
+    const data = readData(event.data);
+    const base = data.before ?? state.employee;
+
+    switch (event.eventType) {
+      case 'employee.created':
+        state.employee = { ...(data.employee ?? base ?? {}) };
+        state.exists = true;
+        state.deleted = false;
+        break;
+      case 'employee.updated':
+        state.employee = {
+          ...(base ?? {}),
+          ...(data.changes ?? {}),
+          updatedAt: at,
+        };
+        state.exists = true;
+        break;
+      case 'employee.deleted':
+        state.employee = {
+          ...(base ?? {}),
+          deletedAt: at,
+          deletedBy: event.actorUserId,
+        };
+        state.exists = false;
+        state.deleted = true;
+        break;
+      case 'employee.restored':
+        state.employee = {
+          ...(base ?? {}),
+          deletedAt: null,
+          deletedBy: null,
+          updatedAt: at,
+        };
+        state.exists = true;
+        state.deleted = false;
+        break;
+      default:
+        // Unknown event types don't change the record.
+        continue;
+    }
+
+    state.lastEventId = event.id;
+    state.lastEventAt = at;
+  }
+
+  return state;
+}
+
+function normalize(value: unknown): unknown {
+  if (value === undefined || value === '') return null;
+  if (value instanceof Date) return value.toISOString();
+  return value;
+}
+
+/**
+ * Field-level differences between two employee snapshots.
+ */
+export function diffEmployeeSnapshots(
+  from: EmployeeSnapshot | null,
+  to: EmployeeSnapshot | null,
+): EmployeeFieldChange[] {
+  const fields = new Set([
+    ...Object.keys(from ?? {}),
+    ...Object.keys(to ?? {}),
+  ]);
+
+  const changes: EmployeeFieldChange[] = [];
+  for (const field of fields) {
+    const a = normalize(from?.[field]);
+    const b = normalize(to?.[field]);
+    if (JSON.stringify(a) !== JSON.stringify(b)) {
+      changes.push({ field, from: a, to: b });
+    }
+  }
+  return changes;
+}
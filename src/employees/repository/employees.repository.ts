@@ -1,16 +1,94 @@
 import { Injectable } from '@nestjs/common';
 import { MysqlDatabaseService } from 'src/database/mysql-database.service';
-import { Employee, EmployeeWithTotalCount, Role } from '../entities/employee';
+import {
+  Employee,
+  EmployeeChanges,
+  EmployeeKeysetCursor,
+  EmployeeListFilter,
+  EmployeeSortField,
+  EmployeeWithLevel,
+} from '../entities/employee';
 import { CreateEmployeeDto } from '../dto/create-employee.dto';
-import { UpdateEmployeeDto } from '../dto/update-employee.dto';
 import {
   ResultWithData,
   ResultNoData,
   PaginationResult,
+  CursorPaginationResult,
 } from 'src/common/result';
 import { handleDatabaseError } from 'src/common/error-handlers';
+import { RETURN_DATABASE_ERROR_CODES } from 'src/common/error-codes';
 import { AuditRepository } from 'src/audit/audit.repository';
 import { AuditContext } from 'src/audit/entities/AuditContext';
+import { SortSpec } from 'src/common/tools';
+import {
+  buildConditions,
+  buildCursorQuery,
+  buildListQuery,
+  contains,
+  from,
+  ListCursor,
+  ListQueryDefinition,
+  oneOf,
+  to,
+  toCursorPage,
+} from 'src/database/list-query';
+
+// Room for the ids visited by the reporting line walks (well past any real depth)
+const REPORTING_PATH_LENGTH = 10000;
+
+/** Filters and sort fields accepted by the active employee listings. */
+export const EMPLOYEE_LIST_QUERY: ListQueryDefinition<
+  EmployeeListFilter,
+  EmployeeSortField
+> = {
+  table: 'Employee',
+  baseConditions: ['deletedAt IS NULL'],
+  filters: {
+    roles: oneOf('role'),
+    searchName: contains('name'),
+    searchEmail: contains('email'),
+    departmentIds: (departmentIds, filter) => {
+      const placeholders = departmentIds.map(() => '?').join(', ');
+      if (!filter.includeSubdepartments) {
+        return {
+          sql: `departmentId IN (${placeholders})`,
+          params: departmentIds,
+        };
+      }
+      // The departments and all their descendants (parentId chain)
+      return {
+        sql: `departmentId IN (
+          WITH RECURSIVE _tree AS (
+            SELECT id FROM Department WHERE id IN (${placeholders})
+            UNION ALL
+            SELECT d.id FROM Department d JOIN _tree t ON d.parentId = t.id
+          )
+          SELECT id FROM _tree)`,
+        params: departmentIds,
+      };
+    },
+    createdFrom: from('createdAt'),
+    createdTo: to('createdAt'),
+    updatedFrom: from('updatedAt'),
+    updatedTo: to('updatedAt'),
+    hasPhoto: (hasPhoto) => ({
+      sql: hasPhoto
+        ? "(photoUrl IS NOT NULL AND photoUrl <> '')"
+        : "(photoUrl IS NULL OR photoUrl = '')",
+      params: [],
+    }),
+  },
+  sortFields: {
+    id: 'id',
+    name: 'name',
+    email: 'email',
+    // Alphabetically, like the cursor conditions compare it (not by ENUM index)
+    role: { column: 'role', expression: 'CAST(role AS CHAR)' },
+    createdAt: 'createdAt',
+    updatedAt: 'updatedAt',
+  },
+  defaultSort: 'id',
+};
 
 @Injectable()
 export class EmployeesRepository {
@@ -19,10 +97,15 @@ export class EmployeesRepository {
     private readonly auditRepository: AuditRepository,
   ) {}
 
-  async findOneMaster(id: number): Promise<ResultWithData<Employee | null>> {
+  async findOneMaster(
+    id: number,
+    includeDeleted: boolean = false,
+  ): Promise<ResultWithData<Employee | null>> {
     const result = new ResultWithData<Employee | null>();
     try {
-      const sql = 'SELECT * FROM Employee WHERE id = ?';
+      const sql = includeDeleted
+        ? 'SELECT * FROM Employee WHERE id = ?'
+        : 'SELECT * FROM Employee WHERE id = ? AND deletedAt IS NULL';
       const employee = await this.databaseService.queryOneMaster<Employee>(
         sql,
         [id],
@@ -58,79 +141,340 @@ export class EmployeesRepository {
   }
 
   async findAll(
-    role?: Role,
+    filter: EmployeeListFilter,
     page?: number,
     pageSize?: number,
-    searchName?: string,
-    searchEmail?: string,
-    departmentId?: number,
-    sortBy?: string,
-    sortOrder?: 'ASC' | 'DESC',
+    sort?: SortSpec<EmployeeSortField>[],
   ): Promise<PaginationResult<Employee[]>> {
     const result = new PaginationResult<Employee[]>();
     try {
-      // Set default values for pagination
-      const currentPage = page && page > 0 ? page : 1;
-      const currentPageSize = pageSize && pageSize > 0 ? pageSize : 10;
+      const listQuery = buildListQuery(EMPLOYEE_LIST_QUERY, {
+        filter,
+        page,
+        pageSize,
+        sort,
+      });
 
-      // Call stored procedure
-      const sql = 'CALL Employees_List(?, ?, ?, ?, ?, ?, ?, ?)';
-      const rows = await this.databaseService.query<EmployeeWithTotalCount>(
-        sql,
-        [
-          currentPage,
-          currentPageSize,
-          role || null,
-          searchName || null,
-          searchEmail || null,
-          departmentId || null,
-          sortBy || null,
-          sortOrder || null,
-        ],
-      );
-
-      // The stored procedure returns rows with Employee data and TotalCount
-      // Extract employees and total count from the first row
-      let employees: Employee[] = [];
-      let totalCount = 0;
-
-      if (rows && rows.length > 0) {
-        // The stored procedure returns an array of arrays (MySQL2 behavior with CALL)
-        // The first element contains the actual result rows
-        const resultRows = Array.isArray(rows[0])
-          ? (rows[0] as EmployeeWithTotalCount[])
-          : rows;
-
-        if (resultRows.length > 0) {
-          // Extract TotalCount from the first row
-          totalCount = resultRows[0].TotalCount || 0;
-
-          // Extract employee data (exclude TotalCount from each row)
-          employees = resultRows.map((row) => {
-            // eslint-disable-next-line @typescript-eslint/no-unused-vars
-            const { TotalCount, ...employee } = row;
-            return employee as Employee;
-          });
+      const countRow = await this.databaseService.queryOne<{ count: number }>(
+        listQuery.countSql,
+        listQuery.countParams,
+      );
+      const totalCount = Number(countRow?.count ?? 0);
+
+      const employees = await this.databaseService.query<Employee>(
+        listQuery.sql,
+        listQuery.params,
+      );
+
+      result.Success = true;
+      result.Message = 'Employees retrieved successfully';
+      result.ErrorCode = 0;
+      result.Page = listQuery.page;
+      result.PageSize = listQuery.pageSize;
+      result.Total = totalCount;
+      result.TotalPages = Math.ceil(totalCount / listQuery.pageSize);
+      result.ReturnedObject = employees;
+      return result;
+    } catch (error) {
+      console.log('EmployeesRepository.findAll. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to retrieve employees',
+      );
+      return new PaginationResult<Employee[]>(
+        errorResult.Success,
+        errorResult.Message,
+        page && page > 0 ? page : 1,
+        pageSize && pageSize > 0 ? pageSize : 10,
+        0,
+        0,
+        [],
+        errorResult.ErrorCode,
+      );
+    }
+  }
+
+  /**
+   * One page of a keyset (cursor) listing with the same filters and sorts as
+   * findAll. `cursor` is null for the first page; the COUNT(*) only runs when
+   * `withTotal` is set.
+   */
+  async findAllByCursor(
+    filter: EmployeeListFilter,
+    pageSize: number | undefined,
+    sort: SortSpec<EmployeeSortField>[] | undefined,
+    cursor: ListCursor | null,
+    withTotal: boolean,
+  ): Promise<CursorPaginationResult<Employee[]>> {
+    const result = new CursorPaginationResult<Employee[]>();
+    try {
+      const cursorQuery = buildCursorQuery(
+        EMPLOYEE_LIST_QUERY,
+        { filter, pageSize, sort },
+        cursor,
+      );
+
+      let totalCount: number | null = null;
+      if (withTotal) {
+        const countRow = await this.databaseService.queryOne<{
+          count: number;
+        }>(cursorQuery.countSql, cursorQuery.countParams);
+        totalCount = Number(countRow?.count ?? 0);
+      }
+
+      const rows = await this.databaseService.query<Employee>(
+        cursorQuery.sql,
+        cursorQuery.params,
+      );
+      const page = toCursorPage(rows, cursorQuery, cursor !== null);
+
+      result.Success = true;
+      result.Message = 'Employees retrieved successfully';
+      result.ErrorCode = 0;
+      result.PageSize = cursorQuery.pageSize;
+      result.NextCursor = page.nextCursor;
+      result.PrevCursor = page.prevCursor;
+      result.Total = totalCount;
+      result.ReturnedObject = page.rows;
+      return result;
+    } catch (error) {
+      console.log('EmployeesRepository.findAllByCursor. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to retrieve employees',
+      );
+      return new CursorPaginationResult<Employee[]>(
+        errorResult.Success,
+        errorResult.Message,
+        pageSize && pageSize > 0 ? pageSize : 10,
+        null,
+        null,
+        null,
+        [],
+        errorResult.ErrorCode,
+      );
+    }
+  }
+
+  /**
+   * One batch of a keyset scan over the active employees matching the filter
+   * (same filters as the paginated list), used for exports that ignore pagination.
+   * Rows are ordered by the sort column with id as tie-breaker; pass the last
+   * row of the previous batch as `after` to get the next one.
+   * Uses query(), so it reads from the replica unless the request has written.
+   */
+  async findBatchAfter(
+    filter: EmployeeListFilter,
+    sortBy: 'id' | 'createdAt' | 'name',
+    sortOrder: 'ASC' | 'DESC',
+    after: EmployeeKeysetCursor | null,
+    limit: number,
+  ): Promise<ResultWithData<Employee[]>> {
+    const result = new ResultWithData<Employee[]>();
+    try {
+      const where = buildConditions(EMPLOYEE_LIST_QUERY, filter);
+      const conditions: string[] = [where.sql];
+      const params: unknown[] = [...where.params];
+
+      const op = sortOrder === 'DESC' ? '<' : '>';
+      if (after) {
+        if (sortBy === 'id') {
+          conditions.push(`id ${op} ?`);
+          params.push(after.id);
+        } else {
+          conditions.push(
+            `(${sortBy} ${op} ? OR (${sortBy} = ? AND id ${op} ?))`,
+          );
+          params.push(after.sortValue, after.sortValue, after.id);
         }
       }
 
-      const totalPages = Math.ceil(totalCount / currentPageSize);
+      const orderBy =
+        sortBy === 'id'
+          ? `id ${sortOrder}`
+          : `${sortBy} ${sortOrder}, id ${sortOrder}`;
+      const batchSize = Math.max(1, Math.floor(limit));
+
+      // LIMIT is a sanitized integer (prepared statements don't accept it as a placeholder reliably)
+      const employees = await this.databaseService.query<Employee>(
+        `SELECT * FROM Employee
+         WHERE ${conditions.join(' AND ')}
+         ORDER BY ${orderBy}
+         LIMIT ${batchSize}`,
+        params,
+      );
 
       result.Success = true;
       result.Message = 'Employees retrieved successfully';
       result.ErrorCode = 0;
+      result.ReturnedObject = employees;
+      return result;
+    } catch (error) {
+      console.log('EmployeesRepository.findBatchAfter. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to retrieve employees',
+      );
+      return new ResultWithData<Employee[]>(
+        errorResult.Success,
+        errorResult.Message,
+        [],
+        errorResult.ErrorCode,
+      );
+    }
+  }
+
+  /**
+   * Active employees reporting to the given one, directly (level 1) or
+   * transitively through their managers, ordered by level then name.
+   */
+  async findReports(
+    id: number,
+    directOnly: boolean = false,
+  ): Promise<ResultWithData<EmployeeWithLevel[]>> {
+    const result = new ResultWithData<EmployeeWithLevel[]>();
+    try {
+      const employees = directOnly
+        ? await this.databaseService.query<EmployeeWithLevel>(
+            `SELECT e.*, 1 AS level FROM Employee e
+             WHERE e.managerId = ? AND e.deletedAt IS NULL
+             ORDER BY e.name, e.id`,
+            [id],
+          )
+        : await this.databaseService.query<EmployeeWithLevel>(
+            // path (",1,5,9,") stops the walk should reporting lines ever loop
+            `WITH RECURSIVE _reports (id, level, path) AS (
+               SELECT e.id, 1, CAST(CONCAT(',', ?, ',', e.id, ',') AS CHAR(${REPORTING_PATH_LENGTH}))
+               FROM Employee e
+               WHERE e.managerId = ? AND e.deletedAt IS NULL
+               UNION ALL
+               SELECT e.id, r.level + 1, CONCAT(r.path, e.id, ',') FROM Employee e
+               JOIN _reports r ON e.managerId = r.id
+               WHERE e.deletedAt IS NULL
+                 AND LOCATE(CONCAT(',', e.id, ','), r.path) = 0
+             )
+             SELECT e.*, r.level FROM _reports r JOIN Employee e ON e.id = r.id
+             ORDER BY r.level, e.name, e.id`,
+            [id, id],
+          );
+
+      result.Success = true;
+      result.Message = 'Reports retrieved successfully';
+      result.ErrorCode = 0;
+      result.ReturnedObject = employees;
+      return result;
+    } catch (error) {
+      console.log('EmployeesRepository.findReports. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to retrieve reports',
+      );
+      return new ResultWithData<EmployeeWithLevel[]>(
+        errorResult.Success,
+        errorResult.Message,
+        [],
+        errorResult.ErrorCode,
+      );
+    }
+  }
+
+  /**
+   * The management chain of an employee: direct manager (level 1), their
+   * manager, and so on up to the top. Stops at soft deleted managers, unless
+   * includeDeleted (cycle checks: a deleted manager can be restored).
+   */
+  async findManagementChain(
+    id: number,
+    master: boolean = false,
+    includeDeleted: boolean = false,
+  ): Promise<ResultWithData<EmployeeWithLevel[]>> {
+    const result = new ResultWithData<EmployeeWithLevel[]>();
+    try {
+      const active = includeDeleted ? '' : 'AND m.deletedAt IS NULL';
+      // path (",1,5,9,") stops the walk should reporting lines ever loop
+      const sql = `WITH RECURSIVE _chain (id, managerId, level, path) AS (
+           SELECT m.id, m.managerId, 1,
+                  CAST(CONCAT(',', e.id, ',', m.id, ',') AS CHAR(${REPORTING_PATH_LENGTH}))
+           FROM Employee e
+           JOIN Employee m ON m.id = e.managerId
+           WHERE e.id = ? ${active}
+           UNION ALL
+           SELECT m.id, m.managerId, c.level + 1, CONCAT(c.path, m.id, ',')
+           FROM Employee m
+           JOIN _chain c ON m.id = c.managerId
+           WHERE LOCATE(CONCAT(',', m.id, ','), c.path) = 0 ${active}
+         )
+         SELECT m.*, c.level FROM _chain c JOIN Employee m ON m.id = c.id
+         ORDER BY c.level`;
+      // master: used for validation right before a write
+      const employees = master
+        ? await this.databaseService.queryMaster<EmployeeWithLevel>(sql, [id])
+        : await this.databaseService.query<EmployeeWithLevel>(sql, [id]);
+
+      result.Success = true;
+      result.Message = 'Management chain retrieved successfully';
+      result.ErrorCode = 0;
+      result.ReturnedObject = employees;
+      return result;
+    } catch (error) {
+      console.log('EmployeesRepository.findManagementChain. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to retrieve management chain',
+      );
+      return new ResultWithData<EmployeeWithLevel[]>(
+        errorResult.Success,
+        errorResult.Message,
+        [],
+        errorResult.ErrorCode,
+      );
+    }
+  }
+
+  async findAllDeleted(
+    page?: number,
+    pageSize?: number,
+  ): Promise<PaginationResult<Employee[]>> {
+    const result = new PaginationResult<Employee[]>();
+    try {
+      const currentPage = page && page > 0 ? Math.floor(page) : 1;
+      const currentPageSize =
+        pageSize && pageSize > 0 ? Math.floor(pageSize) : 10;
+      const offset = (currentPage - 1) * currentPageSize;
+
+      const countRow = await this.databaseService.queryOne<{ count: number }>(
+        'SELECT COUNT(*) AS count FROM Employee WHERE deletedAt IS NOT NULL',
+      );
+      const totalCount = Number(countRow?.count ?? 0);
+
+      // LIMIT/OFFSET are sanitized integers (prepared statements don't accept them as placeholders reliably)
+      const employees = await this.databaseService.query<Employee>(
+        `SELECT * FROM Employee
+         WHERE deletedAt IS NOT NULL
+         ORDER BY deletedAt DESC, id DESC
+         LIMIT ${currentPageSize} OFFSET ${offset}`,
+      );
+
+      result.Success = true;
+      result.Message = 'Deleted employees retrieved successfully';
+      result.ErrorCode = 0;
       result.Page = currentPage;
       result.PageSize = currentPageSize;
       result.Total = totalCount;
-      result.TotalPages = totalPages;
+      result.TotalPages = Math.ceil(totalCount / currentPageSize);
       result.ReturnedObject = employees;
       return result;
     } catch (error) {
-      console.log('EmployeesRepository.findAll. error', error);
+      console.log('EmployeesRepository.findAllDeleted. error', error);
 
       const errorResult = handleDatabaseError(
         error,
-        'Failed to retrieve employees',
+        'Failed to retrieve deleted employees',
       );
       return new PaginationResult<Employee[]>(
         errorResult.Success,
@@ -153,8 +497,8 @@ export class EmployeesRepository {
 
     try {
       const sql = `
-        INSERT INTO Employee (name, email, role, photoUrl, createdAt, updatedAt, departmentId)
-        VALUES (?, ?, ?, ?, NOW(), NOW(), ?)
+        INSERT INTO Employee (name, email, role, photoUrl, createdAt, updatedAt, departmentId, managerId)
+        VALUES (?, ?, ?, ?, NOW(), NOW(), ?, ?)
       `;
 
       // execute() automatically handles sticky session - it marks a write and stores the connection
@@ -165,6 +509,7 @@ export class EmployeesRepository {
         createEmployeeDto.role,
         createEmployeeDto.photoUrl || null,
         createEmployeeDto.departmentId,
+        createEmployeeDto.managerId ?? null,
       ])) as [{ insertId: number }, unknown];
 
       // resultDb from execute() is [ResultSetHeader, FieldPacket[]]
@@ -232,7 +577,7 @@ export class EmployeesRepository {
   async findOne(id: number): Promise<ResultWithData<Employee | null>> {
     const result = new ResultWithData<Employee | null>();
     try {
-      const sql = 'SELECT * FROM Employee WHERE id = ?';
+      const sql = 'SELECT * FROM Employee WHERE id = ? AND deletedAt IS NULL';
       const employee = await this.databaseService.queryOne<Employee>(sql, [id]);
 
       if (employee) {
@@ -264,9 +609,128 @@ export class EmployeesRepository {
     }
   }
 
+  /**
+   * Active employees of a department (not of its subdepartments).
+   * Reads from the master so the result reflects writes made earlier in the request.
+   */
+  async findActiveByDepartmentMaster(
+    departmentId: number,
+  ): Promise<ResultWithData<Employee[]>> {
+    const result = new ResultWithData<Employee[]>();
+    try {
+      const employees = await this.databaseService.queryMaster<Employee>(
+        'SELECT * FROM Employee WHERE departmentId = ? AND deletedAt IS NULL ORDER BY id',
+        [departmentId],
+      );
+
+      result.Success = true;
+      result.Message = 'Employees retrieved successfully';
+      result.ErrorCode = 0;
+      result.ReturnedObject = employees;
+      return result;
+    } catch (error) {
+      console.log(
+        'EmployeesRepository.findActiveByDepartmentMaster. error',
+        error,
+      );
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to retrieve employees',
+      );
+      return new ResultWithData<Employee[]>(
+        errorResult.Success,
+        errorResult.Message,
+        [],
+        errorResult.ErrorCode,
+      );
+    }
+  }
+
+  /**
+   * Employees (including soft deleted ones) matching any of the given emails.
+   * Reads from the master so the result reflects writes made earlier in the request.
+   */
+  async findByEmailsMaster(
+    emails: string[],
+  ): Promise<ResultWithData<Employee[]>> {
+    const result = new ResultWithData<Employee[]>();
+    try {
+      let employees: Employee[] = [];
+      if (emails.length > 0) {
+        const placeholders = emails.map(() => '?').join(', ');
+        employees = await this.databaseService.queryMaster<Employee>(
+          `SELECT * FROM Employee WHERE email IN (${placeholders})`,
+          emails,
+        );
+      }
+
+      result.Success = true;
+      result.Message = 'Employees retrieved successfully';
+      result.ErrorCode = 0;
+      result.ReturnedObject = employees;
+      return result;
+    } catch (error) {
+      console.log('EmployeesRepository.findByEmailsMaster. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to retrieve employees',
+      );
+      return new ResultWithData<Employee[]>(
+        errorResult.Success,
+        errorResult.Message,
+        [],
+        errorResult.ErrorCode,
+      );
+    }
+  }
+
+  /**
+   * Checks that no other employee (including soft deleted ones, since the
+   * unique index covers them) uses the given email.
+   * Fails with DUPLICATE_ENTRY when the email is taken.
+   */
+  async checkEmailAvailable(
+    email: string,
+    excludeId?: number,
+  ): Promise<ResultNoData> {
+    const result = new ResultNoData();
+    try {
+      const existing = await this.databaseService.queryOne<{ id: number }>(
+        'SELECT id FROM Employee WHERE email = ? AND id <> ?',
+        [email, excludeId ?? 0],
+      );
+
+      if (existing) {
+        result.Success = false;
+        result.Message = `Email ${email} is already used by employee ${existing.id}`;
+        result.ErrorCode = RETURN_DATABASE_ERROR_CODES.DUPLICATE_ENTRY;
+        return result;
+      }
+
+      result.Success = true;
+      result.Message = 'Email is available';
+      result.ErrorCode = 0;
+      return result;
+    } catch (error) {
+      console.log('EmployeesRepository.checkEmailAvailable. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to check employee email',
+      );
+      return new ResultNoData(
+        errorResult.Success,
+        errorResult.Message,
+        errorResult.ErrorCode,
+      );
+    }
+  }
+
   async update(
     id: number,
-    updateEmployeeDto: UpdateEmployeeDto,
+    changes: EmployeeChanges,
     audit?: AuditContext,
   ): Promise<ResultNoData> {
     const result = new ResultNoData();
@@ -274,29 +738,34 @@ export class EmployeesRepository {
       const updates: string[] = [];
       const values: any[] = [];
 
-      if (updateEmployeeDto.name !== undefined) {
+      if (changes.name !== undefined) {
         updates.push('name = ?');
-        values.push(updateEmployeeDto.name);
+        values.push(changes.name);
       }
 
-      if (updateEmployeeDto.email !== undefined) {
+      if (changes.email !== undefined) {
         updates.push('email = ?');
-        values.push(updateEmployeeDto.email);
+        values.push(changes.email);
       }
 
-      if (updateEmployeeDto.role !== undefined) {
+      if (changes.role !== undefined) {
         updates.push('role = ?');
-        values.push(updateEmployeeDto.role);
+        values.push(changes.role);
       }
 
-      if (updateEmployeeDto.photoUrl !== undefined) {
+      if (changes.photoUrl !== undefined) {
         updates.push('photoUrl = ?');
-        values.push(updateEmployeeDto.photoUrl);
+        values.push(changes.photoUrl);
       }
 
-      if (updateEmployeeDto.departmentId !== undefined) {
+      if (changes.departmentId !== undefined) {
         updates.push('departmentId = ?');
-        values.push(updateEmployeeDto.departmentId);
+        values.push(changes.departmentId);
+      }
+
+      if (changes.managerId !== undefined) {
+        updates.push('managerId = ?');
+        values.push(changes.managerId);
       }
 
       if (updates.length === 0) {
@@ -320,7 +789,7 @@ export class EmployeesRepository {
         actorType: audit?.actorType ?? null,
         ip: audit?.ip ?? null,
         userAgent: audit?.userAgent ?? null,
-        data: audit?.data ?? { changes: updateEmployeeDto },
+        data: audit?.data ?? { changes: changes },
       });
 
       result.Success = true;
@@ -342,11 +811,26 @@ export class EmployeesRepository {
     }
   }
 
+  /**
+   * Soft delete: the row is kept and marked with deletedAt/deletedBy,
+   * so it can be listed in the trash and restored later.
+   */
   async delete(id: number, audit?: AuditContext): Promise<ResultNoData> {
     const result = new ResultNoData();
     try {
-      const sql = 'DELETE FROM Employee WHERE id = ?';
-      await this.databaseService.execute(sql, [id]);
+      const sql =
+        'UPDATE Employee SET deletedAt = NOW(), deletedBy = ? WHERE id = ? AND deletedAt IS NULL';
+      const resultDb = (await this.databaseService.execute(sql, [
+        audit?.actorUserId ?? null,
+        id,
+      ])) as [{ affectedRows: number }, unknown];
+
+      if (!resultDb[0]?.affectedRows) {
+        result.Success = false;
+        result.Message = `Employee with id ${id} not found`;
+        result.ErrorCode = 404;
+        return result;
+      }
 
       await this.auditRepository.insert({
         eventType: 'employee.deleted',
@@ -376,4 +860,54 @@ export class EmployeesRepository {
       );
     }
   }
+
+  /** detachManager also clears managerId (when it would close a reporting cycle). */
+  async restore(
+    id: number,
+    audit?: AuditContext,
+    detachManager: boolean = false,
+  ): Promise<ResultNoData> {
+    const result = new ResultNoData();
+    try {
+      const sql = `UPDATE Employee SET deletedAt = NULL, deletedBy = NULL${detachManager ? ', managerId = NULL' : ''}, updatedAt = NOW() WHERE id = ? AND deletedAt IS NOT NULL`;
+      const resultDb = (await this.databaseService.execute(sql, [id])) as [
+        { affectedRows: number },
+        unknown,
+      ];
+
+      if (!resultDb[0]?.affectedRows) {
+        result.Success = false;
+        result.Message = `Employee with id ${id} is not deleted`;
+        result.ErrorCode = 409;
+        return result;
+      }
+
+      await this.auditRepository.insert({
+        eventType: 'employee.restored',
+        entityType: 'Employee',
+        entityId: String(id),
+        actorUserId: audit?.actorUserId ?? null,
+        actorType: audit?.actorType ?? null,
+        ip: audit?.ip ?? null,
+        userAgent: audit?.userAgent ?? null,
+        data: audit?.data ?? null,
+      });
+      result.Success = true;
+      result.Message = 'Employee restored successfully';
+      result.ErrorCode = 0;
+      return result;
+    } catch (error) {
+      console.log('EmployeesRepository.restore. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to restore employee',
+      );
+      return new ResultNoData(
+        errorResult.Success,
+        errorResult.Message,
+        errorResult.ErrorCode,
+      );
+    }
+  }
 }
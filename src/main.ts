@@ -6,6 +6,7 @@ import { ConfigService } from '@nestjs/config';
 import session from 'express-session';
 import { RedisService } from './redis/redis.service';
 import { RedisStore } from 'connect-redis';
+import { SessionsService } from './auth/services/sessions.service';
 
 async function bootstrap() {
   // usar os custom logger globalmente:
@@ -55,6 +56,10 @@ async function bootstrap() {
       'departments',
       'Department management endpoints - CRUD operations for department entities',
     )
+    .addTag(
+      'audit',
+      'Audit log endpoints - Query audit events and per-entity timelines (admin only)',
+    )
     .addTag(
       'app',
       'Application endpoints - Health check and general information',
@@ -64,6 +69,7 @@ async function bootstrap() {
       'Authentication endpoints - Login, verification, and session management',
     )
     .addCookieAuth('session-id')
+    .addBearerAuth()
     .build();
   const document = SwaggerModule.createDocument(app, config);
   SwaggerModule.setup('api/docs', app, document, {
@@ -108,6 +114,9 @@ async function bootstrap() {
     console.log('✓ Using in-memory store for sessions');
   }
 
+  // Lets users list and revoke their sessions (GET /api/auth/sessions)
+  app.get(SessionsService).attachStore(sessionStore);
+
   const sessionSecret =
     configService.get<string>('SESSION_SECRET') ||
     'your-secret-key-change-in-production';
@@ -255,6 +255,93 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  /**
+   * Set a hash field, with optional expiration of the whole key (in seconds)
+   */
+  async hSet(
+    key: string,
+    field: string,
+    value: string,
+    ttlSeconds?: number,
+  ): Promise<boolean> {
+    if (!this.isAvailable()) {
+      return false;
+    }
+
+    try {
+      const transaction = this.client!.multi().hSet(key, field, value);
+      if (ttlSeconds) {
+        transaction.expire(key, ttlSeconds);
+      }
+      await transaction.exec();
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Redis HSET error for key ${key}: ${message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Overwrite a hash field only if it still exists (never recreates a removed one)
+   */
+  async hSetExisting(
+    key: string,
+    field: string,
+    value: string,
+  ): Promise<boolean> {
+    if (!this.isAvailable()) {
+      return false;
+    }
+
+    try {
+      await this.client!.eval(
+        "if redis.call('HEXISTS', KEYS[1], ARGV[1]) == 1 then redis.call('HSET', KEYS[1], ARGV[1], ARGV[2]) end",
+        { keys: [key], arguments: [field, value] },
+      );
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Redis HSET error for key ${key}: ${message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Get all fields of a hash (empty when the key doesn't exist)
+   */
+  async hGetAll(key: string): Promise<Record<string, string>> {
+    if (!this.isAvailable()) {
+      return {};
+    }
+
+    try {
+      return { ...(await this.client!.hGetAll(key)) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Redis HGETALL error for key ${key}: ${message}`);
+      return {};
+    }
+  }
+
+  /**
+   * Delete hash fields (the key goes away with its last field)
+   */
+  async hDel(key: string, fields: string[]): Promise<boolean> {
+    if (!this.isAvailable()) {
+      return false;
+    }
+
+    try {
+      await this.client!.hDel(key, fields);
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Redis HDEL error for key ${key}: ${message}`);
+      return false;
+    }
+  }
+
   /**
    * Set expiration on a key (in seconds)
    */
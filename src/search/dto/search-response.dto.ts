@@ -0,0 +1,74 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  SEARCH_TYPES,
+  type SearchMode,
+  type SearchType,
+} from '../entities/search';
+
+export class SearchHighlightDto {
+  @ApiProperty({ description: 'Matched field', example: 'name' })
+  field: string;
+
+  @ApiProperty({
+    description:
+      'Field value with the matched words wrapped in <mark> (HTML escaped)',
+    example: '<mark>Jane</mark> Smith',
+  })
+  snippet: string;
+}
+
+export class SearchHitDto {
+  @ApiProperty({
+    description: 'Kind of entity',
+    enum: SEARCH_TYPES,
+    example: 'employee',
+  })
+  type: SearchType;
+
+  @ApiProperty({ description: 'Entity ID', example: 1 })
+  id: number;
+
+  @ApiProperty({
+    description: 'Display title (employee or department name)',
+    example: 'Jane Smith',
+  })
+  title: string;
+
+  @ApiPropertyOptional({
+    description: 'Secondary text (the email for employees)',
+    example: 'jane.smith@example.com',
+    nullable: true,
+    type: String,
+  })
+  subtitle: string | null;
+
+  @ApiProperty({
+    description: 'MySQL full-text relevance, higher is better',
+    example: 0.9,
+  })
+  score: number;
+
+  @ApiProperty({
+    description: 'Highlighted matches per field',
+    type: [SearchHighlightDto],
+  })
+  highlights: SearchHighlightDto[];
+}
+
+export class SearchResponseDto {
+  @ApiProperty({ description: 'The search query', example: 'jane' })
+  query: string;
+
+  @ApiProperty({
+    description: 'Search mode',
+    enum: ['natural', 'prefix'],
+    example: 'natural',
+  })
+  mode: SearchMode;
+
+  @ApiProperty({
+    description: 'Hits of every requested type, most relevant first',
+    type: [SearchHitDto],
+  })
+  hits: SearchHitDto[];
+}
@@ -0,0 +1,26 @@
+/**
+ * natural: relevance-ranked match of whole words (MySQL NATURAL LANGUAGE MODE).
+ * prefix: every word must start a word of the document, for type-ahead
+ * (BOOLEAN MODE with `+word*`).
+ */
+export type SearchMode = 'natural' | 'prefix';
+
+export const SEARCH_TYPES = ['employee', 'department'] as const;
+
+export type SearchType = (typeof SEARCH_TYPES)[number];
+
+export interface EmployeeSearchRow {
+  id: number;
+  name: string;
+  email: string;
+  role: string;
+  departmentId: number | null;
+  score: number;
+}
+
+export interface DepartmentSearchRow {
+  id: number;
+  name: string;
+  parentId: number | null;
+  score: number;
+}
@@ -0,0 +1,99 @@
+import { Injectable } from '@nestjs/common';
+import { MysqlDatabaseService } from 'src/database/mysql-database.service';
+import { handleDatabaseError } from 'src/common/error-handlers';
+import { ResultWithData } from 'src/common/result';
+import {
+  DepartmentSearchRow,
+  EmployeeSearchRow,
+  SearchMode,
+} from '../entities/search';
+
+const AGAINST_MODIFIERS: Record<SearchMode, string> = {
+  natural: 'IN NATURAL LANGUAGE MODE',
+  prefix: 'IN BOOLEAN MODE',
+};
+
+@Injectable()
+export class SearchRepository {
+  constructor(private readonly databaseService: MysqlDatabaseService) {}
+
+  /** Active employees matching on name/email (FULLTEXT ft_employee_name_email), best first. */
+  async searchEmployees(
+    query: string,
+    mode: SearchMode,
+    limit: number,
+  ): Promise<ResultWithData<EmployeeSearchRow[]>> {
+    const result = new ResultWithData<EmployeeSearchRow[]>();
+    try {
+      const match = `MATCH(name, email) AGAINST (? ${AGAINST_MODIFIERS[mode]})`;
+      // LIMIT is a sanitized integer (prepared statements don't accept it as a placeholder reliably)
+      const rows = await this.databaseService.query<EmployeeSearchRow>(
+        `SELECT id, name, email, role, departmentId, ${match} AS score
+         FROM Employee
+         WHERE deletedAt IS NULL AND ${match}
+         ORDER BY score DESC, id
+         LIMIT ${Math.max(1, Math.floor(limit))}`,
+        [query, query],
+      );
+
+      result.Success = true;
+      result.Message = 'Employees searched successfully';
+      result.ErrorCode = 0;
+      result.ReturnedObject = rows;
+      return result;
+    } catch (error) {
+      console.log('SearchRepository.searchEmployees. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to search employees',
+      );
+      return new ResultWithData<EmployeeSearchRow[]>(
+        errorResult.Success,
+        errorResult.Message,
+        [],
+        errorResult.ErrorCode,
+      );
+    }
+  }
+
+  /** Departments matching on name (FULLTEXT ft_department_name), best first. */
+  async searchDepartments(
+    query: string,
+    mode: SearchMode,
+    limit: number,
+  ): Promise<ResultWithData<DepartmentSearchRow[]>> {
+    const result = new ResultWithData<DepartmentSearchRow[]>();
+    try {
+      const match = `MATCH(name) AGAINST (? ${AGAINST_MODIFIERS[mode]})`;
+      // LIMIT is a sanitized integer (prepared statements don't accept it as a placeholder reliably)
+      const rows = await this.databaseService.query<DepartmentSearchRow>(
+        `SELECT id, name, parentId, ${match} AS score
+         FROM Department
+         WHERE ${match}
+         ORDER BY score DESC, id
+         LIMIT ${Math.max(1, Math.floor(limit))}`,
+        [query, query],
+      );
+
+      result.Success = true;
+      result.Message = 'Departments searched successfully';
+      result.ErrorCode = 0;
+      result.ReturnedObject = rows;
+      return result;
+    } catch (error) {
+      console.log('SearchRepository.searchDepartments. error', error);
+
+      const errorResult = handleDatabaseError(
+        error,
+        'Failed to search departments',
+      );
+      return new ResultWithData<DepartmentSearchRow[]>(
+        errorResult.Success,
+        errorResult.Message,
+        [],
+        errorResult.ErrorCode,
+      );
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import { highlight, searchTerms, toFullTextQuery } from './search-query';
+
+describe('search query', () => {
+  it('keeps only words, so boolean operators in the input are ignored', () => {
+    const terms = searchTerms('+John -"Smith" john@EXAMPLE.com (x*)');
+
+    expect(terms).toEqual(['john', 'smith', 'example', 'com', 'x']);
+    expect(toFullTextQuery(['jo', 'sm'], 'prefix')).toBe('+jo* +sm*');
+    expect(toFullTextQuery(['john', 'smith'], 'natural')).toBe('john smith');
+  });
+
+  it('highlights whole words in natural mode and prefixes in prefix mode', () => {
+    expect(highlight('Johnny John', ['john'], 'natural')).toBe(
+      'Johnny <mark>John</mark>',
+    );
+    expect(highlight('Johnny John', ['jo'], 'prefix')).toBe(
+      '<mark>Jo</mark>hnny <mark>Jo</mark>hn',
+    );
+    expect(highlight('Research', ['sales'], 'natural')).toBeNull();
+  });
+
+  it('escapes HTML outside and inside the marks', () => {
+    expect(highlight('R&D <Labs>', ['labs'], 'natural')).toBe(
+      'R&amp;D &lt;<mark>Labs</mark>&gt;',
+    );
+  });
+});
@@ -0,0 +1,57 @@
+import { SearchMode } from './entities/search';
+
+/**
+ * The words of a search query: runs of letters/digits, lowercased and
+ * deduplicated. Everything else (including the FULLTEXT boolean operators
+ * + - < > ( ) ~ * " @) is dropped, so user input can't change the query syntax.
+ */
+export function searchTerms(q: string): string[] {
+  const words = q.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return [...new Set(words)];
+}
+
+/** The AGAINST(...) argument for the given terms and mode. */
+export function toFullTextQuery(terms: string[], mode: SearchMode): string {
+  return mode === 'prefix'
+    ? terms.map((t) => `+${t}*`).join(' ')
+    : terms.join(' ');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&#39;');
+}
+
+/**
+ * Wraps the parts of `text` that match the terms in `<mark>` (whole words in
+ * natural mode, word prefixes in prefix mode). The rest of the text is HTML
+ * escaped, so the result can be rendered as-is. Null when nothing matches.
+ */
+export function highlight(
+  text: string,
+  terms: string[],
+  mode: SearchMode,
+): string | null {
+  if (!text || terms.length === 0) return null;
+
+  // Longest first, so "john" wins over "jo" in the alternation
+  const alternatives = [...terms].sort((a, b) => b.length - a.length);
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})${mode === 'natural' ? '(?![\\p{L}\\p{N}])' : ''}`,
+    'giu',
+  );
+
+  let result = '';
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    result += `${escapeHtml(text.slice(last, match.index))}<mark>${escapeHtml(match[0])}</mark>`;
+    last = match.index + match[0].length;
+  }
+  if (last === 0) return null;
+
+  return result + escapeHtml(text.slice(last));
+}
@@ -0,0 +1,111 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Query,
+  UnauthorizedException,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiCookieAuth,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { SkipThrottle } from '@nestjs/throttler';
+import { SessionGuard } from 'src/auth/guards/session.guard';
+import { CurrentUser } from 'src/auth/decorators/current-user.decorator';
+import { SessionUser } from 'src/types/session-user.interface';
+import { ErrorResponseDto } from 'src/common/dto/error-response.dto';
+import { parseEnumListParam } from 'src/common/tools';
+import { SearchService } from './search.service';
+import { SearchResponseDto } from './dto/search-response.dto';
+import { SEARCH_TYPES, type SearchMode } from './entities/search';
+
+@ApiTags('search')
+@SkipThrottle()
+@Controller('search')
+export class SearchController {
+  constructor(private readonly searchService: SearchService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Search employees and departments',
+    description:
+      'Full-text search over employee name/email and department name (MySQL FULLTEXT indexes). Hits of both types are returned together, most relevant first, with the matched words highlighted. Use mode=prefix for type-ahead: every word must be the start of a word in the result. Words shorter than the server full-text minimum token size (3 by default) are ignored in natural mode.',
+  })
+  @ApiQuery({
+    name: 'q',
+    required: true,
+    type: String,
+    description: 'Search text',
+    example: 'jane smith',
+  })
+  @ApiQuery({
+    name: 'mode',
+    required: false,
+    enum: ['natural', 'prefix'],
+    description: 'Search mode (default: natural)',
+    example: 'prefix',
+  })
+  @ApiQuery({
+    name: 'types',
+    required: false,
+    type: String,
+    description: `Comma separated entity types to search (${SEARCH_TYPES.join(', ')}; default: all)`,
+    example: 'employee',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Maximum number of hits (default: 20, max: 100)',
+    example: 10,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Relevance-ranked hits',
+    type: SearchResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid query parameters (e.g., q without any word)',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'Service unavailable (e.g., database connection error)',
+    type: ErrorResponseDto,
+  })
+  @UseGuards(SessionGuard)
+  @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
+  async search(
+    @CurrentUser() user: SessionUser | null,
+    @Query('q') q?: string,
+    @Query('mode') mode?: SearchMode,
+    @Query('types') types?: string,
+    @Query('limit') limit?: number,
+  ): Promise<SearchResponseDto> {
+    if (!user) {
+      throw new UnauthorizedException('Unauthorized');
+    }
+    if (mode !== undefined && mode !== 'natural' && mode !== 'prefix') {
+      throw new BadRequestException('mode must be natural or prefix');
+    }
+
+    return this.searchService.search(
+      q,
+      mode,
+      parseEnumListParam(types, 'types', SEARCH_TYPES),
+      limit ? +limit : undefined,
+    );
+  }
+}
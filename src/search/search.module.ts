@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from 'src/database/database.module';
+import { SearchRepository } from './repository/search.repository';
+import { SearchService } from './search.service';
+import { SearchController } from './search.controller';
+
+@Module({
+  imports: [DatabaseModule],
+  controllers: [SearchController],
+  providers: [SearchRepository, SearchService],
+})
+export class SearchModule {}
@@ -0,0 +1,99 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { handleRepositoryError } from 'src/common/error-handlers';
+import { SearchRepository } from './repository/search.repository';
+import { SearchHitDto, SearchResponseDto } from './dto/search-response.dto';
+import { SearchMode, SearchType } from './entities/search';
+import { highlight, searchTerms, toFullTextQuery } from './search-query';
+
+@Injectable()
+export class SearchService {
+  private readonly DEFAULT_LIMIT = 20;
+  private readonly MAX_LIMIT = 100;
+
+  constructor(private readonly searchRepository: SearchRepository) {}
+
+  /**
+   * Searches employees (name/email) and departments (name) with the FULLTEXT
+   * indexes and merges the hits by relevance. Each type is limited on its own
+   * before merging, so the final list holds the best `limit` hits overall.
+   */
+  async search(
+    q: string | undefined,
+    mode: SearchMode = 'natural',
+    types: SearchType[] = ['employee', 'department'],
+    limit?: number,
+  ): Promise<SearchResponseDto> {
+    const terms = searchTerms(q ?? '');
+    if (terms.length === 0) {
+      throw new BadRequestException('q must contain at least one word');
+    }
+
+    const maxHits = Math.min(
+      limit && limit > 0 ? Math.floor(limit) : this.DEFAULT_LIMIT,
+      this.MAX_LIMIT,
+    );
+    const fullTextQuery = toFullTextQuery(terms, mode);
+    const hits: SearchHitDto[] = [];
+
+    if (types.includes('employee')) {
+      const result = await this.searchRepository.searchEmployees(
+        fullTextQuery,
+        mode,
+        maxHits,
+      );
+      if (!result.Success) {
+        handleRepositoryError(result);
+      }
+      for (const row of result.ReturnedObject ?? []) {
+        hits.push({
+          type: 'employee',
+          id: row.id,
+          title: row.name,
+          subtitle: row.email,
+          score: Number(row.score),
+          highlights: this.highlights(
+            { name: row.name, email: row.email },
+            terms,
+            mode,
+          ),
+        });
+      }
+    }
+
+    if (types.includes('department')) {
+      const result = await this.searchRepository.searchDepartments(
+        fullTextQuery,
+        mode,
+        maxHits,
+      );
+      if (!result.Success) {
+        handleRepositoryError(result);
+      }
+      for (const row of result.ReturnedObject ?? []) {
+        hits.push({
+          type: 'department',
+          id: row.id,
+          title: row.name,
+          subtitle: null,
+          score: Number(row.score),
+          highlights: this.highlights({ name: row.name }, terms, mode),
+        });
+      }
+    }
+
+    hits.sort((a, b) => b.score - a.score);
+
+    return { query: q ?? '', mode, hits: hits.slice(0, maxHits) };
+  }
+
+  private highlights(
+    fields: Record<string, string>,
+    terms: string[],
+    mode: SearchMode,
+  ): SearchHitDto['highlights'] {
+    return Object.entries(fields).flatMap(([field, value]) => {
+      const snippet = highlight(value, terms, mode);
+      return snippet ? [{ field, snippet }] : [];
+    });
+  }
+}
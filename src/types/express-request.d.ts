@@ -0,0 +1,12 @@
+import type { SessionUser } from './session-user.interface';
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Set by SessionGuard when the request authenticated with a bearer token or an API key. */
+      tokenUser?: SessionUser;
+      /** Set by SessionGuard when the request authenticated with an API key. */
+      apiKeyId?: number;
+    }
+  }
+}
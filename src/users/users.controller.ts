@@ -18,6 +18,9 @@ import {
   ApiQuery,
   ApiBody,
   ApiCookieAuth,
+  ApiBearerAuth,
+  ApiHeader,
+  ApiProduces,
 } from '@nestjs/swagger';
 import { UsersService } from './users.service';
 import { CreateUserDto } from './dto/create-user.dto';
@@ -26,7 +29,13 @@ import { UserResponseDto } from './dto/user-response.dto';
 import { UserType } from './entities/user';
 import { SessionGuard } from '../auth/guards/session.guard';
 import { AllowedUserTypes } from '../auth/decorators/allowed-user-types.decorator';
+import { NoApiKeys } from '../auth/decorators/no-api-keys.decorator';
 import { ErrorResponseDto } from 'src/common/dto/error-response.dto';
+import {
+  AcceptsFormat,
+  type ResponseFormat,
+} from 'src/auth/decorators/accept-format.decorator';
+import { exportFile } from 'src/common/export-formats';
 
 @ApiTags('users')
 @Controller('users') // rota: /users
@@ -36,6 +45,7 @@ export class UsersController {
   @Get() // GET /users
   @UseGuards(SessionGuard)
   @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
   @AllowedUserTypes('admin')
   @ApiOperation({
     summary: 'Get all users',
@@ -48,11 +58,49 @@ export class UsersController {
     enum: UserType,
     description: 'Filter users by type',
   })
+  @ApiHeader({
+    name: 'Accept',
+    required: false,
+    description:
+      'Response format via content negotiation. Use "text/csv" to download a CSV file, "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" for an Excel workbook or "application/x-ndjson" for newline-delimited JSON; otherwise JSON is returned. Exports never include password hashes.',
+    example: 'text/csv',
+  })
+  @ApiProduces(
+    'application/json',
+    'text/csv',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/x-ndjson',
+  )
   @ApiResponse({
     status: 200,
     description: 'List of users retrieved successfully',
     type: [UserResponseDto],
   })
+  @ApiResponse({
+    status: 200,
+    description:
+      'File download (when Accept is text/csv, the XLSX media type or application/x-ndjson).',
+    content: {
+      'text/csv': {
+        schema: {
+          type: 'string',
+          format: 'binary',
+        },
+      },
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': {
+        schema: {
+          type: 'string',
+          format: 'binary',
+        },
+      },
+      'application/x-ndjson': {
+        schema: {
+          type: 'string',
+          format: 'binary',
+        },
+      },
+    },
+  })
   @ApiResponse({
     status: 404,
     description: 'No users found with the specified type',
@@ -68,13 +116,24 @@ export class UsersController {
     description: 'Forbidden (insufficient permissions)',
     type: ErrorResponseDto,
   })
-  async findall(@Query('type') type?: UserType) {
-    return this.usersService.findAll(type);
+  async findall(
+    @AcceptsFormat() format: ResponseFormat,
+    @Query('type') type?: UserType,
+  ) {
+    const users = await this.usersService.findAll(type);
+
+    if (format !== 'json') {
+      const payload = await this.usersService.usersToFile(users, format);
+      return exportFile(payload, format, 'users');
+    }
+
+    return users;
   }
 
   @Get(':id') // GET /users/:id
   @UseGuards(SessionGuard)
   @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
   @AllowedUserTypes('admin')
   @ApiOperation({
     summary: 'Get user by ID',
@@ -113,7 +172,9 @@ export class UsersController {
   @Post() // POST /users
   @UseGuards(SessionGuard)
   @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
   @AllowedUserTypes('admin')
+  @NoApiKeys()
   @ApiOperation({
     summary: 'Create a new user',
     description:
@@ -140,7 +201,8 @@ export class UsersController {
   })
   @ApiResponse({
     status: 403,
-    description: 'Forbidden (insufficient permissions)',
+    description:
+      'Forbidden (insufficient permissions, or used with an API key)',
     type: ErrorResponseDto,
   })
   @ApiResponse({
@@ -160,7 +222,9 @@ export class UsersController {
   @Patch(':id') // PATCH /users/:id
   @UseGuards(SessionGuard)
   @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
   @AllowedUserTypes('admin')
+  @NoApiKeys()
   @ApiOperation({
     summary: 'Update user',
     description:
@@ -198,7 +262,8 @@ export class UsersController {
   })
   @ApiResponse({
     status: 403,
-    description: 'Forbidden (insufficient permissions)',
+    description:
+      'Forbidden (insufficient permissions, or used with an API key)',
     type: ErrorResponseDto,
   })
   @ApiResponse({
@@ -221,6 +286,7 @@ export class UsersController {
   @Delete(':id') // DELETE /users/:id
   @UseGuards(SessionGuard)
   @ApiCookieAuth('session-id')
+  @ApiBearerAuth()
   @AllowedUserTypes('admin')
   @ApiOperation({
     summary: 'Delete user',
@@ -4,11 +4,31 @@ import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
 import { User, UserType } from './entities/user';
 import { handleRepositoryError } from 'src/common/error-handlers';
+import { SessionsService } from 'src/auth/services/sessions.service';
 import { UserResponseDto } from './dto/user-response.dto';
+import {
+  ExportColumn,
+  ExportFormat,
+  rowsToFile,
+} from 'src/common/export-formats';
+
+// passwordHash is not part of UserResponseDto, so it can't be listed here
+export const USER_EXPORT_COLUMNS: ExportColumn<UserResponseDto>[] = [
+  { key: 'id', type: 'string' },
+  { key: 'name', type: 'string' },
+  { key: 'username', type: 'string' },
+  { key: 'email', type: 'string' },
+  { key: 'type', type: 'string' },
+  { key: 'createdAt', type: 'date' },
+  { key: 'updatedAt', type: 'date' },
+];
 
 @Injectable()
 export class UsersService {
-  constructor(private readonly usersRepository: UsersRepository) {}
+  constructor(
+    private readonly usersRepository: UsersRepository,
+    private readonly sessionsService: SessionsService,
+  ) {}
 
   async create(createUserDto: CreateUserDto): Promise<UserResponseDto> {
     console.log('Creating User. createUserDto', createUserDto);
@@ -48,6 +68,14 @@ export class UsersService {
     });
   }
 
+  /** Serializes a list of users in one of the file formats (same columns for all). */
+  async usersToFile(
+    rows: UserResponseDto[],
+    format: ExportFormat,
+  ): Promise<Buffer | string> {
+    return rowsToFile(rows, USER_EXPORT_COLUMNS, format, 'Users');
+  }
+
   async update(
     id: string,
     updateUserDto: UpdateUserDto,
@@ -65,6 +93,15 @@ export class UsersService {
       handleRepositoryError(resultUpdate);
     }
 
+    // New credentials or permissions: existing logins must start over
+    const previous = result.ReturnedObject as User;
+    if (
+      updateUserDto.password !== undefined ||
+      (updateUserDto.type !== undefined && updateUserDto.type !== previous.type)
+    ) {
+      await this.sessionsService.revokeAll(id);
+    }
+
     return this.findOne(id);
   }
 
@@ -34,6 +34,7 @@ describe('EmployeesController (e2e)', () => {
     role: 'INTERN' | 'ENGINEER' | 'ADMIN';
     departmentId: number;
     photoUrl?: string | null;
+    managerId?: number | null;
   };
 
   type CreateEmployeeResponse = {
@@ -211,6 +212,65 @@ describe('EmployeesController (e2e)', () => {
     ).expect(200);
   });
 
+  it('soft deletes an employee, lists it in the trash and restores it', async () => {
+    const httpServer = getHttpServer();
+    const dept = await createDepartment();
+    const created = await createEmployee(dept.id);
+
+    try {
+      await withTestIp(
+        request(httpServer).delete(`/employees/${created.id}`),
+      ).expect(200);
+
+      // Row is kept and marked as deleted
+      const row = await db.queryOneMaster<{
+        deletedAt: Date | null;
+        deletedBy: string | null;
+      }>('SELECT deletedAt, deletedBy FROM Employee WHERE id = ?', [
+        created.id,
+      ]);
+      expect(row?.deletedAt).not.toBeNull();
+      expect(row?.deletedBy).toBe('test-user-id');
+
+      const trashRes = await withTestIp(
+        request(httpServer).get('/employees/deleted'),
+      )
+        .query({ page: 1, pageSize: 100 })
+        .expect(200);
+      const trash = trashRes.body as Array<{ id: number }>;
+      expect(trash.some((r) => r.id === created.id)).toBe(true);
+
+      const restoreRes = await withTestIp(
+        request(httpServer).post(`/employees/${created.id}/restore`),
+      ).expect(201);
+      const restored = restoreRes.body as { id: number; deletedAt: unknown };
+      expect(restored.id).toBe(created.id);
+      expect(restored.deletedAt).toBeNull();
+
+      // Restoring an active employee is a conflict
+      await withTestIp(
+        request(httpServer).post(`/employees/${created.id}/restore`),
+      ).expect(409);
+
+      await withTestIp(
+        request(httpServer).get(`/employees/${created.id}`),
+      ).expect(200);
+
+      const auditRows = await db.queryMaster<{ eventType: string }>(
+        'SELECT eventType FROM AuditLog WHERE entityType = ? AND entityId = ? ORDER BY id ASC',
+        ['Employee', String(created.id)],
+      );
+      expect(auditRows.map((r) => r.eventType)).toContain('employee.restored');
+    } finally {
+      await withTestIp(
+        request(httpServer).delete(`/employees/${created.id}`),
+      ).expect(200);
+      await withTestIp(
+        request(httpServer).delete(`/departments/${dept.id}`),
+      ).expect(200);
+    }
+  });
+
   it('returns 401 when session is missing', async () => {
     const httpServer = getHttpServer();
 
@@ -332,6 +392,200 @@ describe('EmployeesController (e2e)', () => {
     }
   });
 
+  it('filters employees by role and department lists, date window and photo, with multi-column sort', async () => {
+    const httpServer = getHttpServer();
+    const deptA = await createDepartment();
+    const deptB = await createDepartment();
+    const engineer = await createEmployee(deptA.id, { role: 'ENGINEER' });
+    const intern = await createEmployee(deptB.id, { role: 'INTERN' });
+
+    try {
+      const res = await withTestIp(request(httpServer).get('/employees'))
+        .query({
+          role: 'ENGINEER,INTERN',
+          departmentId: `${deptA.id},${deptB.id}`,
+          createdFrom: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+          hasPhoto: 'false',
+          sort: '-role,name',
+          pageSize: 50,
+        })
+        .expect(200);
+
+      const ids = (res.body as Array<{ id: number }>).map((r) => r.id);
+      // INTERN sorts after ENGINEER, so it comes first when descending
+      expect(ids).toEqual([intern.id, engineer.id]);
+
+      const admins = await withTestIp(request(httpServer).get('/employees'))
+        .query({ role: 'ADMIN', departmentId: `${deptA.id},${deptB.id}` })
+        .expect(200);
+      expect(admins.body).toEqual([]);
+
+      await withTestIp(request(httpServer).get('/employees'))
+        .query({ role: 'ENGINEER,CEO' })
+        .expect(400);
+      await withTestIp(request(httpServer).get('/employees'))
+        .query({ sort: '-salary' })
+        .expect(400);
+      await withTestIp(request(httpServer).get('/employees'))
+        .query({ createdFrom: '2024-02-01', createdTo: '2024-01-01' })
+        .expect(400);
+    } finally {
+      for (const e of [engineer, intern]) {
+        await withTestIp(
+          request(httpServer).delete(`/employees/${e.id}`),
+        ).expect(200);
+      }
+      for (const d of [deptA, deptB]) {
+        await withTestIp(
+          request(httpServer).delete(`/departments/${d.id}`),
+        ).expect(200);
+      }
+    }
+  });
+
+  it('scrolls through employees with cursor pagination', async () => {
+    const httpServer = getHttpServer();
+    const dept = await createDepartment();
+    const created = [
+      await createEmployee(dept.id),
+      await createEmployee(dept.id),
+      await createEmployee(dept.id),
+    ];
+
+    try {
+      const first = await withTestIp(request(httpServer).get('/employees'))
+        .query({
+          departmentId: dept.id,
+          pagination: 'cursor',
+          pageSize: 2,
+          withTotal: 'true',
+        })
+        .expect(200);
+
+      expect(first.headers['x-total-count']).toBe('3');
+      expect(first.headers['x-prev-cursor']).toBeUndefined();
+      const nextCursor = first.headers['x-next-cursor'];
+      expect(nextCursor).toBeDefined();
+
+      const second = await withTestIp(request(httpServer).get('/employees'))
+        .query({ departmentId: dept.id, cursor: nextCursor, pageSize: 2 })
+        .expect(200);
+
+      expect(second.headers['x-total-count']).toBeUndefined();
+      expect(second.headers['x-next-cursor']).toBeUndefined();
+      const ids = [
+        ...(first.body as Array<{ id: number }>),
+        ...(second.body as Array<{ id: number }>),
+      ].map((r) => r.id);
+      expect(ids).toEqual(created.map((e) => e.id));
+
+      const back = await withTestIp(request(httpServer).get('/employees'))
+        .query({
+          departmentId: dept.id,
+          cursor: second.headers['x-prev-cursor'],
+          pageSize: 2,
+        })
+        .expect(200);
+      expect((back.body as Array<{ id: number }>).map((r) => r.id)).toEqual(
+        ids.slice(0, 2),
+      );
+
+      await withTestIp(request(httpServer).get('/employees'))
+        .query({ cursor: nextCursor, sortBy: 'name' })
+        .expect(400);
+    } finally {
+      for (const e of created) {
+        await withTestIp(
+          request(httpServer).delete(`/employees/${e.id}`),
+        ).expect(200);
+      }
+      await withTestIp(
+        request(httpServer).delete(`/departments/${dept.id}`),
+      ).expect(200);
+    }
+  });
+
+  it('walks every cursor page when sorting by role', async () => {
+    const httpServer = getHttpServer();
+    const dept = await createDepartment();
+    const intern = await createEmployee(dept.id, { role: 'INTERN' });
+    const engineers = [
+      await createEmployee(dept.id, { role: 'ENGINEER' }),
+      await createEmployee(dept.id, { role: 'ENGINEER' }),
+    ];
+    const admin = await createEmployee(dept.id, { role: 'ADMIN' });
+
+    try {
+      const ids: number[] = [];
+      let cursor: string | undefined;
+      do {
+        const res = await withTestIp(request(httpServer).get('/employees'))
+          .query({
+            departmentId: dept.id,
+            sort: 'role',
+            pageSize: 1,
+            ...(cursor ? { cursor } : { pagination: 'cursor' }),
+          })
+          .expect(200);
+        ids.push(...(res.body as Array<{ id: number }>).map((r) => r.id));
+        cursor = res.headers['x-next-cursor'];
+      } while (cursor && ids.length <= 4);
+
+      // Alphabetical, like the offset listing, with no row skipped or repeated
+      expect(ids).toEqual([admin.id, ...engineers.map((e) => e.id), intern.id]);
+    } finally {
+      for (const e of [intern, ...engineers, admin]) {
+        await withTestIp(
+          request(httpServer).delete(`/employees/${e.id}`),
+        ).expect(200);
+      }
+      await withTestIp(
+        request(httpServer).delete(`/departments/${dept.id}`),
+      ).expect(200);
+    }
+  });
+
+  it('finds employees with full-text search in prefix mode, highlighting the match', async () => {
+    const httpServer = getHttpServer();
+    const dept = await createDepartment();
+    const surname = `Quokka${Math.random()
+      .toString(36)
+      .replace(/[^a-z]/g, '')
+      .slice(0, 8)}`;
+    const employee = await createEmployee(dept.id, { name: `Jane ${surname}` });
+
+    try {
+      const res = await withTestIp(request(httpServer).get('/search'))
+        .query({ q: surname.slice(0, 8), mode: 'prefix', types: 'employee' })
+        .expect(200);
+
+      const body = res.body as {
+        hits: Array<{
+          type: string;
+          id: number;
+          highlights: Array<{ field: string; snippet: string }>;
+        }>;
+      };
+      const hit = body.hits.find((h) => h.id === employee.id);
+      expect(hit?.type).toBe('employee');
+      expect(hit?.highlights).toContainEqual({
+        field: 'name',
+        snippet: `Jane <mark>${surname.slice(0, 8)}</mark>${surname.slice(8)}`,
+      });
+
+      await withTestIp(request(httpServer).get('/search'))
+        .query({ q: '+*' })
+        .expect(400);
+    } finally {
+      await withTestIp(
+        request(httpServer).delete(`/employees/${employee.id}`),
+      ).expect(200);
+      await withTestIp(
+        request(httpServer).delete(`/departments/${dept.id}`),
+      ).expect(200);
+    }
+  });
+
   it('supports CSV download via Accept: text/csv', async () => {
     const httpServer = getHttpServer();
     const dept = await createDepartment();
@@ -364,6 +618,266 @@ describe('EmployeesController (e2e)', () => {
     }
   });
 
+  it('streams a CSV export of all matching employees with selected columns', async () => {
+    const httpServer = getHttpServer();
+    const dept = await createDepartment();
+    const first = await createEmployee(dept.id);
+    const second = await createEmployee(dept.id);
+
+    try {
+      const res = await withTestIp(request(httpServer).get('/employees/export'))
+        .query({ departmentId: dept.id, columns: 'id,email' })
+        .buffer(true)
+        .parse((response, callback) => {
+          let data = '';
+          response.setEncoding('utf8');
+          response.on('data', (chunk: string) => (data += chunk));
+          response.on('end', () => callback(null, data));
+        })
+        .expect(200)
+        .expect('Content-Type', /text\/csv/i);
+
+      const lines = String(res.body).replace('\uFEFF', '').trim().split('\r\n');
+      expect(lines).toEqual([
+        'id,email',
+        `${first.id},${first.email}`,
+        `${second.id},${second.email}`,
+      ]);
+
+      await withTestIp(request(httpServer).get('/employees/export'))
+        .query({ columns: 'id,passwordHash' })
+        .expect(400);
+    } finally {
+      for (const created of [first, second]) {
+        await withTestIp(
+          request(httpServer).delete(`/employees/${created.id}`),
+        ).expect(200);
+      }
+      await withTestIp(
+        request(httpServer).delete(`/departments/${dept.id}`),
+      ).expect(200);
+    }
+  });
+
+  it('imports employees from CSV: dry run reports rows, real import applies them', async () => {
+    const httpServer = getHttpServer();
+    const dept = await createDepartment();
+    const existing = await createEmployee(dept.id);
+    const newEmail = `e2e-import-${Date.now()}@example.com`;
+
+    const csv = [
+      'name,email,role,departmentId',
+      `Renamed,${existing.email},ENGINEER,${dept.id}`,
+      `Imported,${newEmail},INTERN,${dept.id}`,
+      `Bad Row,not-an-email,ENGINEER,999999999`,
+    ].join('\r\n');
+
+    type ImportBody = {
+      dryRun: boolean;
+      created: number;
+      updated: number;
+      rejected: number;
+      rows: Array<{ line: number; action: string; employeeId: number | null }>;
+    };
+
+    let importedId: number | null = null;
+    try {
+      const dry = await withTestIp(
+        request(httpServer).post('/employees/import'),
+      )
+        .query({ dryRun: 'true' })
+        .attach('file', Buffer.from(csv), {
+          filename: 'employees.csv',
+          contentType: 'text/csv',
+        })
+        .expect(201);
+
+      const report = dry.body as ImportBody;
+      expect(report.dryRun).toBe(true);
+      expect(report.rows.map((r) => r.action)).toEqual([
+        'update',
+        'create',
+        'reject',
+      ]);
+
+      // Any rejected row aborts the real import
+      await withTestIp(request(httpServer).post('/employees/import'))
+        .attach('file', Buffer.from(csv), {
+          filename: 'employees.csv',
+          contentType: 'text/csv',
+        })
+        .expect(400);
+
+      const validCsv = csv.split('\r\n').slice(0, 3).join('\r\n');
+      const res = await withTestIp(
+        request(httpServer).post('/employees/import'),
+      )
+        .attach('file', Buffer.from(validCsv), {
+          filename: 'employees.csv',
+          contentType: 'text/csv',
+        })
+        .expect(201);
+
+      const body = res.body as ImportBody;
+      expect(body.created).toBe(1);
+      expect(body.updated).toBe(1);
+      importedId = body.rows[1].employeeId;
+
+      const updated = await withTestIp(
+        request(httpServer).get(`/employees/${existing.id}`),
+      ).expect(200);
+      expect((updated.body as { name: string }).name).toBe('Renamed');
+    } finally {
+      if (importedId) {
+        await withTestIp(
+          request(httpServer).delete(`/employees/${importedId}`),
+        ).expect(200);
+      }
+      await withTestIp(
+        request(httpServer).delete(`/employees/${existing.id}`),
+      ).expect(200);
+      await withTestIp(
+        request(httpServer).delete(`/departments/${dept.id}`),
+      ).expect(200);
+    }
+  });
+
+  it('lists employees of a whole department subtree and rejects hierarchy cycles', async () => {
+    const httpServer = getHttpServer();
+    const division = await createDepartment();
+    const team = await createDepartment();
+    const employee = await createEmployee(team.id);
+
+    try {
+      await withTestIp(request(httpServer).patch(`/departments/${team.id}`))
+        .send({ parentId: division.id })
+        .expect(200);
+
+      const tree = await withTestIp(
+        request(httpServer).get(`/departments/${division.id}/tree`),
+      ).expect(200);
+      const root = tree.body as { id: number; children: Array<{ id: number }> };
+      expect(root.id).toBe(division.id);
+      expect(root.children.map((c) => c.id)).toEqual([team.id]);
+
+      // division can't be moved under its own subdepartment
+      await withTestIp(request(httpServer).patch(`/departments/${division.id}`))
+        .send({ parentId: team.id })
+        .expect(400);
+
+      const flat = await withTestIp(request(httpServer).get('/employees'))
+        .query({ departmentId: division.id })
+        .expect(200);
+      expect(flat.body).toEqual([]);
+
+      const subtree = await withTestIp(request(httpServer).get('/employees'))
+        .query({ departmentId: division.id, includeSubdepartments: 'true' })
+        .expect(200);
+      expect((subtree.body as Array<{ id: number }>).map((e) => e.id)).toEqual([
+        employee.id,
+      ]);
+    } finally {
+      await withTestIp(
+        request(httpServer).delete(`/employees/${employee.id}`),
+      ).expect(200);
+      await withTestIp(
+        request(httpServer).delete(`/departments/${team.id}`),
+      ).expect(200);
+      await withTestIp(
+        request(httpServer).delete(`/departments/${division.id}`),
+      ).expect(200);
+    }
+  });
+
+  it('tracks reporting lines and rejects reporting cycles', async () => {
+    const httpServer = getHttpServer();
+    const dept = await createDepartment();
+    const ceo = await createEmployee(dept.id);
+    const lead = await createEmployee(dept.id, { managerId: ceo.id });
+    const dev = await createEmployee(dept.id, { managerId: lead.id });
+
+    type ReportingLine = Array<{ id: number; level: number }>;
+
+    try {
+      const reports = await withTestIp(
+        request(httpServer).get(`/employees/${ceo.id}/reports`),
+      ).expect(200);
+      expect(
+        (reports.body as ReportingLine).map((e) => [e.id, e.level]),
+      ).toEqual([
+        [lead.id, 1],
+        [dev.id, 2],
+      ]);
+
+      const chain = await withTestIp(
+        request(httpServer).get(`/employees/${dev.id}/chain`),
+      ).expect(200);
+      expect((chain.body as ReportingLine).map((e) => e.id)).toEqual([
+        lead.id,
+        ceo.id,
+      ]);
+
+      await withTestIp(request(httpServer).patch(`/employees/${ceo.id}`))
+        .send({ managerId: dev.id })
+        .expect(400);
+
+      // A deleted manager in between still counts: it can be restored
+      await withTestIp(
+        request(httpServer).delete(`/employees/${lead.id}`),
+      ).expect(200);
+      await withTestIp(request(httpServer).patch(`/employees/${ceo.id}`))
+        .send({ managerId: dev.id })
+        .expect(400);
+      await withTestIp(
+        request(httpServer).post(`/employees/${lead.id}/restore`),
+      ).expect(201);
+    } finally {
+      for (const created of [dev, lead, ceo]) {
+        await withTestIp(
+          request(httpServer).delete(`/employees/${created.id}`),
+        ).expect(200);
+      }
+      await withTestIp(
+        request(httpServer).delete(`/departments/${dept.id}`),
+      ).expect(200);
+    }
+  });
+
+  it('blocks deleting a department with employees unless they are reassigned', async () => {
+    const httpServer = getHttpServer();
+    const dept = await createDepartment();
+    const target = await createDepartment();
+    const employee = await createEmployee(dept.id);
+
+    try {
+      await withTestIp(
+        request(httpServer).delete(`/departments/${dept.id}`),
+      ).expect(409);
+
+      await withTestIp(request(httpServer).delete(`/departments/${dept.id}`))
+        .query({ strategy: 'reassign' })
+        .expect(400);
+
+      await withTestIp(request(httpServer).delete(`/departments/${dept.id}`))
+        .query({ strategy: 'reassign', targetDepartmentId: target.id })
+        .expect(200);
+
+      const moved = await withTestIp(
+        request(httpServer).get(`/employees/${employee.id}`),
+      ).expect(200);
+      expect((moved.body as CreateEmployeeResponse).departmentId).toBe(
+        target.id,
+      );
+    } finally {
+      await withTestIp(
+        request(httpServer).delete(`/employees/${employee.id}`),
+      ).expect(200);
+      await withTestIp(
+        request(httpServer).delete(`/departments/${target.id}`),
+      ).expect(200);
+    }
+  });
+
   it('updates an employee and writes an audit log entry', async () => {
     const httpServer = getHttpServer();
     const dept = await createDepartment();
@@ -382,6 +896,11 @@ describe('EmployeesController (e2e)', () => {
       expect(patched.id).toBe(created.id);
       expect(patched.name).toBe(updatedName);
 
+      // An employee can't be taken out of every department through the API
+      await withTestIp(request(httpServer).patch(`/employees/${created.id}`))
+        .send({ departmentId: null })
+        .expect(400);
+
       type AuditRow = {
         eventType: string;
         entityType: string;
@@ -409,6 +928,41 @@ describe('EmployeesController (e2e)', () => {
     }
   });
 
+  it('reverts an employee to the version before an audited update', async () => {
+    const httpServer = getHttpServer();
+    const dept = await createDepartment();
+    const created = await createEmployee(dept.id);
+
+    try {
+      await withTestIp(request(httpServer).patch(`/employees/${created.id}`))
+        .send({ name: 'E2E Employee Renamed' })
+        .expect(200);
+
+      const updateAudit = await db.queryOneMaster<{ id: number }>(
+        'SELECT id FROM AuditLog WHERE entityType = ? AND entityId = ? AND eventType = ? ORDER BY id DESC LIMIT 1',
+        ['Employee', String(created.id), 'employee.updated'],
+      );
+      expect(updateAudit?.id).toBeDefined();
+
+      const res = await withTestIp(
+        request(httpServer).post(
+          `/employees/${created.id}/revert/${updateAudit?.id}`,
+        ),
+      ).expect(201);
+
+      const reverted = res.body as { id: number; name: string };
+      expect(reverted.id).toBe(created.id);
+      expect(reverted.name).toBe('E2E Employee');
+    } finally {
+      await withTestIp(
+        request(httpServer).delete(`/employees/${created.id}`),
+      ).expect(200);
+      await withTestIp(
+        request(httpServer).delete(`/departments/${dept.id}`),
+      ).expect(200);
+    }
+  });
+
   it('returns 400 when PATCH has no fields to update', async () => {
     const httpServer = getHttpServer();
     const dept = await createDepartment();